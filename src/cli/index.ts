@@ -4,73 +4,310 @@
  */
 
 import { program } from "commander";
-import { dirname } from "path";
+import { mkdir } from "fs/promises";
+import { basename, dirname, extname, join, resolve } from "path";
 import {
   processModels,
   renderChart,
+  paginateModels,
+  renderChartSvg,
   calculateLayoutDimensions,
+  slugify,
+  ValidationError,
+  type InputConfig,
 } from "../core/index.js";
-import { parseYaml, ParseError } from "./parser.js";
-import { renderToImage, getExportFormat } from "./screenshot.js";
+import { parseYamlCharts, loadBaselineRanks, ParseError, type ParsedChartFile } from "./parser.js";
+import { createBrowserPool, getExportFormat, type BrowserPool, type ImageOptions } from "./screenshot.js";
 
-async function main(): Promise<void> {
-  program
-    .name("llmplot")
-    .description("Generate beautiful LLM benchmark charts from YAML data")
-    .argument("<input>", "Input YAML file")
-    .option("-o, --output <path>", "Output file path (html, png, or svg)")
-    .parse(process.argv);
+const OUTPUT_FORMATS = ["html", "png", "jpg", "jpeg", "webp", "svg", "pdf"];
 
-  const inputPath = program.args[0];
-  const options = program.opts<{ output?: string }>();
+interface RenderJob {
+  label: string; // input path, plus the chart title for charts from a `charts:` list
+  config: InputConfig;
+  outputPath: string;
+}
 
-  try {
-    // Read and parse YAML file
-    const file = Bun.file(inputPath);
-    if (!(await file.exists())) {
-      console.error(`Error: File not found: ${inputPath}`);
-      process.exit(1);
+interface RenderSettings {
+  interactive?: boolean;
+  imageOptions: Pick<ImageOptions, "scaleFactor" | "quality">;
+  browserPool: BrowserPool;
+}
+
+/**
+ * Number a page's output path: "chart.png" becomes "chart-1.png", "chart-2.png", ...
+ */
+function getPagePath(outputPath: string, page: number): string {
+  const ext = extname(outputPath);
+  return `${outputPath.slice(0, outputPath.length - ext.length)}-${page + 1}${ext}`;
+}
+
+/**
+ * Expand glob patterns (for shells that pass them through quoted) into sorted file paths.
+ * Plain paths are kept as they are, so a missing file is reported rather than dropped.
+ */
+async function expandInputs(patterns: string[]): Promise<string[]> {
+  const inputs: string[] = [];
+  for (const pattern of patterns) {
+    if (!/[*?[{]/.test(pattern)) {
+      inputs.push(pattern);
+      continue;
+    }
+    // A pattern whose directory doesn't exist matches nothing
+    const matches = await Array.fromAsync(new Bun.Glob(pattern).scan({ onlyFiles: true })).catch(() => []);
+    if (matches.length === 0) {
+      throw new Error(`No files match ${pattern}`);
     }
+    inputs.push(...matches.sort());
+  }
+  return [...new Set(inputs)];
+}
 
-    const yamlContent = await file.text();
-    const basePath = dirname(inputPath);
-    const config = await parseYaml(yamlContent, basePath);
-    const models = processModels(config);
+/**
+ * Describe a failed render the way the CLI reports it.
+ */
+function describeError(error: unknown): string {
+  if (error instanceof ParseError) return `Parse error: ${error.message}`;
+  if (error instanceof ValidationError) return `Validation error: ${error.message}`;
+  return `Error: ${error instanceof Error ? error.message : String(error)}`;
+}
 
-    // Render HTML (CLI mode with full document, embedded CSS/fonts)
-    const html = renderChart(config, models, { mode: 'cli' });
+/**
+ * Run `task` over every item with at most `limit` in flight, collecting each outcome.
+ */
+async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await task(items[index]) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
 
-    // Determine output path and format
-    const outputPath = options.output ?? inputPath.replace(/\.ya?ml$/i, ".html");
-    const exportFormat = getExportFormat(outputPath);
+/**
+ * Read and parse a YAML file into its charts, with the --baseline ranks applied.
+ */
+async function loadCharts(inputPath: string, baselineRanks?: Record<string, number>): Promise<ParsedChartFile> {
+  const file = Bun.file(inputPath);
+  if (!(await file.exists())) {
+    throw new Error(`File not found: ${inputPath}`);
+  }
 
+  const parsed = await parseYamlCharts(await file.text(), dirname(inputPath));
+  if (baselineRanks) {
+    for (const config of parsed.configs) config.baselineRanks = baselineRanks;
+  }
+  return parsed;
+}
+
+/**
+ * Render one chart to its output, one file per page for split leaderboards.
+ */
+async function renderJob(job: RenderJob, settings: RenderSettings): Promise<void> {
+  const { config, outputPath } = job;
+  const models = processModels(config);
+
+  const exportFormat = getExportFormat(outputPath);
+
+  // Images are static, so interactive controls only go into HTML output
+  const mode = settings.interactive && !exportFormat ? 'interactive' : 'cli';
+  const pageCount = paginateModels(config, models).length;
+
+  const outputPaths = Array.from({ length: pageCount }, (_, page) =>
+    pageCount > 1 ? getPagePath(outputPath, page) : outputPath
+  );
+  // Every page shares the same dimensions
+  const dimensions = calculateLayoutDimensions(config, models);
+
+  for (const [page, pagePath] of outputPaths.entries()) {
+    if (exportFormat === "svg") {
+      // Vector SVG straight from the core renderer, no HTML or browser needed
+      await Bun.write(pagePath, renderChartSvg(config, models, { page }));
+      console.log(`Generated SVG: ${pagePath}`);
+      continue;
+    }
+
+    // Render HTML (full document, embedded CSS/fonts)
+    const html = renderChart(config, models, { mode, page });
     if (exportFormat) {
-      // PNG or SVG export via Puppeteer
-      const dimensions = calculateLayoutDimensions(
-        models.length,
-        !!config.description,
-        config.showRankings
-      );
-
-      await renderToImage(html, outputPath, exportFormat, {
+      // Raster image or PDF export via the shared Puppeteer browser
+      await settings.browserPool.render(html, pagePath, exportFormat, {
         width: dimensions.backgroundWidth,
         height: dimensions.backgroundHeight,
-        scaleFactor: 2,
+        ...settings.imageOptions,
       });
 
-      console.log(`Generated ${exportFormat.toUpperCase()}: ${outputPath}`);
+      console.log(`Generated ${exportFormat.toUpperCase()}: ${pagePath}`);
     } else {
       // HTML output
-      await Bun.write(outputPath, html);
-      console.log(`Generated HTML: ${outputPath}`);
+      await Bun.write(pagePath, html);
+      console.log(`Generated HTML: ${pagePath}`);
     }
+  }
+}
+
+async function main(): Promise<void> {
+  program
+    .name("llmplot")
+    .description("Generate beautiful LLM benchmark charts from YAML data")
+    .argument("<inputs...>", "Input YAML files or glob patterns; a file may hold a charts: list")
+    .option("-o, --output <path>", "Output file path (html, png, jpg, webp, svg, or pdf), for a single input")
+    .option("-f, --format <format>", "Output format when no --output is given (html, png, jpg, webp, svg, or pdf)", "html")
+    .option("-d, --out-dir <dir>", "Directory for outputs named after their inputs or chart titles (default: next to each input)")
+    .option("-c, --concurrency <count>", "Number of charts rendered at once", "4")
+    .option("-s, --scale <factor>", "Pixel density of png, jpg and webp output", "2")
+    .option("-q, --quality <percent>", "Compression quality of jpg and webp output, from 0 to 100")
+    .option("-i, --interactive", "Add hover tooltips, sorting and provider filters to HTML output")
+    .option("-b, --baseline <path>", "Previous leaderboard YAML file to show rank changes against (overrides compareTo)")
+    .parse(process.argv);
+
+  const options = program.opts<{
+    output?: string;
+    format: string;
+    outDir?: string;
+    concurrency: string;
+    baseline?: string;
+    interactive?: boolean;
+    scale: string;
+    quality?: string;
+  }>();
+
+  const format = options.format.toLowerCase();
+  if (!OUTPUT_FORMATS.includes(format)) {
+    console.error(`Error: --format must be one of ${OUTPUT_FORMATS.join(", ")}`);
+    process.exit(1);
+  }
+  const concurrency = Number(options.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    console.error("Error: --concurrency must be a whole number of at least 1");
+    process.exit(1);
+  }
+  const scaleFactor = Number(options.scale);
+  if (!Number.isFinite(scaleFactor) || scaleFactor <= 0) {
+    console.error("Error: --scale must be a positive number");
+    process.exit(1);
+  }
+  const quality = options.quality !== undefined ? Number(options.quality) : undefined;
+  if (quality !== undefined && !(Number.isInteger(quality) && quality >= 0 && quality <= 100)) {
+    console.error("Error: --quality must be a whole number from 0 to 100");
+    process.exit(1);
+  }
+
+  let inputPaths: string[];
+  try {
+    inputPaths = await expandInputs(program.args);
+  } catch (error) {
+    console.error(describeError(error));
+    process.exit(1);
+  }
+  if (options.output && inputPaths.length > 1) {
+    console.error("Error: --output takes a single input; use --out-dir for several");
+    process.exit(1);
+  }
+
+  // The --baseline file is shared by every input, so it is loaded once
+  let baselineRanks: Record<string, number> | undefined;
+  try {
+    baselineRanks = options.baseline ? await loadBaselineRanks(options.baseline) : undefined;
   } catch (error) {
-    if (error instanceof ParseError) {
-      console.error(`Parse error: ${error.message}`);
+    console.error(describeError(error));
+    process.exit(1);
+  }
+
+  // Parse every input; a file that fails counts as one failed chart
+  const failures: { label: string; reason: unknown }[] = [];
+  const jobs: RenderJob[] = [];
+  for (const inputPath of inputPaths) {
+    let charts: ParsedChartFile;
+    try {
+      charts = await loadCharts(inputPath, baselineRanks);
+    } catch (reason) {
+      failures.push({ label: inputPath, reason });
+      continue;
+    }
+    if (charts.isChartList && options.output) {
+      console.error("Error: --output takes a single chart; use --out-dir for a charts: list");
       process.exit(1);
     }
-    throw error;
+
+    // The format follows --output's extension, or --format. A single chart is named after
+    // its input, and each chart of a `charts:` list after its slugified title.
+    const outDir = options.outDir ?? dirname(inputPath);
+    for (const config of charts.configs) {
+      const name = charts.isChartList ? slugify(config.title) : basename(inputPath).replace(/\.ya?ml$/i, "");
+      jobs.push({
+        label: charts.isChartList ? `${inputPath} (${config.title})` : inputPath,
+        config,
+        outputPath: options.output ?? join(outDir, `${name}.${format}`),
+      });
+    }
+  }
+
+  const seen = new Map<string, string>();
+  for (const { label, outputPath } of jobs) {
+    const other = seen.get(resolve(outputPath));
+    if (other) {
+      console.error(`Error: ${other} and ${label} would both be written to ${outputPath}`);
+      process.exit(1);
+    }
+    seen.set(resolve(outputPath), label);
+  }
+  if (options.outDir) {
+    await mkdir(options.outDir, { recursive: true });
+  }
+
+  const browserPool = createBrowserPool();
+  const settings: RenderSettings = {
+    interactive: options.interactive,
+    imageOptions: { scaleFactor, quality },
+    browserPool,
+  };
+
+  let results: PromiseSettledResult<void>[];
+  try {
+    results = await runWithConcurrency(jobs, concurrency, (job) => renderJob(job, settings));
+  } finally {
+    await browserPool.close();
+  }
+
+  // Files that failed to parse count as one chart each
+  const total = jobs.length + failures.length;
+  for (const [index, result] of results.entries()) {
+    if (result.status === "rejected") {
+      failures.push({ label: jobs[index].label, reason: result.reason });
+    }
+  }
+  if (total === 1) {
+    if (failures.length > 0) {
+      console.error(describeError(failures[0].reason));
+      process.exit(1);
+    }
+    return;
+  }
+
+  // Batch summary
+  console.log(`\nRendered ${total - failures.length} of ${total} charts`);
+  for (const { label, reason } of failures) {
+    console.error(`  ✗ ${label}: ${describeError(reason)}`);
+  }
+  if (failures.length > 0) {
+    process.exit(1);
   }
 }
 
-main();
+// Errors outside a single chart (output directory, browser shutdown) end the run the same way
+main().catch((error) => {
+  console.error(describeError(error));
+  process.exit(1);
+});
@@ -1,7 +1,29 @@
 import { parse } from "yaml";
-import { resolve, extname } from "path";
-import type { InputConfig, ModelData, CustomProvider } from "../core/types.js";
+import { resolve, extname, dirname } from "path";
+import type {
+  InputConfig,
+  ModelData,
+  CustomProvider,
+  Orientation,
+  AspectRatio,
+  Benchmark,
+  BenchmarkScore,
+  ErrorBarMethod,
+  ChartType,
+  ScatterXAxis,
+  DumbbellSort,
+  ReferenceLine,
+  MetricConfig,
+  ModelGroup,
+  SortBy,
+  RankScope,
+  ThemeConfig,
+  ThemePreset,
+  DataSource,
+} from "../core/types.js";
 import { fontFamilies, type FontFamily } from "../core/assets.js";
+import { THEMES, THEME_COLOR_KEYS } from "../core/theme.js";
+import { processModels, getRanksByModel, ValidationError } from "../core/preprocessor.js";
 
 export class ParseError extends Error {
   constructor(message: string) {
@@ -11,18 +33,19 @@ export class ParseError extends Error {
 }
 
 /**
- * Read an icon file and return it as an inline string.
- * SVG files are returned as-is, PNG files are converted to base64 data URLs.
+ * Read an SVG or PNG image file (icon or logo) and return it as a base64 data URL.
+ * 
+ * @param context - Field name for error messages (e.g., "models[0].icon")
  */
-async function readIconFile(iconPath: string, basePath: string, index: number): Promise<string> {
-  const fullPath = resolve(basePath, iconPath);
+async function readImageFile(imagePath: string, basePath: string, context: string): Promise<string> {
+  const fullPath = resolve(basePath, imagePath);
   const file = Bun.file(fullPath);
 
   if (!await file.exists()) {
-    throw new ParseError(`models[${index}].icon: file not found: ${fullPath}`);
+    throw new ParseError(`${context}: file not found: ${fullPath}`);
   }
 
-  const ext = extname(iconPath).toLowerCase();
+  const ext = extname(imagePath).toLowerCase();
   if (ext === ".svg") {
     const svg = await file.text();
     const base64 = Buffer.from(svg).toString("base64");
@@ -32,7 +55,7 @@ async function readIconFile(iconPath: string, basePath: string, index: number):
     const base64 = Buffer.from(buffer).toString("base64");
     return `data:image/png;base64,${base64}`;
   } else {
-    throw new ParseError(`models[${index}].icon: unsupported format "${ext}" (use .svg or .png)`);
+    throw new ParseError(`${context}: unsupported format "${ext}" (use .svg or .png)`);
   }
 }
 
@@ -64,28 +87,30 @@ const PROVIDER_KEY_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
 const HEX_COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
 
 /**
- * Read a custom provider icon file and return it as a base64 data URL.
+ * Valid scatter chart x-axis metrics.
  */
-async function readProviderIconFile(iconPath: string, basePath: string, index: number): Promise<string> {
-  const fullPath = resolve(basePath, iconPath);
-  const file = Bun.file(fullPath);
+const SCATTER_X_AXES: readonly ScatterXAxis[] = [
+  "totalParams",
+  "activeParams",
+  "costPerRun",
+  "costPerMillionInput",
+  "costPerMillionOutput",
+  "latencyMs",
+];
 
-  if (!await file.exists()) {
-    throw new ParseError(`customProviders[${index}].icon: file not found: ${fullPath}`);
+/**
+ * Resolve a header or sponsor logo to a base64 data URL.
+ * Inline data URLs (frontend export) are used as-is, anything else is read as a file path.
+ */
+async function resolveLogo(logo: string, basePath: string, field: string): Promise<string> {
+  if (logo.startsWith("data:")) {
+    if (!ICON_DATA_URL_PATTERN.test(logo)) {
+      throw new ParseError(`${field} must be a valid base64 data URL (data:image/svg+xml;base64,... or data:image/png;base64,...)`);
+    }
+    return logo;
   }
 
-  const ext = extname(iconPath).toLowerCase();
-  if (ext === ".svg") {
-    const svg = await file.text();
-    const base64 = Buffer.from(svg).toString("base64");
-    return `data:image/svg+xml;base64,${base64}`;
-  } else if (ext === ".png") {
-    const buffer = await file.arrayBuffer();
-    const base64 = Buffer.from(buffer).toString("base64");
-    return `data:image/png;base64,${base64}`;
-  } else {
-    throw new ParseError(`customProviders[${index}].icon: unsupported format "${ext}" (use .svg or .png)`);
-  }
+  return readImageFile(logo, basePath, field);
 }
 
 /**
@@ -142,20 +167,347 @@ function validateCustomProvider(provider: unknown, index: number): RawCustomProv
   };
 }
 
+/**
+ * Validate a passed/total or percent score, or a raw value when a metric is set.
+ * 
+ * @param s - Object holding the score fields
+ * @param context - Context for error messages (e.g., "models[0]")
+ * @param hasMetric - Whether the config has a `metric` block
+ */
+function validateScore(s: Record<string, unknown>, context: string, hasMetric = false): BenchmarkScore {
+  if (hasMetric) {
+    if (s.percent !== undefined || s.passed !== undefined || s.total !== undefined) {
+      throw new ParseError(`${context} must use 'value' instead of 'percent' or 'passed/total' when a metric is set`);
+    }
+    if (typeof s.value !== "number" || !Number.isFinite(s.value)) {
+      throw new ParseError(`${context}.value must be a number`);
+    }
+    return { value: s.value };
+  }
+
+  if (s.value !== undefined) {
+    throw new ParseError(`${context}.value requires a top-level 'metric' block`);
+  }
+
+  // Check for percent vs passed/total
+  const hasPercent = s.percent !== undefined;
+  const hasPassedTotal = s.passed !== undefined || s.total !== undefined;
+
+  if (hasPercent && hasPassedTotal) {
+    throw new ParseError(`${context} cannot have both 'percent' and 'passed/total' - use one or the other`);
+  }
+
+  if (!hasPercent && !hasPassedTotal) {
+    throw new ParseError(`${context} must have either 'percent' or both 'passed' and 'total'`);
+  }
+
+  if (hasPercent) {
+    if (typeof s.percent !== "number" || s.percent < 0 || s.percent > 100) {
+      throw new ParseError(`${context}.percent must be a number between 0 and 100`);
+    }
+    return { percent: s.percent };
+  }
+
+  if (typeof s.passed !== "number" || !Number.isInteger(s.passed) || s.passed < 0) {
+    throw new ParseError(`${context}.passed must be a non-negative integer`);
+  }
+
+  if (typeof s.total !== "number" || !Number.isInteger(s.total) || s.total <= 0) {
+    throw new ParseError(`${context}.total must be a positive integer`);
+  }
+
+  if (s.passed > s.total) {
+    throw new ParseError(`${context}.passed (${s.passed}) cannot exceed total (${s.total})`);
+  }
+
+  return { passed: s.passed, total: s.total };
+}
+
+/**
+ * Validate a model's per-benchmark scores map.
+ * Each entry is either a number (shorthand for percent) or a score object.
+ * Every benchmark must have a score.
+ */
+function validateScores(
+  scores: unknown,
+  benchmarkKeys: string[],
+  index: number
+): Record<string, BenchmarkScore> {
+  if (typeof scores !== "object" || scores === null || Array.isArray(scores)) {
+    throw new ParseError(`models[${index}].scores must be a map of benchmark key to score`);
+  }
+
+  const result: Record<string, BenchmarkScore> = {};
+  for (const [key, value] of Object.entries(scores as Record<string, unknown>)) {
+    const context = `models[${index}].scores.${key}`;
+    if (!benchmarkKeys.includes(key)) {
+      throw new ParseError(`${context} does not match any benchmark key`);
+    }
+    if (typeof value === "number") {
+      result[key] = validateScore({ percent: value }, context);
+    } else if (typeof value === "object" && value !== null) {
+      result[key] = validateScore(value as Record<string, unknown>, context);
+    } else {
+      throw new ParseError(`${context} must be a number (percent) or an object with 'percent' or 'passed'/'total'`);
+    }
+  }
+
+  for (const key of benchmarkKeys) {
+    if (!(key in result)) {
+      throw new ParseError(`models[${index}].scores is missing benchmark "${key}"`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validate a single benchmark definition.
+ */
+function validateBenchmark(benchmark: unknown, index: number): Benchmark {
+  if (typeof benchmark !== "object" || benchmark === null) {
+    throw new ParseError(`benchmarks[${index}] must be an object`);
+  }
+
+  const b = benchmark as Record<string, unknown>;
+
+  if (typeof b.key !== "string" || !PROVIDER_KEY_PATTERN.test(b.key)) {
+    throw new ParseError(
+      `benchmarks[${index}].key must be a lowercase string with alphanumeric characters and hyphens (e.g., "swe-bench")`
+    );
+  }
+
+  if (b.label !== undefined && typeof b.label !== "string") {
+    throw new ParseError(`benchmarks[${index}].label must be a string`);
+  }
+
+  if (b.color !== undefined && (typeof b.color !== "string" || !HEX_COLOR_PATTERN.test(b.color))) {
+    throw new ParseError(`benchmarks[${index}].color must be a valid hex color (e.g., "#FF5733")`);
+  }
+
+  return {
+    key: b.key,
+    label: b.label as string | undefined,
+    color: b.color as string | undefined,
+  };
+}
+
+/** Valid row orders (must match core/types.ts SortBy) */
+const SORT_BY_OPTIONS: SortBy[] = ["score", "input", "provider", "params"];
+const ASPECT_RATIO_OPTIONS: AspectRatio[] = ["4:5", "1:1", "16:9", "1.91:1", "auto"];
+
+/**
+ * Validate a single group definition.
+ */
+function validateGroup(group: unknown, index: number): ModelGroup {
+  if (typeof group !== "object" || group === null) {
+    throw new ParseError(`groups[${index}] must be an object`);
+  }
+
+  const g = group as Record<string, unknown>;
+
+  if (typeof g.key !== "string" || !PROVIDER_KEY_PATTERN.test(g.key)) {
+    throw new ParseError(
+      `groups[${index}].key must be a lowercase string with alphanumeric characters and hyphens (e.g., "open-weights")`
+    );
+  }
+
+  if (g.label !== undefined && typeof g.label !== "string") {
+    throw new ParseError(`groups[${index}].label must be a string`);
+  }
+
+  return {
+    key: g.key,
+    label: g.label as string | undefined,
+  };
+}
+
+/**
+ * Validate the optional metric block (non-percentage scores).
+ */
+function validateMetric(metric: unknown): MetricConfig {
+  if (typeof metric !== "object" || metric === null || Array.isArray(metric)) {
+    throw new ParseError("metric must be an object");
+  }
+
+  const m = metric as Record<string, unknown>;
+
+  for (const field of ["unit", "format"] as const) {
+    if (m[field] !== undefined && typeof m[field] !== "string") {
+      throw new ParseError(`metric.${field} must be a string`);
+    }
+  }
+
+  for (const field of ["min", "max"] as const) {
+    const value = m[field];
+    if (value !== undefined && (typeof value !== "number" || !Number.isFinite(value))) {
+      throw new ParseError(`metric.${field} must be a number`);
+    }
+  }
+
+  if (m.min !== undefined && m.max !== undefined && (m.min as number) >= (m.max as number)) {
+    throw new ParseError(`metric.min (${m.min}) must be less than metric.max (${m.max})`);
+  }
+
+  if (m.higherIsBetter !== undefined && typeof m.higherIsBetter !== "boolean") {
+    throw new ParseError("metric.higherIsBetter must be a boolean");
+  }
+
+  return {
+    unit: m.unit as string | undefined,
+    min: m.min as number | undefined,
+    max: m.max as number | undefined,
+    format: m.format as string | undefined,
+    higherIsBetter: m.higherIsBetter as boolean | undefined,
+  };
+}
+
+/**
+ * Validate a data source: plain text, or an object with text and an optional link.
+ */
+function validateSource(source: unknown): DataSource {
+  if (typeof source === "string") {
+    if (source.trim() === "") {
+      throw new ParseError("source must be a non-empty string");
+    }
+    return { text: source };
+  }
+  if (typeof source !== "object" || source === null || Array.isArray(source)) {
+    throw new ParseError("source must be a string or an object with text and url");
+  }
+
+  const s = source as Record<string, unknown>;
+  if (typeof s.text !== "string" || s.text.trim() === "") {
+    throw new ParseError("source.text is required and must be a non-empty string");
+  }
+  if (s.url !== undefined && (typeof s.url !== "string" || !/^https?:\/\//.test(s.url))) {
+    throw new ParseError("source.url must be an http(s) URL");
+  }
+
+  return { text: s.text, url: s.url as string | undefined };
+}
+
+/**
+ * Validate a theme: a preset name ("light" or "dark"), or an object with an
+ * optional preset plus color and radius overrides.
+ */
+function validateTheme(theme: unknown): ThemeConfig {
+  const presets = Object.keys(THEMES);
+  if (typeof theme === "string") {
+    if (!presets.includes(theme)) {
+      throw new ParseError(`theme must be one of: ${presets.join(", ")}`);
+    }
+    return { preset: theme as ThemePreset };
+  }
+  if (typeof theme !== "object" || theme === null || Array.isArray(theme)) {
+    throw new ParseError("theme must be a preset name or an object");
+  }
+
+  const t = theme as Record<string, unknown>;
+
+  if (t.preset !== undefined && (typeof t.preset !== "string" || !presets.includes(t.preset))) {
+    throw new ParseError(`theme.preset must be one of: ${presets.join(", ")}`);
+  }
+
+  const result: ThemeConfig = { preset: t.preset as ThemePreset | undefined };
+  for (const key of THEME_COLOR_KEYS) {
+    const color = t[key];
+    if (color === undefined) continue;
+    if (typeof color !== "string" || !HEX_COLOR_PATTERN.test(color)) {
+      throw new ParseError(`theme.${key} must be a valid hex color (e.g., "#FF5733")`);
+    }
+    result[key] = color;
+  }
+
+  if (t.radius !== undefined) {
+    if (typeof t.radius !== "number" || !Number.isFinite(t.radius) || t.radius < 0) {
+      throw new ParseError("theme.radius must be a non-negative number");
+    }
+    result.radius = t.radius;
+  }
+
+  return result;
+}
+
+/**
+ * Validate a single reference line definition.
+ * Values are percentages, or metric units when a metric is set.
+ */
+function validateReferenceLine(line: unknown, index: number, hasMetric = false): ReferenceLine {
+  if (typeof line !== "object" || line === null) {
+    throw new ParseError(`referenceLines[${index}] must be an object`);
+  }
+
+  const r = line as Record<string, unknown>;
+
+  if (typeof r.label !== "string" || r.label.trim() === "") {
+    throw new ParseError(`referenceLines[${index}].label must be a non-empty string`);
+  }
+
+  if (hasMetric) {
+    if (typeof r.value !== "number" || !Number.isFinite(r.value)) {
+      throw new ParseError(`referenceLines[${index}].value must be a number`);
+    }
+  } else if (typeof r.value !== "number" || r.value < 0 || r.value > 100) {
+    throw new ParseError(`referenceLines[${index}].value must be a number between 0 and 100`);
+  }
+
+  if (r.color !== undefined && (typeof r.color !== "string" || !HEX_COLOR_PATTERN.test(r.color))) {
+    throw new ParseError(`referenceLines[${index}].color must be a valid hex color (e.g., "#FF5733")`);
+  }
+
+  return {
+    label: r.label,
+    value: r.value,
+    color: r.color as string | undefined,
+  };
+}
+
 interface RawModelData {
   model: string;
   passed?: number;
   total?: number;
   percent?: number;
+  value?: number;
   displayName?: string;
   totalParams?: number;
   activeParams?: number;
   color?: string;
   iconPath?: string;    // file path (CLI) - resolved to iconDataUrl
   iconDataUrl?: string; // inline base64 data URL (frontend export)
+  scores?: Record<string, BenchmarkScore>;
+  ciLow?: number;
+  ciHigh?: number;
+  costPerMillionInput?: number;
+  costPerMillionOutput?: number;
+  costPerRun?: number;
+  latencyMs?: number;
+  previous?: BenchmarkScore;
+  note?: string;
+  footnote?: string;
+  group?: string;
+  highlight?: boolean;
+  callout?: string;
 }
 
-function validateModelData(model: unknown, index: number): RawModelData {
+/** Optional cost and latency fields on a model entry */
+const COST_FIELDS = ["costPerMillionInput", "costPerMillionOutput", "costPerRun", "latencyMs"] as const;
+
+/**
+ * Validate a single model entry.
+ * When `benchmarkKeys` is set, the model must provide `scores` for every benchmark.
+ * A `footnote` must name one of `footnoteKeys`.
+ * With `hasMetric`, scores (and ciLow/ciHigh) are raw values in metric units.
+ * When `groupKeys` is set, the model must name one of them as its `group`.
+ */
+function validateModelData(
+  model: unknown,
+  index: number,
+  benchmarkKeys?: string[],
+  footnoteKeys: string[] = [],
+  hasMetric = false,
+  groupKeys?: string[]
+): RawModelData {
   if (typeof model !== "object" || model === null) {
     throw new ParseError(`models[${index}] must be an object`);
   }
@@ -167,33 +519,49 @@ function validateModelData(model: unknown, index: number): RawModelData {
     throw new ParseError(`models[${index}].model must be a non-empty string`);
   }
 
-  // Check for percent vs passed/total
-  const hasPercent = m.percent !== undefined;
-  const hasPassedTotal = m.passed !== undefined || m.total !== undefined;
-
-  if (hasPercent && hasPassedTotal) {
-    throw new ParseError(`models[${index}] cannot have both 'percent' and 'passed/total' - use one or the other`);
-  }
-
-  if (!hasPercent && !hasPassedTotal) {
-    throw new ParseError(`models[${index}] must have either 'percent' or both 'passed' and 'total'`);
-  }
-
-  if (hasPercent) {
-    if (typeof m.percent !== "number" || m.percent < 0 || m.percent > 100) {
-      throw new ParseError(`models[${index}].percent must be a number between 0 and 100`);
+  let scores: Record<string, BenchmarkScore> | undefined;
+  if (benchmarkKeys) {
+    // Grouped chart: one score per benchmark instead of a top-level score
+    if (m.percent !== undefined || m.passed !== undefined || m.total !== undefined) {
+      throw new ParseError(`models[${index}] must use 'scores' instead of 'percent' or 'passed/total' when benchmarks are defined`);
     }
+    scores = validateScores(m.scores, benchmarkKeys, index);
   } else {
-    if (typeof m.passed !== "number" || !Number.isInteger(m.passed) || m.passed < 0) {
-      throw new ParseError(`models[${index}].passed must be a non-negative integer`);
+    if (m.scores !== undefined) {
+      throw new ParseError(`models[${index}].scores requires a top-level 'benchmarks' list`);
     }
+    validateScore(m, `models[${index}]`, hasMetric);
+  }
 
-    if (typeof m.total !== "number" || !Number.isInteger(m.total) || m.total <= 0) {
-      throw new ParseError(`models[${index}].total must be a positive integer`);
+  // Validate optional previous run's score (dumbbell charts)
+  let previous: BenchmarkScore | undefined;
+  if (m.previous !== undefined) {
+    const context = `models[${index}].previous`;
+    if (typeof m.previous === "number") {
+      previous = validateScore(hasMetric ? { value: m.previous } : { percent: m.previous }, context, hasMetric);
+    } else if (typeof m.previous === "object" && m.previous !== null) {
+      previous = validateScore(m.previous as Record<string, unknown>, context, hasMetric);
+    } else if (hasMetric) {
+      throw new ParseError(`${context} must be a number or an object with 'value'`);
+    } else {
+      throw new ParseError(`${context} must be a number (percent) or an object with 'percent' or 'passed'/'total'`);
     }
+  }
 
-    if (m.passed > m.total) {
-      throw new ParseError(`models[${index}].passed (${m.passed}) cannot exceed total (${m.total})`);
+  // Validate optional explicit confidence interval (both bounds or neither)
+  if (m.ciLow !== undefined || m.ciHigh !== undefined) {
+    for (const field of ["ciLow", "ciHigh"] as const) {
+      const value = m[field];
+      if (hasMetric) {
+        if (typeof value !== "number" || !Number.isFinite(value)) {
+          throw new ParseError(`models[${index}].${field} must be a number (set both 'ciLow' and 'ciHigh')`);
+        }
+      } else if (typeof value !== "number" || value < 0 || value > 100) {
+        throw new ParseError(`models[${index}].${field} must be a number between 0 and 100 (set both 'ciLow' and 'ciHigh')`);
+      }
+    }
+    if ((m.ciLow as number) > (m.ciHigh as number)) {
+      throw new ParseError(`models[${index}].ciLow (${m.ciLow}) cannot exceed ciHigh (${m.ciHigh})`);
     }
   }
 
@@ -202,6 +570,36 @@ function validateModelData(model: unknown, index: number): RawModelData {
     throw new ParseError(`models[${index}].displayName must be a string`);
   }
 
+  // Validate optional note (inline footnote) or footnote (key into footnotes)
+  if (m.note !== undefined && (typeof m.note !== "string" || m.note.trim() === "")) {
+    throw new ParseError(`models[${index}].note must be a non-empty string`);
+  }
+  if (m.footnote !== undefined) {
+    if (typeof m.footnote !== "string" || !footnoteKeys.includes(m.footnote)) {
+      throw new ParseError(`models[${index}].footnote must be one of the keys in 'footnotes'`);
+    }
+    if (m.note !== undefined) {
+      throw new ParseError(`models[${index}] cannot have both 'note' and 'footnote' - use one or the other`);
+    }
+  }
+
+  // Validate group membership (required when groups are defined)
+  if (groupKeys) {
+    if (typeof m.group !== "string" || !groupKeys.includes(m.group)) {
+      throw new ParseError(`models[${index}].group must be one of: ${groupKeys.join(", ")}`);
+    }
+  } else if (m.group !== undefined) {
+    throw new ParseError(`models[${index}].group requires a top-level 'groups' list`);
+  }
+
+  // Validate optional highlight and callout badge
+  if (m.highlight !== undefined && typeof m.highlight !== "boolean") {
+    throw new ParseError(`models[${index}].highlight must be a boolean`);
+  }
+  if (m.callout !== undefined && (typeof m.callout !== "string" || m.callout.trim() === "")) {
+    throw new ParseError(`models[${index}].callout must be a non-empty string`);
+  }
+
   // Validate optional totalParams
   if (m.totalParams !== undefined) {
     if (typeof m.totalParams !== "number" || !Number.isInteger(m.totalParams) || m.totalParams <= 0) {
@@ -216,6 +614,14 @@ function validateModelData(model: unknown, index: number): RawModelData {
     }
   }
 
+  // Validate optional cost (USD) and latency (ms)
+  for (const field of COST_FIELDS) {
+    const value = m[field];
+    if (value !== undefined && (typeof value !== "number" || !Number.isFinite(value) || value <= 0)) {
+      throw new ParseError(`models[${index}].${field} must be a positive number`);
+    }
+  }
+
   // Validate optional color (hex string)
   if (m.color !== undefined) {
     if (typeof m.color !== "string" || !/^#[0-9A-Fa-f]{6}$/.test(m.color)) {
@@ -250,12 +656,26 @@ function validateModelData(model: unknown, index: number): RawModelData {
     passed: m.passed as number | undefined,
     total: m.total as number | undefined,
     percent: m.percent as number | undefined,
+    value: m.value as number | undefined,
     displayName: m.displayName as string | undefined,
     totalParams: m.totalParams as number | undefined,
     activeParams: m.activeParams as number | undefined,
     color: m.color as string | undefined,
     iconPath: m.icon as string | undefined,
     iconDataUrl: m.iconDataUrl as string | undefined,
+    scores,
+    ciLow: m.ciLow as number | undefined,
+    ciHigh: m.ciHigh as number | undefined,
+    costPerMillionInput: m.costPerMillionInput as number | undefined,
+    costPerMillionOutput: m.costPerMillionOutput as number | undefined,
+    costPerRun: m.costPerRun as number | undefined,
+    latencyMs: m.latencyMs as number | undefined,
+    previous,
+    note: m.note as string | undefined,
+    footnote: m.footnote as string | undefined,
+    group: m.group as string | undefined,
+    highlight: m.highlight as boolean | undefined,
+    callout: m.callout as string | undefined,
   };
 }
 
@@ -263,10 +683,35 @@ interface RawInputConfig {
   title: string;
   description?: string;
   sponsoredBy?: string;
+  sponsorLogo?: string; // file path (CLI) or data URL (frontend export) - resolved to a data URL
+  logo?: string;        // file path (CLI) or data URL (frontend export) - resolved to a data URL
+  footerText?: string;
+  source?: DataSource;
   showRankings: boolean;
   percentPrecision: number;
+  metric?: MetricConfig;
+  higherIsBetter?: boolean;
   font?: FontFamily;
+  theme?: ThemeConfig;
+  orientation?: Orientation;
+  aspectRatio?: AspectRatio;
+  chartType?: ChartType;
+  xAxis?: ScatterXAxis;
+  dumbbellSort?: DumbbellSort;
+  sortBy?: SortBy;
+  groups?: ModelGroup[];
+  rankScope?: RankScope;
+  dimOthers: boolean;
+  topN?: number;
+  maxModelsPerPage?: number;
   customProviders: RawCustomProvider[];
+  benchmarks?: Benchmark[];
+  sortBenchmark?: string;
+  referenceLines?: ReferenceLine[];
+  footnotes?: Record<string, string>;
+  errorBars?: ErrorBarMethod;
+  overlapTies: boolean;
+  compareTo?: string;
   models: RawModelData[];
 }
 
@@ -289,6 +734,19 @@ function validateInputConfig(data: unknown): RawInputConfig {
     throw new ParseError("sponsoredBy must be a string");
   }
 
+  // Validate optional branding: logos (file path or data URL) and footer text
+  for (const field of ["sponsorLogo", "logo"] as const) {
+    if (d[field] !== undefined && (typeof d[field] !== "string" || d[field].trim() === "")) {
+      throw new ParseError(`${field} must be a file path or a base64 data URL`);
+    }
+  }
+  if (d.footerText !== undefined && typeof d.footerText !== "string") {
+    throw new ParseError("footerText must be a string");
+  }
+
+  // Validate optional data source (plain text or text plus link)
+  const source = d.source !== undefined ? validateSource(d.source) : undefined;
+
   // Validate optional showRankings
   if (d.showRankings !== undefined && typeof d.showRankings !== "boolean") {
     throw new ParseError("showRankings must be a boolean");
@@ -328,11 +786,163 @@ function validateInputConfig(data: unknown): RawInputConfig {
     }
   }
 
+  // Validate optional theme (preset name or preset plus overrides)
+  const theme = d.theme !== undefined ? validateTheme(d.theme) : undefined;
+
+  // Validate optional orientation
+  if (d.orientation !== undefined && d.orientation !== "horizontal" && d.orientation !== "vertical") {
+    throw new ParseError('orientation must be "horizontal" or "vertical"');
+  }
+
+  // Validate optional aspectRatio
+  if (d.aspectRatio !== undefined && !ASPECT_RATIO_OPTIONS.includes(d.aspectRatio as AspectRatio)) {
+    throw new ParseError(`aspectRatio must be one of: ${ASPECT_RATIO_OPTIONS.map((r) => `"${r}"`).join(", ")}`);
+  }
+
+  // Validate optional chartType
+  if (d.chartType !== undefined && d.chartType !== "bar" && d.chartType !== "scatter" && d.chartType !== "dumbbell") {
+    throw new ParseError('chartType must be "bar", "scatter" or "dumbbell"');
+  }
+
+  // Validate optional xAxis (scatter charts)
+  if (d.xAxis !== undefined && !(SCATTER_X_AXES as readonly unknown[]).includes(d.xAxis)) {
+    throw new ParseError(`xAxis must be one of: ${SCATTER_X_AXES.join(", ")}`);
+  }
+
+  // Validate optional dumbbellSort (dumbbell charts)
+  if (d.dumbbellSort !== undefined && d.dumbbellSort !== "score" && d.dumbbellSort !== "delta") {
+    throw new ParseError('dumbbellSort must be "score" or "delta"');
+  }
+
+  // Validate optional sortBy (row order)
+  if (d.sortBy !== undefined && !SORT_BY_OPTIONS.includes(d.sortBy as SortBy)) {
+    throw new ParseError(`sortBy must be one of: ${SORT_BY_OPTIONS.join(", ")}`);
+  }
+
+  // Validate optional groups array (leaderboard sections)
+  let groups: ModelGroup[] | undefined;
+  if (d.groups !== undefined) {
+    if (!Array.isArray(d.groups) || d.groups.length === 0) {
+      throw new ParseError("groups must be a non-empty array");
+    }
+    groups = d.groups.map((g, i) => validateGroup(g, i));
+    const seen = new Set<string>();
+    for (const g of groups) {
+      if (seen.has(g.key)) {
+        throw new ParseError(`groups contains duplicate key "${g.key}"`);
+      }
+      seen.add(g.key);
+    }
+  }
+
+  // Validate optional rankScope
+  if (d.rankScope !== undefined && d.rankScope !== "global" && d.rankScope !== "group") {
+    throw new ParseError('rankScope must be "global" or "group"');
+  }
+
+  // Validate optional dimOthers
+  if (d.dimOthers !== undefined && typeof d.dimOthers !== "boolean") {
+    throw new ParseError("dimOthers must be a boolean");
+  }
+
+  // Validate optional topN
+  if (d.topN !== undefined) {
+    if (typeof d.topN !== "number" || !Number.isInteger(d.topN) || d.topN < 1) {
+      throw new ParseError("topN must be a positive integer");
+    }
+  }
+
+  // Validate optional maxModelsPerPage
+  if (d.maxModelsPerPage !== undefined) {
+    if (typeof d.maxModelsPerPage !== "number" || !Number.isInteger(d.maxModelsPerPage) || d.maxModelsPerPage < 1) {
+      throw new ParseError("maxModelsPerPage must be a positive integer");
+    }
+  }
+
+  // Validate optional metric (non-percentage scores)
+  const metric = d.metric !== undefined ? validateMetric(d.metric) : undefined;
+  const hasMetric = metric !== undefined;
+
+  // Validate optional higherIsBetter (sort and rank direction)
+  if (d.higherIsBetter !== undefined && typeof d.higherIsBetter !== "boolean") {
+    throw new ParseError("higherIsBetter must be a boolean");
+  }
+
+  // Validate optional referenceLines array
+  let referenceLines: ReferenceLine[] | undefined;
+  if (d.referenceLines !== undefined) {
+    if (!Array.isArray(d.referenceLines)) {
+      throw new ParseError("referenceLines must be an array");
+    }
+    referenceLines = d.referenceLines.map((r, i) => validateReferenceLine(r, i, hasMetric));
+  }
+
+  // Validate optional compareTo (baseline leaderboard file path)
+  if (d.compareTo !== undefined && (typeof d.compareTo !== "string" || d.compareTo.trim() === "")) {
+    throw new ParseError("compareTo must be a non-empty string (file path)");
+  }
+
+  // Validate optional benchmarks array (enables grouped bars)
+  let benchmarks: Benchmark[] | undefined;
+  if (d.benchmarks !== undefined) {
+    if (!Array.isArray(d.benchmarks) || d.benchmarks.length === 0) {
+      throw new ParseError("benchmarks must be a non-empty array");
+    }
+    if (hasMetric) {
+      throw new ParseError("metric is not supported with benchmarks");
+    }
+    benchmarks = d.benchmarks.map((b, i) => validateBenchmark(b, i));
+    const seen = new Set<string>();
+    for (const b of benchmarks) {
+      if (seen.has(b.key)) {
+        throw new ParseError(`benchmarks contains duplicate key "${b.key}"`);
+      }
+      seen.add(b.key);
+    }
+  }
+  const benchmarkKeys = benchmarks?.map((b) => b.key);
+
+  // Validate optional sortBenchmark
+  if (d.sortBenchmark !== undefined) {
+    if (!benchmarkKeys) {
+      throw new ParseError("sortBenchmark requires a top-level 'benchmarks' list");
+    }
+    if (typeof d.sortBenchmark !== "string" || !benchmarkKeys.includes(d.sortBenchmark)) {
+      throw new ParseError(`sortBenchmark must be one of: ${benchmarkKeys.join(", ")}`);
+    }
+  }
+
+  // Validate optional errorBars
+  const errorBarMethods: ErrorBarMethod[] = ["wilson", "clopper-pearson", "none"];
+  if (d.errorBars !== undefined && !errorBarMethods.includes(d.errorBars as ErrorBarMethod)) {
+    throw new ParseError(`errorBars must be one of: ${errorBarMethods.join(", ")}`);
+  }
+
+  // Validate optional overlapTies
+  if (d.overlapTies !== undefined && typeof d.overlapTies !== "boolean") {
+    throw new ParseError("overlapTies must be a boolean");
+  }
+
   if (!Array.isArray(d.models) || d.models.length === 0) {
     throw new ParseError("models must be a non-empty array");
   }
 
-  const models = d.models.map((m, i) => validateModelData(m, i));
+  // Validate optional footnotes map (key -> text)
+  let footnotes: Record<string, string> | undefined;
+  if (d.footnotes !== undefined) {
+    if (typeof d.footnotes !== "object" || d.footnotes === null || Array.isArray(d.footnotes)) {
+      throw new ParseError("footnotes must be a map of key to footnote text");
+    }
+    footnotes = {};
+    for (const [key, text] of Object.entries(d.footnotes as Record<string, unknown>)) {
+      if (typeof text !== "string" || text.trim() === "") {
+        throw new ParseError(`footnotes.${key} must be a non-empty string`);
+      }
+      footnotes[key] = text;
+    }
+  }
+
+  const models = d.models.map((m, i) => validateModelData(m, i, benchmarkKeys, Object.keys(footnotes ?? {}), hasMetric, groups?.map((g) => g.key)));
 
   // Validate optional customProviders array
   let customProviders: RawCustomProvider[] = [];
@@ -347,30 +957,158 @@ function validateInputConfig(data: unknown): RawInputConfig {
     title: d.title,
     description: d.description as string | undefined,
     sponsoredBy: d.sponsoredBy as string | undefined,
+    sponsorLogo: d.sponsorLogo as string | undefined,
+    logo: d.logo as string | undefined,
+    footerText: d.footerText as string | undefined,
+    source,
     showRankings: (d.showRankings as boolean | undefined) ?? false,
     percentPrecision: (d.percentPrecision as number | undefined) ?? 1,
+    metric,
+    higherIsBetter: d.higherIsBetter as boolean | undefined,
     font: normalizedFont,
+    theme,
+    orientation: d.orientation as Orientation | undefined,
+    aspectRatio: d.aspectRatio as AspectRatio | undefined,
+    chartType: d.chartType as ChartType | undefined,
+    xAxis: d.xAxis as ScatterXAxis | undefined,
+    dumbbellSort: d.dumbbellSort as DumbbellSort | undefined,
+    sortBy: d.sortBy as SortBy | undefined,
+    groups,
+    rankScope: d.rankScope as RankScope | undefined,
+    dimOthers: (d.dimOthers as boolean | undefined) ?? false,
+    topN: d.topN as number | undefined,
+    maxModelsPerPage: d.maxModelsPerPage as number | undefined,
     customProviders,
+    benchmarks,
+    sortBenchmark: d.sortBenchmark as string | undefined,
+    referenceLines,
+    footnotes,
+    errorBars: d.errorBars as ErrorBarMethod | undefined,
+    overlapTies: (d.overlapTies as boolean | undefined) ?? false,
+    compareTo: d.compareTo as string | undefined,
     models,
   };
 }
 
+/**
+ * Load a previous leaderboard YAML file and return each model's global rank on it.
+ * The baseline is ranked with its own settings, except that its `rankScope` and `compareTo` are ignored.
+ * 
+ * @param baselinePath - Path to the baseline YAML file
+ * @param basePath - Base directory for resolving a relative path (defaults to cwd)
+ */
+export async function loadBaselineRanks(baselinePath: string, basePath?: string): Promise<Record<string, number>> {
+  const fullPath = resolve(basePath ?? process.cwd(), baselinePath);
+  const file = Bun.file(fullPath);
+
+  if (!await file.exists()) {
+    throw new ParseError(`baseline file not found: ${fullPath}`);
+  }
+
+  try {
+    const baselineConfig = await parseConfig(await file.text(), dirname(fullPath), false);
+    // Ranked globally: a group-scoped chart re-ranks these within its own groups
+    return getRanksByModel(processModels({ ...baselineConfig, rankScope: "global" }));
+  } catch (e) {
+    if (e instanceof ParseError || e instanceof ValidationError) {
+      throw new ParseError(`baseline ${fullPath}: ${e.message}`);
+    }
+    throw e;
+  }
+}
+
 /**
  * Parse a YAML string into an InputConfig.
  * Throws ParseError if the YAML is invalid or doesn't match the expected schema.
  * 
  * @param yamlString - The YAML content to parse
- * @param basePath - Base directory for resolving relative icon paths (defaults to cwd)
+ * @param basePath - Base directory for resolving relative icon and compareTo paths (defaults to cwd)
  */
 export async function parseYaml(yamlString: string, basePath?: string): Promise<InputConfig> {
-  let data: unknown;
+  return parseConfig(yamlString, basePath, true);
+}
+
+/**
+ * Charts parsed from one YAML file, which holds either a single chart or a `charts:` list.
+ */
+export interface ParsedChartFile {
+  configs: InputConfig[];
+  isChartList: boolean;
+}
+
+/**
+ * Parse a YAML string that holds one chart, or a `charts:` list of them.
+ * Top-level keys next to `charts:` are shared defaults that each chart can override;
+ * `customProviders` are merged by key, so a chart only lists the providers it adds or changes.
+ * 
+ * @param yamlString - The YAML content to parse
+ * @param basePath - Base directory for resolving relative icon and compareTo paths (defaults to cwd)
+ */
+export async function parseYamlCharts(yamlString: string, basePath?: string): Promise<ParsedChartFile> {
+  const data = parseYamlDocument(yamlString);
+  if (typeof data !== "object" || data === null || !("charts" in data)) {
+    return { configs: [await buildConfig(data, basePath, true)], isChartList: false };
+  }
+
+  const { charts, ...shared } = data as Record<string, unknown>;
+  if (!Array.isArray(charts) || charts.length === 0) {
+    throw new ParseError("charts must be a non-empty array");
+  }
+
+  const configs = await Promise.all(
+    charts.map(async (chart: unknown, index) => {
+      if (typeof chart !== "object" || chart === null || Array.isArray(chart)) {
+        throw new ParseError(`charts[${index}] must be an object`);
+      }
+      try {
+        return await buildConfig(mergeChartDefaults(shared, chart as Record<string, unknown>), basePath, true);
+      } catch (e) {
+        if (e instanceof ParseError) {
+          throw new ParseError(`charts[${index}]: ${e.message}`);
+        }
+        throw e;
+      }
+    })
+  );
+  return { configs, isChartList: true };
+}
+
+/**
+ * Apply a chart's own keys over the shared defaults of a `charts:` file.
+ */
+function mergeChartDefaults(shared: Record<string, unknown>, chart: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...shared, ...chart };
+  if (Array.isArray(shared.customProviders) && Array.isArray(chart.customProviders)) {
+    // Providers without a valid key are kept as they are for validation to report
+    const byKey = new Map<unknown, unknown>();
+    for (const provider of [...shared.customProviders, ...chart.customProviders]) {
+      const key = (provider as { key?: unknown } | null)?.key;
+      byKey.set(typeof key === "string" ? key : Symbol(), provider);
+    }
+    merged.customProviders = [...byKey.values()];
+  }
+  return merged;
+}
 
+function parseYamlDocument(yamlString: string): unknown {
   try {
-    data = parse(yamlString);
+    return parse(yamlString);
   } catch (e) {
     throw new ParseError(`Invalid YAML: ${e instanceof Error ? e.message : String(e)}`);
   }
+}
 
+/**
+ * Parse a YAML string, optionally resolving its `compareTo` baseline into ranks.
+ */
+async function parseConfig(yamlString: string, basePath: string | undefined, resolveBaseline: boolean): Promise<InputConfig> {
+  return buildConfig(parseYamlDocument(yamlString), basePath, resolveBaseline);
+}
+
+/**
+ * Validate parsed YAML data and resolve its file references into an InputConfig.
+ */
+async function buildConfig(data: unknown, basePath: string | undefined, resolveBaseline: boolean): Promise<InputConfig> {
   const rawConfig = validateInputConfig(data);
   const resolvedBasePath = basePath ?? process.cwd();
 
@@ -383,7 +1121,7 @@ export async function parseYaml(yamlString: string, basePath?: string): Promise<
         iconDataUrl = m.iconDataUrl;
       } else if (m.iconPath) {
         // Resolve file path to data URL (CLI mode)
-        iconDataUrl = await readIconFile(m.iconPath, resolvedBasePath, index);
+        iconDataUrl = await readImageFile(m.iconPath, resolvedBasePath, `models[${index}].icon`);
       }
 
       return {
@@ -391,11 +1129,25 @@ export async function parseYaml(yamlString: string, basePath?: string): Promise<
         passed: m.passed,
         total: m.total,
         percent: m.percent,
+        value: m.value,
         displayName: m.displayName,
         totalParams: m.totalParams,
         activeParams: m.activeParams,
         color: m.color,
         iconDataUrl,
+        scores: m.scores,
+        ciLow: m.ciLow,
+        ciHigh: m.ciHigh,
+        costPerMillionInput: m.costPerMillionInput,
+        costPerMillionOutput: m.costPerMillionOutput,
+        costPerRun: m.costPerRun,
+        latencyMs: m.latencyMs,
+        previous: m.previous,
+        note: m.note,
+        footnote: m.footnote,
+        group: m.group,
+        highlight: m.highlight,
+        callout: m.callout,
       };
     })
   );
@@ -409,7 +1161,7 @@ export async function parseYaml(yamlString: string, basePath?: string): Promise<
         iconDataUrl = p.iconDataUrl;
       } else if (p.iconPath) {
         // Resolve file path to data URL (CLI mode)
-        iconDataUrl = await readProviderIconFile(p.iconPath, resolvedBasePath, index);
+        iconDataUrl = await readImageFile(p.iconPath, resolvedBasePath, `customProviders[${index}].icon`);
       }
 
       return {
@@ -424,10 +1176,41 @@ export async function parseYaml(yamlString: string, basePath?: string): Promise<
     title: rawConfig.title,
     description: rawConfig.description,
     sponsoredBy: rawConfig.sponsoredBy,
+    sponsorLogo: rawConfig.sponsorLogo
+      ? await resolveLogo(rawConfig.sponsorLogo, resolvedBasePath, "sponsorLogo")
+      : undefined,
+    logo: rawConfig.logo
+      ? await resolveLogo(rawConfig.logo, resolvedBasePath, "logo")
+      : undefined,
+    footerText: rawConfig.footerText,
+    source: rawConfig.source,
     showRankings: rawConfig.showRankings,
     percentPrecision: rawConfig.percentPrecision,
+    metric: rawConfig.metric,
+    higherIsBetter: rawConfig.higherIsBetter,
     font: rawConfig.font,
+    theme: rawConfig.theme,
+    orientation: rawConfig.orientation,
+    aspectRatio: rawConfig.aspectRatio,
+    chartType: rawConfig.chartType,
+    xAxis: rawConfig.xAxis,
+    dumbbellSort: rawConfig.dumbbellSort,
+    sortBy: rawConfig.sortBy,
+    groups: rawConfig.groups,
+    rankScope: rawConfig.rankScope,
+    dimOthers: rawConfig.dimOthers,
+    topN: rawConfig.topN,
+    maxModelsPerPage: rawConfig.maxModelsPerPage,
     customProviders: customProviders.length > 0 ? customProviders : undefined,
+    benchmarks: rawConfig.benchmarks,
+    sortBenchmark: rawConfig.sortBenchmark,
+    referenceLines: rawConfig.referenceLines,
+    footnotes: rawConfig.footnotes,
+    errorBars: rawConfig.errorBars,
+    overlapTies: rawConfig.overlapTies,
+    baselineRanks: resolveBaseline && rawConfig.compareTo
+      ? await loadBaselineRanks(rawConfig.compareTo, resolvedBasePath)
+      : undefined,
     models,
   };
 }
@@ -1,89 +1,105 @@
 /**
- * Screenshot/image export functionality using Puppeteer.
+ * Screenshot/image and PDF export functionality using Puppeteer.
  * CLI-only - requires server-side execution.
+ * SVG output doesn't go through here: the core renders it directly.
  */
 
-import puppeteer from "puppeteer";
+import puppeteer, { type Browser, type Page } from "puppeteer";
 
-export type ExportFormat = "png" | "svg";
+export type ExportFormat = "png" | "jpeg" | "webp" | "svg" | "pdf";
 
-interface ImageDimensions {
+/** Formats rendered from the HTML in a headless browser */
+export type ImageFormat = Exclude<ExportFormat, "svg">;
+
+export interface ImageOptions {
   width: number;
   height: number;
   scaleFactor?: number;
+  quality?: number; // 0-100, JPEG and WebP only
+}
+
+/**
+ * A headless browser shared by several renders, so a batch starts Chromium only once.
+ * The browser launches on the first render; closing a pool that never rendered is a no-op.
+ */
+export interface BrowserPool {
+  render(html: string, outputPath: string, format: ImageFormat, options: ImageOptions): Promise<void>;
+  close(): Promise<void>;
+}
+
+export function createBrowserPool(): BrowserPool {
+  let browser: Promise<Browser> | undefined;
+
+  return {
+    async render(html, outputPath, format, options) {
+      browser ??= puppeteer.launch({
+        headless: true,
+        args: ["--no-sandbox", "--disable-setuid-sandbox"],
+      });
+      const page = await (await browser).newPage();
+      try {
+        await renderPage(page, html, outputPath, format, options);
+      } finally {
+        await page.close();
+      }
+    },
+    async close() {
+      // A launch failure was already reported by the renders that awaited it
+      const launched = await browser?.catch(() => undefined);
+      await launched?.close();
+    },
+  };
 }
 
 /**
- * Render HTML to an image file (PNG or SVG).
+ * Render HTML to a raster image file, or to a single-page PDF, in one browser tab.
+ * PDFs are printed at the chart's exact size in CSS pixels and keep text as vector glyphs;
+ * `scaleFactor` only applies to raster images, and `quality` to JPEG and WebP.
  */
-export async function renderToImage(
+async function renderPage(
+  page: Page,
   html: string,
   outputPath: string,
-  format: ExportFormat,
-  dimensions: ImageDimensions
+  format: ImageFormat,
+  options: ImageOptions
 ): Promise<void> {
-  const { width, height, scaleFactor = 2 } = dimensions;
+  const { width, height, scaleFactor = 2, quality } = options;
 
-  const browser = await puppeteer.launch({
-    headless: true,
-    args: ["--no-sandbox", "--disable-setuid-sandbox"],
+  await page.setViewport({
+    width: Math.ceil(width),
+    height: Math.ceil(height),
+    deviceScaleFactor: scaleFactor,
   });
 
-  try {
-    const page = await browser.newPage();
+  await page.setContent(html, {
+    waitUntil: "networkidle0",
+  });
 
-    await page.setViewport({
-      width: Math.ceil(width),
-      height: Math.ceil(height),
-      deviceScaleFactor: scaleFactor,
-    });
+  const clip = {
+    x: 0,
+    y: 0,
+    width: Math.ceil(width),
+    height: Math.ceil(height),
+  };
 
-    await page.setContent(html, {
-      waitUntil: "networkidle0",
+  if (format === "pdf") {
+    // One page exactly the size of the chart, with the background printed
+    await page.pdf({
+      path: outputPath,
+      width: `${clip.width}px`,
+      height: `${clip.height}px`,
+      margin: { top: 0, right: 0, bottom: 0, left: 0 },
+      printBackground: true,
+      pageRanges: "1",
+    });
+  } else {
+    await page.screenshot({
+      path: outputPath,
+      type: format,
+      clip,
+      // Puppeteer rejects a quality for PNG, which is lossless
+      ...(format !== "png" && quality !== undefined ? { quality } : {}),
     });
-
-    const clip = {
-      x: 0,
-      y: 0,
-      width: Math.ceil(width),
-      height: Math.ceil(height),
-    };
-
-    if (format === "svg") {
-      // Output dimensions after scaling
-      const outputWidth = Math.round(width * scaleFactor);
-      const outputHeight = Math.round(height * scaleFactor);
-      // SVG export: Embed a high-resolution PNG as base64 inside an SVG
-      // This ensures perfect rendering while providing a scalable format
-      const pngBuffer = await page.screenshot({
-        type: "png",
-        clip,
-        omitBackground: false,
-        encoding: "binary",
-      });
-
-      const base64Png = Buffer.from(pngBuffer).toString("base64");
-      const svg = `<?xml version="1.0" encoding="UTF-8"?>
-<svg xmlns="http://www.w3.org/2000/svg" 
-     xmlns:xlink="http://www.w3.org/1999/xlink"
-     width="${outputWidth}" 
-     height="${outputHeight}" 
-     viewBox="0 0 ${outputWidth} ${outputHeight}">
-  <image width="${outputWidth}" height="${outputHeight}" 
-         xlink:href="data:image/png;base64,${base64Png}"/>
-</svg>`;
-
-      await Bun.write(outputPath, svg);
-    } else {
-      // PNG screenshot
-      await page.screenshot({
-        path: outputPath,
-        type: "png",
-        clip,
-      });
-    }
-  } finally {
-    await browser.close();
   }
 }
 
@@ -93,6 +109,9 @@ export async function renderToImage(
 export function getExportFormat(filePath: string): ExportFormat | null {
   const ext = filePath.toLowerCase().split(".").pop();
   if (ext === "png") return "png";
+  if (ext === "jpg" || ext === "jpeg") return "jpeg";
+  if (ext === "webp") return "webp";
   if (ext === "svg") return "svg";
+  if (ext === "pdf") return "pdf";
   return null;
 }
@@ -6,24 +6,64 @@
  */
 
 // Preprocessor
-export { processModels, ValidationError } from "./preprocessor.js";
+export { processModels, getRanksByModel, ValidationError } from "./preprocessor.js";
+
+// Metrics
+export { getMetricDomain, normalizeValue, formatMetricValue, isHigherBetter } from "./metric.js";
+export type { MetricDomain } from "./metric.js";
+
+// Themes
+export { THEMES, THEME_COLOR_KEYS, resolveTheme } from "./theme.js";
+export type { ThemeColorKey } from "./theme.js";
+
+// Statistics
+export { wilsonInterval, clopperPearsonInterval, intervalsOverlap } from "./statistics.js";
 
 // Providers
-export { getProviderGroups, providers } from "./providers.js";
+export { getProviderGroups, providers, BENCHMARK_COLORS, REFERENCE_LINE_COLORS } from "./providers.js";
 export type { ProviderGroup, ProviderEntry } from "./providers.js";
 
 // Assets
 export { getIcon, fontFamilies, fonts } from "./assets.js";
 export type { FontFamily } from "./assets.js";
 
+// File names
+export { slugify } from "./slug.js";
+
 // Renderer
 export {
   renderChart,
+  renderChartPages,
+  renderChartSvg,
   calculateLayoutDimensions,
+  paginateModels,
   PADDING_OUTER,
   TARGET_OUTPUT_WIDTH,
 } from "./renderer.js";
-export type { RenderOptions, RenderMode } from "./renderer.js";
+export type { RenderOptions, RenderMode, LayoutDimensions } from "./renderer.js";
 
 // Types
-export type { InputConfig, ModelData, ProcessedModel } from "./types.js";
+export type {
+  InputConfig,
+  ModelData,
+  ProcessedModel,
+  Orientation,
+  AspectRatio,
+  ChartType,
+  ScatterXAxis,
+  DumbbellSort,
+  SortBy,
+  RankScope,
+  ModelGroup,
+  Benchmark,
+  BenchmarkScore,
+  ReferenceLine,
+  DataSource,
+  MetricConfig,
+  Theme,
+  ThemeConfig,
+  ThemePreset,
+  ProcessedBenchmarkScore,
+  ErrorBarMethod,
+  ConfidenceInterval,
+} from "./types.js";
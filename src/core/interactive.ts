@@ -0,0 +1,244 @@
+/**
+ * Client-side behavior for the `interactive` render mode: tooltips listing a
+ * model's fields, re-sorting rows by score, name or params, and filtering rows
+ * by provider. The HTML file stays self-contained, so the script is plain
+ * browser JS reading its row data from an inline JSON block.
+ */
+
+import type { InputConfig, ProcessedModel } from "./types.js";
+import { getMetricDomain, denormalizeValue } from "./metric.js";
+
+/** Row data the client script sorts, filters and shows in tooltips */
+interface InteractiveRow {
+  provider: string;     // lowercased, matches the legend's filter keys
+  groupIndex: number;   // groups keep their config order when rows are re-sorted
+  name: string;
+  score: number;
+  params?: number;      // totalParams in billions
+  fields: [string, string][]; // tooltip label/value pairs, in display order
+}
+
+/** Everything the client script needs, serialized into the page */
+export interface InteractiveData {
+  rows: InteractiveRow[];
+  higherIsBetter: boolean;
+  sortable: boolean;          // scatter plots filter but keep their positions
+  rowGapSide: "top" | "left"; // rows stack vertically, columns side by side
+  rowGap: number;             // margin between adjacent rows or columns
+  groupGap: number;           // margin above each group heading after the first
+  activeBackground: string;   // fill of the selected sort button
+}
+
+/**
+ * Tooltip label/value pairs for one model, skipping fields it doesn't have.
+ */
+function getTooltipFields(m: ProcessedModel, config: InputConfig, formatValue: (value: number) => string): [string, string][] {
+  const domain = getMetricDomain(config);
+  const fields: [string, string][] = [
+    ["Provider", m.provider],
+    ["Rank", `#${m.rank}`],
+    ["Score", formatValue(m.value)],
+  ];
+  if (m.passed !== undefined && m.total !== undefined) {
+    fields.push(["Passed", `${m.passed}/${m.total}`]);
+  }
+  for (const score of m.benchmarkScores ?? []) {
+    const passed = score.passed !== undefined ? ` (${score.passed}/${score.total})` : "";
+    fields.push([score.label, `${score.percentage.toFixed(config.percentPrecision)}%${passed}`]);
+  }
+  if (m.interval) {
+    const low = denormalizeValue(m.interval.low, domain);
+    const high = denormalizeValue(m.interval.high, domain);
+    fields.push(["Interval", `${formatValue(low)} – ${formatValue(high)}`]);
+  }
+  if (m.previousValue !== undefined) {
+    fields.push(["Previous", formatValue(m.previousValue)]);
+  }
+  if (m.paramsLabel) fields.push(["Params", m.paramsLabel]);
+  if (m.costPerMillionInput !== undefined) fields.push(["Input cost", `$${m.costPerMillionInput} / 1M tokens`]);
+  if (m.costPerMillionOutput !== undefined) fields.push(["Output cost", `$${m.costPerMillionOutput} / 1M tokens`]);
+  if (m.costPerRun !== undefined) fields.push(["Cost per run", `$${m.costPerRun}`]);
+  if (m.latencyMs !== undefined) fields.push(["Latency", `${m.latencyMs} ms`]);
+  if (m.groupLabel) fields.push(["Group", m.groupLabel]);
+  if (m.callout) fields.push(["Callout", m.callout]);
+  const note = m.note ?? (m.footnote !== undefined ? config.footnotes?.[m.footnote] : undefined);
+  if (note) fields.push(["Note", note]);
+  return fields;
+}
+
+/**
+ * Build the serialized data for the rows on the page, in the order they are rendered.
+ */
+export function getInteractiveData(
+  config: InputConfig,
+  models: ProcessedModel[],
+  formatValue: (value: number) => string,
+  layout: Pick<InteractiveData, "higherIsBetter" | "sortable" | "rowGapSide" | "rowGap" | "groupGap" | "activeBackground">
+): InteractiveData {
+  const groupIndex = new Map((config.groups ?? []).map((g, i) => [g.key, i]));
+  return {
+    ...layout,
+    rows: models.map((m) => ({
+      provider: m.provider.toLowerCase(),
+      groupIndex: m.group !== undefined ? groupIndex.get(m.group) ?? 0 : 0,
+      name: m.displayLabel,
+      score: m.value,
+      params: m.totalParams,
+      fields: getTooltipFields(m, config, formatValue),
+    })),
+  };
+}
+
+/**
+ * Serialize data for an inline <script type="application/json"> block.
+ * "<" is escaped so a model name can't close the script element.
+ */
+export function serializeInteractiveData(data: InteractiveData): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
+
+/**
+ * The client script. Rows are elements tagged `data-llmplot-row` (their index into
+ * the data), group headings are tagged `data-llmplot-group`, and the toolbar buttons
+ * `data-llmplot-sort` and `data-llmplot-provider`.
+ */
+export const INTERACTIVE_SCRIPT = `
+(function () {
+  var data = JSON.parse(document.getElementById("llmplot-data").textContent);
+  var tooltip = document.getElementById("llmplot-tooltip");
+  var rows = Array.prototype.slice.call(document.querySelectorAll("[data-llmplot-row]"));
+  if (rows.length === 0) return;
+  var container = rows[0].parentNode;
+  var headings = {};
+  Array.prototype.forEach.call(container.querySelectorAll("[data-llmplot-group]"), function (el) {
+    headings[el.getAttribute("data-llmplot-group")] = el;
+  });
+  // Anything after the rows (e.g. reference line markers) stays after them
+  var anchor = null;
+  Array.prototype.some.call(container.children, function (el) {
+    if (el.hasAttribute("data-llmplot-row") || el.hasAttribute("data-llmplot-group")) return false;
+    anchor = el;
+    return true;
+  });
+  var hidden = {};
+  var sortKey = "score";
+  var reversed = false;
+
+  function rowIndex(el) { return Number(el.getAttribute("data-llmplot-row")); }
+  function rowData(el) { return data.rows[rowIndex(el)]; }
+
+  // Tooltips
+  function showTooltip(row) {
+    tooltip.textContent = "";
+    var title = document.createElement("div");
+    title.textContent = row.name;
+    title.style.cssText = "font-weight: 600; margin-bottom: 4px;";
+    tooltip.appendChild(title);
+    row.fields.forEach(function (field) {
+      var line = document.createElement("div");
+      var label = document.createElement("span");
+      label.textContent = field[0] + ": ";
+      label.style.opacity = "0.7";
+      line.appendChild(label);
+      line.appendChild(document.createTextNode(field[1]));
+      tooltip.appendChild(line);
+    });
+    tooltip.style.display = "block";
+  }
+  function moveTooltip(event) {
+    var offset = 12;
+    var left = event.clientX + offset;
+    var top = event.clientY + offset;
+    if (left + tooltip.offsetWidth > window.innerWidth) left = event.clientX - offset - tooltip.offsetWidth;
+    if (top + tooltip.offsetHeight > window.innerHeight) top = event.clientY - offset - tooltip.offsetHeight;
+    tooltip.style.left = Math.max(0, left) + "px";
+    tooltip.style.top = Math.max(0, top) + "px";
+  }
+  rows.forEach(function (el) {
+    el.addEventListener("mouseenter", function (event) { showTooltip(rowData(el)); moveTooltip(event); });
+    el.addEventListener("mousemove", moveTooltip);
+    el.addEventListener("mouseleave", function () { tooltip.style.display = "none"; });
+  });
+
+  // Sorting: groups keep their order, rows are re-sorted within each group
+  var compare = {
+    score: function (a, b) { return data.higherIsBetter ? b.score - a.score : a.score - b.score; },
+    name: function (a, b) { return a.name.localeCompare(b.name); },
+    params: function (a, b) { return b.params - a.params; }
+  };
+  function sortRows() {
+    var sign = reversed ? -1 : 1;
+    rows.sort(function (a, b) {
+      var ra = rowData(a);
+      var rb = rowData(b);
+      if (ra.groupIndex !== rb.groupIndex) return ra.groupIndex - rb.groupIndex;
+      // Models without params always go last
+      if (sortKey === "params" && (ra.params == null || rb.params == null)) {
+        return (ra.params == null ? 1 : 0) - (rb.params == null ? 1 : 0) || rowIndex(a) - rowIndex(b);
+      }
+      return sign * compare[sortKey](ra, rb) || rowIndex(a) - rowIndex(b);
+    });
+    var group = null;
+    rows.forEach(function (el) {
+      var key = el.getAttribute("data-llmplot-row-group");
+      if (key !== null && key !== group && headings[key]) container.insertBefore(headings[key], anchor);
+      group = key;
+      container.insertBefore(el, anchor);
+    });
+  }
+
+  // Filtering hides rows (and headings left without rows), then re-spaces what's visible
+  function layout() {
+    var visibleGroups = {};
+    rows.forEach(function (el) {
+      var visible = !hidden[rowData(el).provider];
+      el.style.display = visible ? "" : "none";
+      var key = el.getAttribute("data-llmplot-row-group");
+      if (visible && key !== null) visibleGroups[key] = true;
+    });
+    Object.keys(headings).forEach(function (key) {
+      headings[key].style.display = visibleGroups[key] ? "" : "none";
+    });
+    if (!data.sortable) return;
+    var previous = null;
+    var side = data.rowGapSide === "left" ? "marginLeft" : "marginTop";
+    Array.prototype.forEach.call(container.children, function (el) {
+      if (el.style.display === "none") return;
+      if (el.hasAttribute("data-llmplot-group")) {
+        el.style.marginTop = previous ? data.groupGap + "px" : "0px";
+      } else if (el.hasAttribute("data-llmplot-row")) {
+        el.style[side] = previous && previous.hasAttribute("data-llmplot-row") ? data.rowGap + "px" : "0px";
+      } else {
+        return;
+      }
+      previous = el;
+    });
+  }
+
+  Array.prototype.forEach.call(document.querySelectorAll("[data-llmplot-sort]"), function (button, _, buttons) {
+    button.addEventListener("click", function () {
+      var key = button.getAttribute("data-llmplot-sort");
+      reversed = key === sortKey ? !reversed : false;
+      sortKey = key;
+      Array.prototype.forEach.call(buttons, function (other) {
+        var active = other === button;
+        other.setAttribute("aria-pressed", String(active));
+        other.style.backgroundColor = active ? data.activeBackground : "transparent";
+        other.querySelector("[data-llmplot-sort-arrow]").textContent = active ? (reversed ? "↑" : "↓") : "";
+      });
+      sortRows();
+      layout();
+    });
+  });
+
+  Array.prototype.forEach.call(document.querySelectorAll("[data-llmplot-provider]"), function (chip) {
+    chip.addEventListener("click", function () {
+      var provider = chip.getAttribute("data-llmplot-provider");
+      hidden[provider] = !hidden[provider];
+      chip.setAttribute("aria-pressed", String(!hidden[provider]));
+      chip.style.opacity = hidden[provider] ? "0.4" : "1";
+      layout();
+    });
+  });
+})();
+`;
@@ -0,0 +1,78 @@
+/**
+ * Value domains and labels for charted scores.
+ * Without a `metric` block, scores are percentages on a fixed 0-100 domain.
+ * With one, raw values (Elo, tokens/sec, ...) are normalized onto 0-100 so the
+ * renderer can keep treating bar widths and positions as percentages.
+ */
+
+import type { InputConfig, MetricConfig } from "./types.js";
+
+/** The value range that maps onto an empty (min) or full (max) bar */
+export interface MetricDomain {
+  min: number;
+  max: number;
+}
+
+const PERCENT_DOMAIN: MetricDomain = { min: 0, max: 100 };
+
+/** Label template used when a metric sets no `format` */
+const DEFAULT_FORMAT_WITH_UNIT = "{value} {unit}";
+const DEFAULT_FORMAT = "{value}";
+
+/**
+ * Resolve the domain bars are normalized against.
+ * Explicit min/max win. Otherwise min is 0 (or the lowest value, if negative)
+ * and max is the highest value across models, previous scores and reference lines.
+ */
+export function getMetricDomain(config: InputConfig): MetricDomain {
+  const metric = config.metric;
+  if (!metric) return PERCENT_DOMAIN;
+
+  const values = [
+    ...config.models.flatMap((m) => [m.value, m.previous?.value]),
+    ...(config.referenceLines ?? []).map((line) => line.value),
+  ].filter((v): v is number => v !== undefined);
+
+  const min = metric.min ?? Math.min(0, ...values);
+  const max = metric.max ?? Math.max(min, ...values);
+  // A degenerate domain (all values equal to min) would divide by zero
+  return { min, max: max > min ? max : min + 1 };
+}
+
+/**
+ * Whether higher scores rank first.
+ * The top-level setting wins over the metric's, and both default to true.
+ */
+export function isHigherBetter(config: InputConfig): boolean {
+  return config.higherIsBetter ?? config.metric?.higherIsBetter ?? true;
+}
+
+/**
+ * Map a value onto 0-100 within the domain, clamped at both ends.
+ */
+export function normalizeValue(value: number, domain: MetricDomain): number {
+  const normalized = ((value - domain.min) / (domain.max - domain.min)) * 100;
+  return Math.min(100, Math.max(0, normalized));
+}
+
+/**
+ * Map a 0-100 position back to a value within the domain (inverse of normalizeValue).
+ */
+export function denormalizeValue(position: number, domain: MetricDomain): number {
+  return domain.min + (position / 100) * (domain.max - domain.min);
+}
+
+/**
+ * Format a value for display.
+ * Percentages render as "74.2%"; metrics fill their `format` template,
+ * where "{value}" is the number and "{unit}" the unit (e.g., "{value} tok/s").
+ */
+export function formatMetricValue(value: number, metric: MetricConfig | undefined, precision: number): string {
+  if (!metric) return `${value.toFixed(precision)}%`;
+  const number = value.toLocaleString("en-US", {
+    minimumFractionDigits: precision,
+    maximumFractionDigits: precision,
+  });
+  const template = metric.format ?? (metric.unit ? DEFAULT_FORMAT_WITH_UNIT : DEFAULT_FORMAT);
+  return template.replace(/\{value\}/g, number).replace(/\{unit\}/g, metric.unit ?? "");
+}
@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+import { processModels } from "./preprocessor.js";
+import { getMetricDomain, normalizeValue } from "./metric.js";
+import type { InputConfig, ModelData } from "./types.js";
+
+type ConfigOptions = Partial<Omit<InputConfig, "showRankings" | "percentPrecision">>;
+
+function config(models: ModelData[], options: ConfigOptions = {}): InputConfig {
+  return { title: "Test", showRankings: true, percentPrecision: 1, models, ...options };
+}
+
+function percents(...values: number[]): ModelData[] {
+  return values.map((percent, i) => ({ model: `openai/model-${i + 1}`, percent }));
+}
+
+describe("ranks", () => {
+  test("tied scores share a rank and the next rank skips ahead", () => {
+    const models = processModels(config(percents(100, 80, 65, 65, 55, 55, 55, 45)));
+    expect(models.map((m) => m.rank)).toEqual([1, 2, 3, 3, 5, 5, 5, 8]);
+  });
+
+  test("overlapTies ranks models whose intervals overlap the leader's together", () => {
+    const models = processModels(config(
+      [50, 48, 46, 20].map((passed, i) => ({ model: `openai/model-${i + 1}`, passed, total: 100 })),
+      { errorBars: "wilson", overlapTies: true }
+    ));
+    expect(models.map((m) => m.rank)).toEqual([1, 1, 1, 4]);
+  });
+
+  test("without overlapTies, overlapping intervals don't tie", () => {
+    const models = processModels(config(
+      [50, 48, 46, 20].map((passed, i) => ({ model: `openai/model-${i + 1}`, passed, total: 100 })),
+      { errorBars: "wilson" }
+    ));
+    expect(models.map((m) => m.rank)).toEqual([1, 2, 3, 4]);
+  });
+
+  test("higherIsBetter: false puts the lowest score first", () => {
+    const models = processModels(config(percents(30, 10, 20), { higherIsBetter: false }));
+    expect(models.map((m) => [m.value, m.rank])).toEqual([[10, 1], [20, 2], [30, 3]]);
+  });
+});
+
+describe("metric domain", () => {
+  const metric = (models: number[], options: ConfigOptions = {}) =>
+    config(models.map((value, i) => ({ model: `openai/model-${i + 1}`, value })), { metric: { unit: "tok/s" }, ...options });
+
+  test("defaults to 0 through the highest value", () => {
+    expect(getMetricDomain(metric([50, 200, 120]))).toEqual({ min: 0, max: 200 });
+  });
+
+  test("extends below 0 for negative values", () => {
+    expect(getMetricDomain(metric([-40, 60]))).toEqual({ min: -40, max: 60 });
+  });
+
+  test("prefers explicit bounds", () => {
+    expect(getMetricDomain(metric([50], { metric: { min: 1000, max: 1500 } }))).toEqual({ min: 1000, max: 1500 });
+  });
+
+  test("normalizes values onto 0-100, clamped", () => {
+    const domain = { min: 1000, max: 1500 };
+    expect(normalizeValue(1250, domain)).toBe(50);
+    expect(normalizeValue(900, domain)).toBe(0);
+    expect(normalizeValue(1600, domain)).toBe(100);
+  });
+
+  test("normalizes model bars against the domain", () => {
+    const models = processModels(metric([50, 200, 100]));
+    expect(models.map((m) => m.percentage)).toEqual([100, 50, 25]);
+  });
+});
+
+describe("topN", () => {
+  test("collapses the models below the best N and moves them last", () => {
+    const models = processModels(config(percents(40, 90, 70, 60), { topN: 2 }));
+    expect(models.map((m) => [m.value, m.collapsed])).toEqual([[90, false], [70, false], [60, true], [40, true]]);
+  });
+
+  test("collapses nothing when N covers every model", () => {
+    for (const topN of [4, 10]) {
+      const models = processModels(config(percents(40, 90, 70, 60), { topN }));
+      expect(models.some((m) => m.collapsed)).toBe(false);
+    }
+  });
+
+  test("picks the best N by score even when rows follow the input order", () => {
+    const models = processModels(config(percents(40, 90, 70, 60), { topN: 2, sortBy: "input" }));
+    expect(models.filter((m) => !m.collapsed).map((m) => [m.value, m.rank])).toEqual([[90, 1], [70, 2]]);
+    expect(models.filter((m) => m.collapsed).map((m) => m.value)).toEqual([40, 60]);
+  });
+});
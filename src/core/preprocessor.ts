@@ -1,5 +1,18 @@
-import type { InputConfig, ProcessedModel, CustomProvider } from "./types.js";
-import { getProviderConfig } from "./providers.js";
+import type {
+  InputConfig,
+  ProcessedModel,
+  CustomProvider,
+  BenchmarkScore,
+  ProcessedBenchmarkScore,
+  ModelData,
+  ErrorBarMethod,
+  ConfidenceInterval,
+  ScatterXAxis,
+  SortBy,
+} from "./types.js";
+import { getProviderConfig, BENCHMARK_COLORS } from "./providers.js";
+import { wilsonInterval, clopperPearsonInterval, intervalsOverlap } from "./statistics.js";
+import { getMetricDomain, normalizeValue, isHigherBetter, type MetricDomain } from "./metric.js";
 
 export class ValidationError extends Error {
   constructor(message: string) {
@@ -43,28 +56,176 @@ function formatParamsLabel(totalParams?: number, activeParams?: number): string
   return `${totalParams}B / ${activeParams}B Active`;
 }
 
+/**
+ * Convert a passed/total or percent score to a percentage.
+ */
+function scoreToPercentage(score: BenchmarkScore): number {
+  return score.percent !== undefined ? score.percent : (score.passed! / score.total!) * 100;
+}
+
+/**
+ * Get a raw score in metric units.
+ * Throws ValidationError if the score has no value (percent and passed/total
+ * have no meaning on a metric's domain).
+ */
+function getMetricValue(score: BenchmarkScore, context: string): number {
+  if (score.value === undefined) {
+    throw new ValidationError(`${context}.value is required when a metric is set`);
+  }
+  return score.value;
+}
+
+/**
+ * Resolve each model's per-benchmark scores in benchmark order.
+ * Throws ValidationError if a model is missing a score for any benchmark.
+ */
+function processBenchmarkScores(
+  config: InputConfig,
+  scores: Record<string, BenchmarkScore> | undefined,
+  index: number
+): ProcessedBenchmarkScore[] {
+  return config.benchmarks!.map((b, i) => {
+    const score = scores?.[b.key];
+    if (!score) {
+      throw new ValidationError(`models[${index}].scores is missing benchmark "${b.key}"`);
+    }
+    return {
+      key: b.key,
+      label: b.label ?? b.key,
+      color: b.color ?? BENCHMARK_COLORS[i % BENCHMARK_COLORS.length],
+      percentage: scoreToPercentage(score),
+      passed: score.passed,
+      total: score.total,
+      usePercent: score.percent !== undefined,
+    };
+  });
+}
+
+/**
+ * Resolve a model's error bar range.
+ * Explicit ciLow/ciHigh win; otherwise the interval is derived from passed/total.
+ * Percent-only models have no sample size, so they get no interval.
+ */
+function resolveInterval(
+  m: ModelData,
+  method: ErrorBarMethod,
+  domain: MetricDomain,
+  index: number
+): ConfidenceInterval | undefined {
+  if (m.ciLow !== undefined || m.ciHigh !== undefined) {
+    if (m.ciLow === undefined || m.ciHigh === undefined || m.ciLow > m.ciHigh) {
+      throw new ValidationError(`models[${index}] must set both 'ciLow' and 'ciHigh', with ciLow <= ciHigh`);
+    }
+    // Explicit bounds are in score units, so they are normalized like the score
+    return { low: normalizeValue(m.ciLow, domain), high: normalizeValue(m.ciHigh, domain) };
+  }
+  if (m.passed === undefined || m.total === undefined) return undefined;
+  if (method === "wilson") return wilsonInterval(m.passed, m.total);
+  if (method === "clopper-pearson") return clopperPearsonInterval(m.passed, m.total);
+  return undefined;
+}
+
+/**
+ * Get a model's scatter x-axis value.
+ * Dense models have no activeParams, so they fall back to totalParams.
+ * Throws ValidationError if the model lacks the field (the axis is log scale,
+ * so values must also be positive).
+ */
+function getScatterValue(m: ModelData, xAxis: ScatterXAxis, index: number): number {
+  const value = xAxis === "activeParams" ? m.activeParams ?? m.totalParams : m[xAxis];
+  const field = xAxis === "activeParams" ? "totalParams" : xAxis;
+  if (value === undefined || value <= 0) {
+    throw new ValidationError(`models[${index}].${field} must be a positive number for scatter charts with xAxis "${xAxis}"`);
+  }
+  return value;
+}
+
+/**
+ * Number footnote markers in display order, starting at 1.
+ * Models that share a footnote key (or identical note text) share a number.
+ */
+function assignFootnoteNumbers(models: ProcessedModel[]): void {
+  const numbers = new Map<string, number>();
+  for (const m of models) {
+    const id = m.footnote !== undefined ? `footnote:${m.footnote}` : m.note !== undefined ? `note:${m.note}` : undefined;
+    if (id === undefined) continue;
+    if (!numbers.has(id)) numbers.set(id, numbers.size + 1);
+    m.footnoteNumber = numbers.get(id);
+  }
+}
+
+/**
+ * Compare two models for a non-score row order.
+ * Returns 0 on ties, so a stable sort keeps the score order within them.
+ */
+function compareBySortKey(
+  a: ProcessedModel,
+  b: ProcessedModel,
+  sortBy: Exclude<SortBy, "score">,
+  inputOrder: Map<ProcessedModel, number>
+): number {
+  switch (sortBy) {
+    case "input":
+      return inputOrder.get(a)! - inputOrder.get(b)!;
+    case "provider":
+      return a.provider.localeCompare(b.provider);
+    case "params":
+      // Params are always positive, so models without them sort last
+      return (b.totalParams ?? 0) - (a.totalParams ?? 0);
+  }
+}
+
 /**
  * Calculate ranks with tie handling.
- * Same percentage = same rank, then skip to position.
+ * Same value = same rank, then skip to position.
  * Example: [100, 80, 65, 65, 55, 55, 55, 45] → [1, 2, 3, 3, 5, 5, 5, 8]
+ * 
+ * With `overlapTies`, a model also shares the rank of the current tie group
+ * when its interval overlaps the interval of that group's leader.
  */
-function calculateRanks(models: ProcessedModel[]): void {
+function calculateRanks(models: ProcessedModel[], overlapTies: boolean): void {
   if (models.length === 0) return;
 
   models[0].rank = 1;
+  let leader = models[0];
   for (let i = 1; i < models.length; i++) {
-    if (models[i].percentage === models[i - 1].percentage) {
-      // Same percentage = same rank as previous
-      models[i].rank = models[i - 1].rank;
+    const m = models[i];
+    const overlapsLeader = overlapTies && !!m.interval && !!leader.interval && intervalsOverlap(m.interval, leader.interval);
+    if (m.value === models[i - 1].value || overlapsLeader) {
+      // Same value (or statistically indistinguishable) = same rank as previous
+      m.rank = models[i - 1].rank;
     } else {
-      // Different percentage = position-based rank (1-indexed)
-      models[i].rank = i + 1;
+      // Different value = position-based rank (1-indexed)
+      m.rank = i + 1;
+      leader = m;
     }
   }
 }
 
 /**
- * Process and sort models by percentage (best to worst).
+ * A model's rank on the baseline leaderboard, in the same scope as its own rank.
+ * Baseline ranks are global, so with group-scoped ranks the model is re-ranked against
+ * the baseline ranks of its group's models; models missing from the baseline don't count.
+ */
+function getBaselineRank(
+  model: ProcessedModel,
+  models: ProcessedModel[],
+  baselineRanks: Record<string, number>,
+  groupScoped: boolean
+): number | undefined {
+  const rank = baselineRanks[model.model];
+  if (rank === undefined || !groupScoped) return rank;
+  return 1 + models.filter((m) => m.group === model.group && (baselineRanks[m.model] ?? Infinity) < rank).length;
+}
+
+/**
+ * Process and sort models by score (best to worst), or by `sortBy`, within each group.
+ * For multi-benchmark charts, the score is the one on the sort benchmark.
+ * With a metric, raw values are normalized against its domain for bar lengths.
+ * With `higherIsBetter: false`, the lowest score is best and ranks first.
+ * Dumbbell charts can instead be ordered by change since the previous run.
+ * With `topN`, only the best N models are charted; the rest are marked `collapsed`
+ * and moved after them, for the renderer's "+N more" row.
  * Calculates ranks with tie handling.
  * Custom providers override built-in providers when matching by key.
  */
@@ -74,6 +235,46 @@ export function processModels(config: InputConfig): ProcessedModel[] {
     throw new ValidationError("models must be a non-empty array");
   }
 
+  // Grouped charts sort and rank by one benchmark (the first by default)
+  const hasBenchmarks = !!config.benchmarks && config.benchmarks.length > 0;
+  const sortKey = config.sortBenchmark ?? config.benchmarks?.[0]?.key;
+  if (config.sortBenchmark !== undefined && !config.benchmarks?.some((b) => b.key === config.sortBenchmark)) {
+    throw new ValidationError(`sortBenchmark "${config.sortBenchmark}" does not match any benchmark key`);
+  }
+
+  const xAxis = config.xAxis ?? "totalParams";
+  const isScatter = config.chartType === "scatter";
+  if (isScatter && config.topN !== undefined) {
+    throw new ValidationError("topN is not supported for scatter charts");
+  }
+
+  // Dumbbell charts compare one score per model against its previous run
+  const isDumbbell = config.chartType === "dumbbell";
+  if (isDumbbell && hasBenchmarks) {
+    throw new ValidationError("benchmarks are not supported for dumbbell charts");
+  }
+
+  // Metrics replace percentages with raw values on an explicit or derived domain
+  const metric = config.metric;
+  if (metric && hasBenchmarks) {
+    throw new ValidationError("metric is not supported for charts with benchmarks");
+  }
+  if (metric?.min !== undefined && metric.max !== undefined && metric.min >= metric.max) {
+    throw new ValidationError("metric.min must be less than metric.max");
+  }
+  const domain = getMetricDomain(config);
+
+  // 1 sorts descending (higher is better), -1 ascending
+  const direction = isHigherBetter(config) ? 1 : -1;
+
+  // Groups split the leaderboard into sections; every model must pick one
+  const groupIndex = new Map((config.groups ?? []).map((g, i) => [g.key, i]));
+  const groupLabels = new Map((config.groups ?? []).map((g) => [g.key, g.label ?? g.key]));
+  const hasGroups = groupIndex.size > 0;
+
+  // Dimming only applies once some model is highlighted, so nothing is muted by accident
+  const dimOthers = (config.dimOthers ?? false) && config.models.some((m) => m.highlight);
+
   // Build a lookup map for custom providers
   const customProviderMap = new Map<string, CustomProvider>();
   if (config.customProviders) {
@@ -91,9 +292,38 @@ export function processModels(config: InputConfig): ProcessedModel[] {
       const parts = m.model.split("/");
       const provider = parts[0];
       const modelName = parts.length > 1 ? parts.slice(1).join("/") : undefined; // handle case of multiple slashes or no slash
-      const usePercent = m.percent !== undefined;
-      const percentage = usePercent ? m.percent! : (m.passed! / m.total!) * 100;
+      const benchmarkScores = hasBenchmarks ? processBenchmarkScores(config, m.scores, index) : undefined;
+      const sortScore = benchmarkScores?.find((s) => s.key === sortKey);
+      const usePercent = sortScore ? sortScore.usePercent : !!metric || m.percent !== undefined;
+      const value = sortScore ? sortScore.percentage : metric ? getMetricValue(m, `models[${index}]`) : scoreToPercentage(m);
+
+      if (isDumbbell && !m.previous) {
+        throw new ValidationError(`models[${index}].previous is required for dumbbell charts`);
+      }
+      const previousValue = !isDumbbell
+        ? undefined
+        : metric
+          ? getMetricValue(m.previous!, `models[${index}].previous`)
+          : scoreToPercentage(m.previous!);
       
+      // Validate footnote reference
+      if (m.footnote !== undefined) {
+        if (m.note !== undefined) {
+          throw new ValidationError(`models[${index}] cannot have both 'note' and 'footnote' - use one or the other`);
+        }
+        if (config.footnotes?.[m.footnote] === undefined) {
+          throw new ValidationError(`models[${index}].footnote "${m.footnote}" does not match any footnotes key`);
+        }
+      }
+
+      // Validate group membership
+      if (hasGroups && (m.group === undefined || !groupIndex.has(m.group))) {
+        throw new ValidationError(`models[${index}].group must be one of the group keys`);
+      }
+      if (!hasGroups && m.group !== undefined) {
+        throw new ValidationError(`models[${index}].group requires a top-level 'groups' list`);
+      }
+
       // Validate custom icon is a valid data URL
       if (m.iconDataUrl !== undefined) {
         validateIconDataUrl(m.iconDataUrl, `models[${index}].iconDataUrl`);
@@ -112,7 +342,8 @@ export function processModels(config: InputConfig): ProcessedModel[] {
         provider,
         modelName,
         displayLabel: m.displayName ?? modelName ?? provider,
-        percentage,
+        value,
+        percentage: normalizeValue(value, domain),
         providerConfig: {
           color: resolvedColor,
           iconUrl: resolvedIconUrl,
@@ -120,12 +351,83 @@ export function processModels(config: InputConfig): ProcessedModel[] {
         rank: 0, // will be calculated after sorting
         paramsLabel: formatParamsLabel(m.totalParams, m.activeParams),
         usePercent,
+        benchmarkScores,
+        interval: resolveInterval(m, config.errorBars ?? "none", domain, index),
+        xValue: isScatter ? getScatterValue(m, xAxis, index) : undefined,
+        previousValue,
+        previousPercentage: previousValue !== undefined ? normalizeValue(previousValue, domain) : undefined,
+        delta: previousValue !== undefined ? value - previousValue : undefined,
+        groupLabel: m.group !== undefined ? groupLabels.get(m.group) : undefined,
+        dimmed: dimOthers && !m.highlight,
+        collapsed: false,
       };
-    })
-    .sort((a, b) => b.percentage - a.percentage);
+    });
+
+  // Remember the input order before sorting by score
+  const inputOrder = new Map(models.map((m, i) => [m, i]));
+  models.sort((a, b) => direction * (b.value - a.value));
 
-  // Calculate ranks with tie handling
-  calculateRanks(models);
+  // Calculate ranks with tie handling, across the chart or within each group
+  calculateRanks(models, config.overlapTies ?? false);
+  if (hasGroups && config.rankScope === "group") {
+    for (const key of groupIndex.keys()) {
+      calculateRanks(models.filter((m) => m.group === key), config.overlapTies ?? false);
+    }
+  }
+
+  // The best N by score stay on the chart, whatever the row order below
+  if (config.topN !== undefined) {
+    for (const m of models.slice(config.topN)) {
+      m.collapsed = true;
+    }
+  }
+
+  // Compare ranks against the baseline leaderboard, matching by model string
+  if (config.baselineRanks) {
+    const groupScoped = hasGroups && config.rankScope === "group";
+    for (const m of models) {
+      const baselineRank = getBaselineRank(m, models, config.baselineRanks, groupScoped);
+      if (baselineRank === undefined) {
+        m.isNewEntry = true;
+      } else {
+        m.rankChange = baselineRank - m.rank;
+      }
+    }
+  }
+
+  // Ranks stay score-based; only the row order follows the delta or sortBy (stable sorts keep score order on ties)
+  if (isDumbbell && config.dumbbellSort === "delta") {
+    models.sort((a, b) => direction * (b.delta! - a.delta!));
+  }
+  const sortBy = config.sortBy ?? "score";
+  if (sortBy !== "score") {
+    models.sort((a, b) => compareBySortKey(a, b, sortBy, inputOrder));
+  }
+
+  // Groups come in config order, each keeping the order above
+  if (hasGroups) {
+    models.sort((a, b) => groupIndex.get(a.group!)! - groupIndex.get(b.group!)!);
+  }
+
+  // Collapsed models go last, keeping the order above among the charted ones
+  models.sort((a, b) => Number(a.collapsed) - Number(b.collapsed));
+
+  // Markers follow the final row order (collapsed models have no row to mark)
+  assignFootnoteNumbers(models.filter((m) => !m.collapsed));
 
   return models;
 }
+
+/**
+ * Map each model string to its rank, for use as another chart's `baselineRanks`.
+ * If a model string appears more than once, its best rank wins.
+ */
+export function getRanksByModel(models: ProcessedModel[]): Record<string, number> {
+  const ranks: Record<string, number> = {};
+  for (const m of models) {
+    if (ranks[m.model] === undefined || m.rank < ranks[m.model]) {
+      ranks[m.model] = m.rank;
+    }
+  }
+  return ranks;
+}
@@ -75,6 +75,32 @@ export function getProviderGroups(): ProviderGroup[] {
 
 export const DEFAULT_COLOR = "#666666";
 
+/**
+ * Default bar colors for grouped (multi-benchmark) charts, assigned in
+ * benchmark order when a benchmark has no explicit color.
+ */
+export const BENCHMARK_COLORS = [
+  "#3186FF",
+  "#DA7757",
+  "#4BA080",
+  "#6336E8",
+  "#FFAF02",
+  "#D18EE2",
+  "#0DACF1",
+  "#4D7B4D",
+];
+
+/**
+ * Default colors for reference lines, assigned in list order when a line
+ * has no explicit color. Muted so markers don't compete with the bars.
+ */
+export const REFERENCE_LINE_COLORS = [
+  "#6B7280",
+  "#B45309",
+  "#7C3AED",
+  "#0F766E",
+];
+
 /**
  * Get provider configuration with contains matching.
  * Matches the first provider key contained in the input (case-insensitive).
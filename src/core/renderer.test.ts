@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import { processModels } from "./preprocessor.js";
+import { paginateModels, renderChartPages, renderChartSvg } from "./renderer.js";
+import type { InputConfig, ModelData } from "./types.js";
+
+type ConfigOptions = Partial<Omit<InputConfig, "showRankings" | "percentPrecision">>;
+
+function config(models: ModelData[], options: ConfigOptions = {}): InputConfig {
+  return { title: "Test", showRankings: true, percentPrecision: 1, models, ...options };
+}
+
+function percents(...values: number[]): ModelData[] {
+  return values.map((percent, i) => ({ model: `openai/model-${i + 1}`, percent }));
+}
+
+describe("paginateModels", () => {
+  test("keeps every model on one page without maxModelsPerPage", () => {
+    const input = config(percents(90, 80, 70));
+    expect(paginateModels(input, processModels(input)).map((page) => page.length)).toEqual([3]);
+  });
+
+  test("splits into full pages with the remainder last, continuing the ranks", () => {
+    const input = config(percents(90, 80, 70, 60, 50), { maxModelsPerPage: 2 });
+    const pages = paginateModels(input, processModels(input));
+    expect(pages.map((page) => page.map((m) => m.rank))).toEqual([[1, 2], [3, 4], [5]]);
+  });
+
+  test("keeps scatter plots on one page", () => {
+    const input = config(
+      percents(90, 80, 70).map((m) => ({ ...m, totalParams: 100 })),
+      { chartType: "scatter", maxModelsPerPage: 1 }
+    );
+    expect(paginateModels(input, processModels(input))).toHaveLength(1);
+  });
+
+  test("leaves models collapsed by topN off every page", () => {
+    const input = config(percents(90, 80, 70, 60, 50), { topN: 3, maxModelsPerPage: 2 });
+    const pages = paginateModels(input, processModels(input));
+    expect(pages.map((page) => page.map((m) => m.value))).toEqual([[90, 80], [70]]);
+  });
+
+  test("splits a group across pages, keeping group order", () => {
+    const input = config(
+      [
+        { model: "openai/a1", percent: 90, group: "a" },
+        { model: "openai/b1", percent: 85, group: "b" },
+        { model: "openai/a2", percent: 80, group: "a" },
+        { model: "openai/a3", percent: 70, group: "a" },
+        { model: "openai/b2", percent: 60, group: "b" },
+      ],
+      { groups: [{ key: "a", label: "A" }, { key: "b", label: "B" }], maxModelsPerPage: 2 }
+    );
+    const pages = paginateModels(input, processModels(input));
+    expect(pages.map((page) => page.map((m) => m.model))).toEqual([
+      ["openai/a1", "openai/a2"],
+      ["openai/a3", "openai/b1"],
+      ["openai/b2"],
+    ]);
+  });
+});
+
+describe("topN summary row", () => {
+  const input = config(percents(90, 80, 70, 60, 50), { topN: 3, maxModelsPerPage: 2 });
+  const models = processModels(input);
+
+  test("appears on the last page only", () => {
+    const pages = renderChartPages(input, models, { mode: "cli" });
+    expect(pages.map((html) => html.includes("+2 more"))).toEqual([false, true]);
+    expect([0, 1].map((page) => renderChartSvg(input, models, { page }).includes("+2 more"))).toEqual([false, true]);
+  });
+
+  test("is left out when topN covers every model", () => {
+    const all = config(percents(90, 80), { topN: 5 });
+    expect(renderChartPages(all, processModels(all), { mode: "cli" })[0]).not.toMatch(/\+\d+ more/);
+  });
+});
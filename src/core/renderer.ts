@@ -1,8 +1,37 @@
 import { inline, extract, install } from "@twind/core";
 import presetAutoprefix from "@twind/preset-autoprefix";
 import presetTailwind from "@twind/preset-tailwind";
-import type { InputConfig, ProcessedModel } from "./types.js";
+import type {
+  InputConfig,
+  AspectRatio,
+  DataSource,
+  ProcessedModel,
+  ProcessedBenchmarkScore,
+  ConfidenceInterval,
+  ErrorBarMethod,
+  ScatterXAxis,
+  ReferenceLine,
+  Theme,
+} from "./types.js";
 import { fonts, type FontFamily } from "./assets.js";
+import { REFERENCE_LINE_COLORS } from "./providers.js";
+import { resolveTheme } from "./theme.js";
+import { measureText, truncateText, wrapText } from "./text-metrics.js";
+import { getInteractiveData, serializeInteractiveData, INTERACTIVE_SCRIPT, type InteractiveData } from "./interactive.js";
+import {
+  getMetricDomain,
+  normalizeValue,
+  denormalizeValue,
+  formatMetricValue,
+  isHigherBetter,
+  type MetricDomain,
+} from "./metric.js";
+
+/** Formats a raw score for labels (e.g., "74.2%" or "1,234 Elo") */
+type FormatValue = (value: number) => string;
+
+/** Reference line with its color resolved and its value normalized to a 0-100 position */
+type ResolvedReferenceLine = Required<ReferenceLine> & { position: number };
 
 /** Map font family keys to display names */
 const fontDisplayNames: Record<FontFamily, string> = {
@@ -41,27 +70,148 @@ const BAR_LABEL_HEIGHT = 24; // Model name + percentage row height
 const GAP_LABEL_BAR = 4; // Gap between label and bar
 const BAR_HEIGHT = 28; // The actual bar height
 
+// Column dimensions (vertical orientation)
+const COLUMN_MIN_WIDTH = 72; // Narrowest column before the card grows wider
+const GAP_BETWEEN_COLUMNS = 16; // Gap between columns
+const COLUMN_BAR_MAX_WIDTH = 56; // Bar width cap so few-model charts don't turn into blocks
+const COLUMN_PLOT_HEIGHT = 360; // Height of the bar track
+const COLUMN_VALUE_HEIGHT = 40; // Space above the track for percentage + passed/total labels
+const GAP_RANK_VALUE = 8; // Gap between rank badge and value labels
+const GAP_BAR_ICON = 12; // Gap between bar and icon below it
+const GAP_ICON_LABEL = 8; // Gap between icon and model name
+const COLUMN_LABEL_HEIGHT = 40; // Model name, wrapped to at most two lines
+const COLUMN_PARAMS_HEIGHT = 32; // Params label and callout, at most two lines
+const COLUMN_LABEL_LINES = 2; // Name lines that fit in COLUMN_LABEL_HEIGHT
+const COLUMN_MAX_LABEL_WIDTH = 160; // Widest a column grows to fit a long name
+
+// Grouped (multi-benchmark) bar dimensions
+const GROUPED_BAR_HEIGHT = 18; // Height of each benchmark bar in a horizontal row
+const GAP_GROUPED_BARS = 4; // Gap between benchmark bars of the same model
+const GROUPED_LABEL_INSIDE_THRESHOLD = 20; // Percentage above which the value fits inside the fill
+const COLUMN_GROUPED_BAR_WIDTH = 20; // Width of each benchmark bar in a vertical column
+const GAP_HEADER_LEGEND = 12; // Gap between header text and benchmark legend
+const LEGEND_HEIGHT = 20; // Benchmark legend row
+const LEGEND_SWATCH_SIZE = 12; // Legend color dot
+
+// Error bars
+const WHISKER_CAP_SIZE = 12; // Length of the caps at each end of an error bar
+const WHISKER_WIDTH = 2; // Stroke width of the error bar line and caps
+const WHISKER_OPACITY = 0.6; // Whiskers use the theme's text color at this opacity
+
+// Reference lines (fixed scores such as human expert or random chance)
+const REFERENCE_LINE_WIDTH = 2; // Dash thickness
+const REFERENCE_LINE_OVERHANG = 4; // How far each marker extends past the bars it crosses
+const REFERENCE_SWATCH_WIDTH = 16; // Dashed legend swatch
+
+// Group subheadings (horizontal rows)
+const GROUP_HEADING_HEIGHT = 24; // Group label row
+const GAP_GROUP_HEADING = 8; // Gap between a group label and its first row
+const GAP_BETWEEN_GROUPS = 28; // Gap above each group after the first (replaces GAP_BETWEEN_BARS)
+
+// Summary of the models left out by topN
+const OTHERS_ROW_HEIGHT = 24; // "+12 more (range 12.0%–48.0%)" line below the last row
+const GAP_OTHERS_ROW = 16; // Gap between the chart and the summary line
+
+// Highlighted and dimmed models
+const DIM_SATURATION = 0.2; // Share of the original saturation a dimmed color keeps
+const DIM_FADE = 0.45; // How far a dimmed color is blended toward the card color
+const DIM_ICON_OPACITY = 0.5; // Opacity of a dimmed model's (grayscale) icon
+const CALLOUT_HEIGHT = 20; // Callout badge next to the model name
+const CALLOUT_PADDING_X = 8; // Callout badge horizontal padding (px-2)
+
+// Font sizes (px) of the text classes used in labels, for text measurement
+const TEXT_XS = 12;
+const TEXT_SM = 14;
+const TEXT_BASE = 16;
+const TEXT_LG = 18;
+const TEXT_3XL = 30;
+const SUPERSCRIPT_SCALE = 0.75; // Footnote markers (<sup>) relative to the surrounding text
+const GAP_LABEL_ITEMS = 8; // Gap between name, callout and params in a row label (gap-2)
+const GAP_LABEL_VALUE = 16; // Minimum gap between a row's name and its value
+const GAP_LOGO_TITLE = 12; // Gap between the header logo and the title (gap-3)
+const GAP_TITLE_NOTE = 16; // Gap between the title and the "Lower is better" note (gap-4)
+const LOWER_IS_BETTER_NOTE = "↓ Lower is better";
+
+// Rank movement against a baseline leaderboard
+const GAP_RANK_CHANGE = 2; // Gap between the rank badge and its movement label
+const RANK_CHANGE_FONT_SIZE = 10; // Movement label text size
+const RANK_NEW_COLOR = "#2563EB"; // blue-600
+
+// Dumbbell chart (previous → current score)
+const DUMBBELL_DOT_SIZE = 20; // Diameter of the previous and current score dots
+const DUMBBELL_DOT_BORDER = 3; // Ring width of the hollow "previous" dot
+const DUMBBELL_LINE_HEIGHT = 4; // Thickness of the track and the connecting line
+const DELTA_UP_COLOR = "#16A34A"; // green-600
+const DELTA_DOWN_COLOR = "#DC2626"; // red-600
+const DELTA_FLAT_COLOR = "#9CA3AF"; // gray-400
+
+// Scatter chart dimensions
+const SCATTER_PLOT_HEIGHT = 520; // Height of the plot area (excluding x-axis)
+const SCATTER_Y_AXIS_WIDTH = 48; // Space left of the plot for y tick labels
+const SCATTER_X_AXIS_HEIGHT = 48; // Space below the plot for x tick labels + axis title
+const SCATTER_PLOT_PADDING = 28; // Inset so markers at the domain edges aren't clipped
+const SCATTER_MARKER_SIZE = 32; // Provider icon used as the point marker
+const SCATTER_MIN_WIDTH = 480; // Narrowest scatter chart before the card grows wider
+
+/** X-axis titles for scatter charts */
+const scatterAxisTitles: Record<ScatterXAxis, string> = {
+  "totalParams": "Total parameters (log scale)",
+  "activeParams": "Active parameters (log scale)",
+  "costPerRun": "Cost per run (USD, log scale)",
+  "costPerMillionInput": "Cost per million input tokens (USD, log scale)",
+  "costPerMillionOutput": "Cost per million output tokens (USD, log scale)",
+  "latencyMs": "Latency (log scale)",
+};
+
+/** Footer note describing how error bars were computed */
+const errorBarNotes: Record<Exclude<ErrorBarMethod, "none">, string> = {
+  "wilson": "Error bars: 95% Wilson interval",
+  "clopper-pearson": "Error bars: 95% Clopper–Pearson interval",
+};
+
 // Header/footer heights (approximate)
 const TITLE_HEIGHT = 36; // h1 text-3xl
 const DESCRIPTION_HEIGHT = 24; // p text
 const BRANDING_HEIGHT = 20; // "Made with llmplot.com" line (text-sm)
+const FOOTNOTE_LINE_HEIGHT = 16; // One footnote (text-xs, single line)
+const GAP_FOOTNOTES_BRANDING = 8; // Gap between footnotes and branding line
+const LOGO_HEIGHT = 32; // Organization logo next to the title (fits within TITLE_HEIGHT)
+const LOGO_MAX_WIDTH = 160; // Wide wordmarks are scaled down to this width
+const SPONSOR_LOGO_HEIGHT = BRANDING_HEIGHT; // Sponsor logo sits on the branding line
+const SPONSOR_LOGO_MAX_WIDTH = 120;
+
+// Interactive mode controls (the document grows to fit them, so they aren't part of the layout)
+const TOOLBAR_BUTTON_HEIGHT = 28; // Sort buttons and provider chips
+const TOOLBAR_ICON_SIZE = 14; // Provider icon inside a chip
+const GAP_TOOLBAR_CHART = 16; // Gap between the controls and the chart
+const TOOLTIP_MAX_WIDTH = 280;
 
 // Target output width - layout is scaled to achieve this
 export const TARGET_OUTPUT_WIDTH = 1280;
 
-// Aspect ratio (4:5)
-const ASPECT_RATIO = 4 / 5;
+// Background width / height for each fixed aspect ratio
+const ASPECT_RATIOS: Record<Exclude<AspectRatio, "auto">, number> = {
+  "4:5": 4 / 5,
+  "1:1": 1,
+  "16:9": 16 / 9,
+  "1.91:1": 1.91,
+};
+const DEFAULT_ASPECT_RATIO = "4:5";
 
 // Minimum bar container width as percentage of TARGET_OUTPUT_WIDTH
 const MIN_BAR_CONTAINER_WIDTH_RATIO = 0.3;
 const MIN_BAR_CONTAINER_WIDTH = TARGET_OUTPUT_WIDTH * MIN_BAR_CONTAINER_WIDTH_RATIO; // 384px
 
-export type RenderMode = 'cli' | 'web';
+// Bars widen up to this to fit a long name row; names that still don't fit are truncated
+const MAX_LABEL_BAR_CONTAINER_WIDTH = TARGET_OUTPUT_WIDTH * 0.5; // 640px
+
+export type RenderMode = 'cli' | 'web' | 'interactive';
 
 export interface RenderOptions {
   /** 
-   * 'cli' - Full standalone HTML document with gray background, inlined CSS, embedded font
+   * 'cli' - Full standalone HTML document with the themed background layer, inlined CSS, embedded font
    * 'web' - Self-contained fragment (<style> + <div>) for embedding, with inlined CSS and embedded font
+   * 'interactive' - Like 'cli', plus an embedded script for tooltips, re-sorting and provider filters
    */
   mode: RenderMode;
   /**
@@ -70,6 +220,18 @@ export interface RenderOptions {
    * The chart is rendered at full size internally, then scaled via CSS transform.
    */
   scale?: number;
+  /**
+   * Page to render when `maxModelsPerPage` splits the models (0-based, default: 0).
+   */
+  page?: number;
+}
+
+export interface LayoutDimensions {
+  barContainerWidth: number;
+  cardWidth: number;
+  cardHeight: number;
+  backgroundWidth: number;
+  backgroundHeight: number;
 }
 
 function escapeHtml(str: string): string {
@@ -82,47 +244,326 @@ function escapeHtml(str: string): string {
 
 
 
-function getRankBadge(rank: number): { bg: string; text: string } {
-  if (rank === 1) return { bg: "#F59E0B", text: "white" }; // gold
-  if (rank === 2) return { bg: "#9CA3AF", text: "white" }; // silver
-  if (rank === 3) return { bg: "#CD7F32", text: "white" }; // bronze
-  return { bg: "#E6E7EB", text: "#6B7280" }; // light gray with dark text for 4+
+function getRankBadge(rank: number, theme: Theme): { bg: string; text: string } {
+  if (rank === 1) return { bg: theme.badgeGold, text: "white" };
+  if (rank === 2) return { bg: theme.badgeSilver, text: "white" };
+  if (rank === 3) return { bg: theme.badgeBronze, text: "white" };
+  return { bg: theme.badge, text: theme.badgeText }; // muted badge for 4+
+}
+
+/**
+ * Render a rank badge. With a baseline leaderboard, the movement since then
+ * (▲/▼ places, or "NEW") is pinned below or beside the badge so the layout is unchanged.
+ */
+function renderRankBadge(m: ProcessedModel, spacingStyle: string, changePlacement: "below" | "right", theme: Theme): string {
+  const badge = getRankBadge(m.rank, theme);
+  return `
+        <!-- Rank badge -->
+        <div 
+          class="relative rounded-full flex items-center justify-center text-sm font-semibold shrink-0"
+          style="width: ${RANK_BADGE_SIZE}px; height: ${RANK_BADGE_SIZE}px; ${spacingStyle} background-color: ${badge.bg}; color: ${badge.text};"
+        >
+          ${m.rank}
+          ${renderRankChange(m, changePlacement)}
+        </div>`;
+}
+
+/**
+ * Render the rank movement label for a badge, or nothing without a baseline.
+ */
+function renderRankChange(m: ProcessedModel, placement: "below" | "right"): string {
+  let label: string;
+  let color: string;
+  if (m.isNewEntry) {
+    label = "NEW";
+    color = RANK_NEW_COLOR;
+  } else if (m.rankChange === undefined) {
+    return "";
+  } else if (m.rankChange > 0) {
+    label = `▲${m.rankChange}`;
+    color = DELTA_UP_COLOR;
+  } else if (m.rankChange < 0) {
+    label = `▼${-m.rankChange}`;
+    color = DELTA_DOWN_COLOR;
+  } else {
+    label = "–";
+    color = DELTA_FLAT_COLOR;
+  }
+  const position = placement === "below"
+    ? `top: calc(100% + ${GAP_RANK_CHANGE}px); left: 50%; transform: translateX(-50%);`
+    : `left: calc(100% + ${GAP_RANK_CHANGE}px); top: 50%; transform: translateY(-50%);`;
+  return `<span class="absolute font-semibold whitespace-nowrap" style="${position} font-size: ${RANK_CHANGE_FONT_SIZE}px; line-height: 1; color: ${color};">${label}</span>`;
+}
+
+/**
+ * Render the superscript footnote number after a model name, if it has a note.
+ */
+function renderFootnoteMarker(m: ProcessedModel, theme: Theme): string {
+  return m.footnoteNumber ? `<sup style="color: ${theme.faintText};">${m.footnoteNumber}</sup>` : "";
+}
+
+/**
+ * Collect the footnotes marked on a page's models, in number order.
+ * Numbers are shared by every page, so a carousel page can skip some.
+ * Only footnotes with a marker on the chart are printed: unreferenced entries of
+ * `footnotes:` and notes of models folded into "+N more" have no number.
+ */
+function getFootnotes(config: InputConfig, page: ProcessedModel[]): { number: number; text: string }[] {
+  const texts = new Map<number, string>();
+  for (const m of page) {
+    if (m.footnoteNumber && !texts.has(m.footnoteNumber)) {
+      texts.set(m.footnoteNumber, m.note ?? config.footnotes![m.footnote!]);
+    }
+  }
+  return [...texts].sort(([a], [b]) => a - b).map(([number, text]) => ({ number, text }));
+}
+
+/**
+ * Render the "Source: ..." footer line, linked when the source has a URL.
+ */
+function renderSourceLine(source: DataSource, theme: Theme): string {
+  const text = source.url
+    ? `<a href="${escapeHtml(source.url)}" target="_blank" style="color: ${theme.secondaryText};">${escapeHtml(source.text)}</a>`
+    : escapeHtml(source.text);
+  return `<p class="text-xs truncate" style="color: ${theme.mutedText}; height: ${FOOTNOTE_LINE_HEIGHT}px; line-height: ${FOOTNOTE_LINE_HEIGHT}px;">Source: ${text}</p>`;
+}
+
+/**
+ * Render the right side of the branding line: "Sponsored by" followed by the logo and/or name.
+ */
+function renderSponsor(config: InputConfig, theme: Theme): string {
+  if (!config.sponsoredBy && !config.sponsorLogo) return "";
+  const logo = config.sponsorLogo
+    ? `<img src="${config.sponsorLogo}" alt="${escapeHtml(config.sponsoredBy ?? "")}" style="height: ${SPONSOR_LOGO_HEIGHT}px; max-width: ${SPONSOR_LOGO_MAX_WIDTH}px; object-fit: contain;" />`
+    : "";
+  const name = config.sponsoredBy
+    ? `<span class="font-semibold" style="color: ${theme.secondaryText};">${escapeHtml(config.sponsoredBy)}</span>`
+    : "";
+  return `<div class="flex items-center justify-end gap-2 text-sm" style="color: ${theme.faintText}; height: ${BRANDING_HEIGHT}px;">Sponsored by ${logo}${name}</div>`;
+}
+
+/**
+ * Render the interactive mode's controls above the chart: sort buttons (except
+ * for scatter plots) and a provider legend whose chips show or hide rows.
+ */
+function renderInteractiveToolbar(models: ProcessedModel[], sortable: boolean, theme: Theme): string {
+  const providerModels = new Map<string, ProcessedModel>();
+  for (const m of models) {
+    const key = m.provider.toLowerCase();
+    if (!providerModels.has(key)) providerModels.set(key, m);
+  }
+  const sortKeys: [string, string][] = [["score", "Score"], ["name", "Name"]];
+  if (models.some((m) => m.totalParams !== undefined)) sortKeys.push(["params", "Params"]);
+
+  const buttonStyle = `height: ${TOOLBAR_BUTTON_HEIGHT}px; color: ${theme.secondaryText}; font-family: inherit;`;
+  const sortButtons = sortKeys.map(([key, label], i) =>
+    `<button type="button" data-llmplot-sort="${key}" aria-pressed="${i === 0}" class="rounded-md px-2 text-sm cursor-pointer" style="${buttonStyle} border: none; background-color: ${i === 0 ? theme.track : "transparent"};">${label} <span data-llmplot-sort-arrow>${i === 0 ? "↓" : ""}</span></button>`
+  );
+  const chips = [...providerModels].map(([key, m]) =>
+    `<button type="button" data-llmplot-provider="${escapeHtml(key)}" aria-pressed="true" class="flex items-center gap-1 rounded-full px-2 text-xs cursor-pointer" style="${buttonStyle} border: 1px solid ${theme.track}; background-color: transparent;"><img src="${m.providerConfig.iconUrl}" alt="" style="width: ${TOOLBAR_ICON_SIZE}px; height: ${TOOLBAR_ICON_SIZE}px;" />${escapeHtml(m.provider)}</button>`
+  );
+
+  return `<div class="flex flex-wrap items-center justify-between gap-2" style="margin-bottom: ${GAP_TOOLBAR_CHART}px;">
+      ${sortable ? `<div class="flex items-center gap-1 text-sm" style="color: ${theme.faintText};">Sort by ${sortButtons.join("")}</div>` : "<div></div>"}
+      <div class="flex flex-wrap items-center gap-2">${chips.join("")}</div>
+    </div>`;
+}
+
+/**
+ * Render the interactive mode's tooltip element and script, with the page's row data.
+ */
+function renderInteractiveLayer(data: InteractiveData, fontFamily: string, theme: Theme): string {
+  return `<div id="llmplot-tooltip" class="text-xs" style="display: none; position: fixed; z-index: 10; pointer-events: none; max-width: ${TOOLTIP_MAX_WIDTH}px; padding: 8px 10px; border-radius: 8px; line-height: 18px; font-family: ${fontFamily}; background-color: ${theme.title}; color: ${theme.card};"></div>
+  <script type="application/json" id="llmplot-data">${serializeInteractiveData(data)}</script>
+  <script>${INTERACTIVE_SCRIPT}</script>`;
+}
+
+/**
+ * Render a horizontal error bar (line with end caps) spanning the interval.
+ * Must be placed inside a relatively positioned bar track.
+ */
+function renderHorizontalWhisker(interval: ConfidenceInterval, theme: Theme): string {
+  const color = withAlpha(theme.text, WHISKER_OPACITY);
+  return `<div class="absolute" style="left: ${interval.low.toFixed(2)}%; width: ${(interval.high - interval.low).toFixed(2)}%; top: 50%; height: ${WHISKER_CAP_SIZE}px; transform: translateY(-50%); box-sizing: border-box; border-left: ${WHISKER_WIDTH}px solid ${color}; border-right: ${WHISKER_WIDTH}px solid ${color}; background: linear-gradient(${color}, ${color}) center / 100% ${WHISKER_WIDTH}px no-repeat;"></div>`;
+}
+
+/**
+ * Render a vertical error bar (line with end caps) spanning the interval.
+ * Must be placed inside a relatively positioned column track.
+ */
+function renderVerticalWhisker(interval: ConfidenceInterval, theme: Theme): string {
+  const color = withAlpha(theme.text, WHISKER_OPACITY);
+  return `<div class="absolute" style="bottom: ${interval.low.toFixed(2)}%; height: ${(interval.high - interval.low).toFixed(2)}%; left: 50%; width: ${WHISKER_CAP_SIZE}px; transform: translateX(-50%); box-sizing: border-box; border-top: ${WHISKER_WIDTH}px solid ${color}; border-bottom: ${WHISKER_WIDTH}px solid ${color}; background: linear-gradient(${color}, ${color}) center / ${WHISKER_WIDTH}px 100% no-repeat;"></div>`;
+}
+
+/**
+ * Whether a model's row opens a new group (grouped leaderboards only).
+ */
+function startsGroup(models: ProcessedModel[], index: number): boolean {
+  const group = models[index].group;
+  return group !== undefined && (index === 0 || models[index - 1].group !== group);
+}
+
+/**
+ * Attributes tagging a row (or column, or scatter marker) for the interactive script:
+ * its index into the page's row data and, in grouped charts, its group key.
+ */
+function renderRowAttributes(m: ProcessedModel, index: number): string {
+  return ` data-llmplot-row="${index}"${m.group !== undefined ? ` data-llmplot-row-group="${escapeHtml(m.group)}"` : ""}`;
+}
+
+/**
+ * Render the subheading above the first row of each group, or nothing.
+ */
+function renderGroupHeading(models: ProcessedModel[], index: number, theme: Theme): string {
+  if (!startsGroup(models, index)) return "";
+  return `<div data-llmplot-group="${escapeHtml(models[index].group!)}" class="text-sm font-semibold uppercase tracking-wide" style="color: ${theme.mutedText}; height: ${GROUP_HEADING_HEIGHT}px; line-height: ${GROUP_HEADING_HEIGHT}px; margin-bottom: ${GAP_GROUP_HEADING}px;${index > 0 ? ` margin-top: ${GAP_BETWEEN_GROUPS}px;` : ""}">${escapeHtml(models[index].groupLabel ?? "")}</div>`;
+}
+
+/**
+ * Split a "#RRGGBB" color into its channels, or undefined for other formats.
+ */
+function parseHexColor(color: string): [number, number, number] | undefined {
+  const match = /^#([0-9A-Fa-f]{2})([0-9A-Fa-f]{2})([0-9A-Fa-f]{2})$/.exec(color);
+  if (!match) return undefined;
+  const [r, g, b] = match.slice(1).map((c) => parseInt(c, 16));
+  return [r, g, b];
+}
+
+/**
+ * A hex color as rgba() with the given opacity. Non-hex colors are returned unchanged.
+ */
+function withAlpha(color: string, alpha: number): string {
+  const rgb = parseHexColor(color);
+  return rgb ? `rgba(${rgb.join(", ")}, ${alpha})` : color;
+}
+
+/**
+ * Mute a hex color for dimmed models: mostly desaturated, then faded toward the card color.
+ * Non-hex colors are returned unchanged.
+ */
+function muteColor(color: string, theme: Theme): string {
+  const rgb = parseHexColor(color);
+  if (!rgb) return color;
+  const card = parseHexColor(theme.card) ?? [255, 255, 255];
+  const gray = 0.299 * rgb[0] + 0.587 * rgb[1] + 0.114 * rgb[2];
+  return "#" + rgb.map((c, i) => {
+    const desaturated = gray + (c - gray) * DIM_SATURATION;
+    const faded = desaturated + (card[i] - desaturated) * DIM_FADE;
+    return Math.round(faded).toString(16).padStart(2, "0");
+  }).join("");
+}
+
+/**
+ * Bar/dot color for a model, muted when it is dimmed.
+ */
+function getModelColor(m: ProcessedModel, theme: Theme): string {
+  const color = m.color ?? m.providerConfig.color;
+  return m.dimmed ? muteColor(color, theme) : color;
+}
+
+/**
+ * Text color for a model's labels, faint when it is dimmed.
+ */
+function getLabelColor(m: ProcessedModel, theme: Theme): string {
+  return m.dimmed ? theme.faintText : theme.text;
+}
+
+/**
+ * Text color for a model name: the title color when highlighted (names are also bolded).
+ */
+function getNameColor(m: ProcessedModel, theme: Theme): string {
+  return m.highlight ? theme.title : getLabelColor(m, theme);
+}
+
+/**
+ * Inline style that fades a dimmed model's icon to grayscale.
+ */
+function getIconDimStyle(m: ProcessedModel): string {
+  return m.dimmed ? ` filter: grayscale(1); opacity: ${DIM_ICON_OPACITY};` : "";
+}
+
+/**
+ * Render a model's callout badge (e.g., "New") in its provider color, or nothing.
+ */
+function renderCallout(m: ProcessedModel, theme: Theme): string {
+  if (!m.callout) return "";
+  return `<span class="rounded-full px-2 text-xs font-semibold text-white whitespace-nowrap shrink-0" style="height: ${CALLOUT_HEIGHT}px; line-height: ${CALLOUT_HEIGHT}px; background-color: ${getModelColor(m, theme)};">${escapeHtml(m.callout)}</span>`;
+}
+
+/**
+ * Width in front of a horizontal row's name: the optional rank badge and the icon.
+ */
+function getFixedRowWidth(showRankings: boolean): number {
+  return (showRankings ? RANK_BADGE_SIZE + GAP_RANK_ICON : 0) + ICON_SIZE + GAP_ICON_CONTENT;
+}
+
+/**
+ * Score range of the models collapsed by `topN` (e.g., "range 12.0%–48.0%"), or their one value.
+ */
+function formatOthersRange(others: ProcessedModel[], formatValue: FormatValue): string {
+  const values = others.map((m) => m.value);
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  return low === high ? formatValue(low) : `range ${formatValue(low)}–${formatValue(high)}`;
+}
+
+/**
+ * Render the summary line for models collapsed by `topN`: their count and score range.
+ * Indented to line up with the model names of horizontal rows.
+ */
+function renderOthersRow(others: ProcessedModel[], indent: number, formatValue: FormatValue, theme: Theme): string {
+  const range = formatOthersRange(others, formatValue);
+  return `<div class="text-lg whitespace-nowrap" style="color: ${theme.mutedText}; height: ${OTHERS_ROW_HEIGHT}px; line-height: ${OTHERS_ROW_HEIGHT}px; margin-top: ${GAP_OTHERS_ROW}px; padding-left: ${indent}px;">+${others.length} more <span class="text-sm" style="color: ${theme.faintText};">(${range})</span></div>`;
+}
+
+/**
+ * Extra height taken by group subheadings in horizontal rows.
+ */
+function getGroupHeadingsHeight(models: ProcessedModel[]): number {
+  let height = 0;
+  models.forEach((_, index) => {
+    if (!startsGroup(models, index)) return;
+    height += GROUP_HEADING_HEIGHT + GAP_GROUP_HEADING + (index > 0 ? GAP_BETWEEN_GROUPS - GAP_BETWEEN_BARS : 0);
+  });
+  return height;
 }
 
 function renderHorizontalChart(
   models: ProcessedModel[], 
   showRankings: boolean, 
   percentPrecision: number,
-  barContainerWidth: number
+  formatValue: FormatValue,
+  barContainerWidth: number,
+  referenceLines: ResolvedReferenceLine[],
+  theme: Theme
 ): string {
   const rows = models.map(
     (m, index) => `
-      <div class="flex items-center" style="gap: ${GAP_ICON_CONTENT}px;${index > 0 ? ` margin-top: ${GAP_BETWEEN_BARS}px;` : ""}">
-        ${showRankings ? `
-        <!-- Rank badge -->
-        <div 
-          class="rounded-full flex items-center justify-center text-sm font-semibold shrink-0"
-          style="width: ${RANK_BADGE_SIZE}px; height: ${RANK_BADGE_SIZE}px; margin-right: ${GAP_RANK_ICON - GAP_ICON_CONTENT}px; background-color: ${getRankBadge(m.rank).bg}; color: ${getRankBadge(m.rank).text};"
-        >
-          ${m.rank}
-        </div>
-        ` : ""}
+      ${renderGroupHeading(models, index, theme)}
+      <div${renderRowAttributes(m, index)} class="flex items-center" style="gap: ${GAP_ICON_CONTENT}px;${index > 0 && !startsGroup(models, index) ? ` margin-top: ${GAP_BETWEEN_BARS}px;` : ""}">
+        ${showRankings ? renderRankBadge(m, `margin-right: ${GAP_RANK_ICON - GAP_ICON_CONTENT}px;`, "below", theme) : ""}
         <!-- Icon -->
         <div class="shrink-0 flex items-center justify-center" style="width: ${ICON_SIZE}px; height: ${ICON_SIZE}px;">
-          <img src="${m.providerConfig.iconUrl}" alt="" style="width: ${ICON_SIZE}px; height: ${ICON_SIZE}px;" />
+          <img src="${m.providerConfig.iconUrl}" alt="" style="width: ${ICON_SIZE}px; height: ${ICON_SIZE}px;${getIconDimStyle(m)}" />
         </div>
         
         <!-- Name + Bar stacked -->
-        <div style="width: ${barContainerWidth}px;">
-          <!-- Name row with percentage -->
+        <div class="relative" style="width: ${barContainerWidth}px;">
+          <!-- Name row with value -->
           <div class="flex items-baseline justify-between" style="height: ${BAR_LABEL_HEIGHT}px; margin-bottom: ${GAP_LABEL_BAR}px;">
             <div class="flex items-baseline gap-2">
-              <span class="text-lg text-gray-800">${escapeHtml(m.displayLabel)}</span>
-              ${m.paramsLabel ? `<span class="text-gray-400 text-sm">${escapeHtml(m.paramsLabel)}</span>` : ""}
+              <span class="text-lg whitespace-nowrap${m.highlight ? " font-bold" : ""}" style="color: ${getNameColor(m, theme)};">${escapeHtml(m.displayLabel)}${renderFootnoteMarker(m, theme)}</span>
+              ${renderCallout(m, theme)}
+              ${m.paramsLabel ? `<span class="text-sm" style="color: ${theme.faintText};">${escapeHtml(m.paramsLabel)}</span>` : ""}
             </div>
-            <span class="font-semibold text-lg text-gray-800">${m.percentage.toFixed(percentPrecision)}%</span>
+            ${!m.benchmarkScores ? `<span class="font-semibold text-lg" style="color: ${getLabelColor(m, theme)};">${formatValue(m.value)}</span>` : ""}
           </div>
           
+          ${m.benchmarkScores ? `
+          <!-- One bar per benchmark -->
+          ${renderGroupedBars(m.benchmarkScores, percentPrecision, m.dimmed, theme)}
+          ` : `
           <!-- Bar container (fixed width) -->
           ${(() => {
             // Dynamic threshold based on label length - longer numbers need more space
@@ -132,20 +573,25 @@ function renderHorizontalChart(
             // Linear interpolation: threshold = 15 + (labelLength - 4) * (15 / 6)
             const threshold = Math.min(30, Math.max(15, 15 + (labelLength - 4) * (15 / 6)));
             const isLabelInside = m.percentage >= threshold;
-            return `<div class="relative bg-gray-200 rounded-full overflow-visible" style="height: ${BAR_HEIGHT}px;">
+            // Outside labels start after the error bar so they don't overlap it
+            const labelAnchor = Math.max(m.percentage, m.interval?.high ?? 0);
+            return `<div class="relative rounded-full overflow-visible" style="height: ${BAR_HEIGHT}px; background-color: ${theme.track};">
             <div 
               class="h-full rounded-full${isLabelInside ? ' flex items-center justify-end pr-3' : ''}"
-              style="width: ${m.percentage.toFixed(1)}%; background-color: ${m.color ?? m.providerConfig.color};"
+              style="width: ${m.percentage.toFixed(1)}%; background-color: ${getModelColor(m, theme)};"
             >
               ${!m.usePercent && isLabelInside ? `<span class="text-xs font-medium text-white drop-shadow-sm">
                 ${m.passed}/${m.total}
               </span>` : ""}
             </div>
-            ${!m.usePercent && !isLabelInside ? `<span class="absolute text-xs font-medium text-gray-600" style="left: calc(${m.percentage.toFixed(1)}% + 8px); top: 50%; transform: translateY(-50%);">
+            ${m.interval ? renderHorizontalWhisker(m.interval, theme) : ""}
+            ${!m.usePercent && !isLabelInside ? `<span class="absolute text-xs font-medium" style="color: ${theme.secondaryText}; left: calc(${labelAnchor.toFixed(1)}% + 8px); top: 50%; transform: translateY(-50%);">
               ${m.passed}/${m.total}
             </span>` : ""}`;
           })()}
           </div>
+          `}
+          ${renderReferenceMarkers(referenceLines)}
         </div>
       </div>`
   );
@@ -153,168 +599,917 @@ function renderHorizontalChart(
 }
 
 /**
- * Calculate layout dimensions based on content.
- * 
- * The background layer is always exactly 4:5 aspect ratio.
- * The card shrinks in width to fit, with fixed padding from background edges.
- * When min bar width is reached, background grows taller and card is centered via flexbox.
+ * Fill in default colors for reference lines from the built-in palette,
+ * and place each one on the chart's 0-100 scale.
  */
-export function calculateLayoutDimensions(
-  modelCount: number,
-  hasDescription: boolean,
-  showRankings: boolean
-): { barContainerWidth: number; cardWidth: number; cardHeight: number; backgroundWidth: number; backgroundHeight: number } {
-  // Calculate content height
-  const headerHeight = TITLE_HEIGHT + (hasDescription ? GAP_TITLE_SUBTITLE + DESCRIPTION_HEIGHT : 0);
-  // Footer always has branding line (same height whether sponsor exists or not, since they're side-by-side)
-  const footerHeight = BRANDING_HEIGHT;
-  
-  // Each bar row: label + gap + bar
-  const barRowHeight = BAR_LABEL_HEIGHT + GAP_LABEL_BAR + BAR_HEIGHT;
-  // Total chart height: bars + gaps between them
-  const chartHeight = (barRowHeight * modelCount) + (GAP_BETWEEN_BARS * (modelCount - 1));
-  
-  // Total card content height (without padding)
-  // Footer always exists (branding line is always shown)
-  const contentHeight = 
-    headerHeight + 
-    GAP_HEADER_CHART + 
-    chartHeight + 
-    GAP_CHART_FOOTER + 
-    footerHeight;
-  
-  // Fixed row width (icon + optional rank badge)
-  const fixedRowWidth = 
-    (showRankings ? RANK_BADGE_SIZE + GAP_RANK_ICON : 0) +
-    ICON_SIZE +
-    GAP_ICON_CONTENT;
-  
-  // Card height is always determined by content (tight fit)
-  const cardHeight = contentHeight + (PADDING_INNER * 2);
-  
-  // Calculate ideal card width based on content height and aspect ratio
-  // The card should be sized so that background (card + outer padding) is 4:5
-  // backgroundWidth = cardWidth + 2*PADDING_OUTER
-  // backgroundHeight = cardHeight + 2*PADDING_OUTER (in ideal case)
-  // For 4:5 ratio: backgroundWidth / backgroundHeight = 4/5
-  // So: (cardWidth + 2*PADDING_OUTER) / (cardHeight + 2*PADDING_OUTER) = 4/5
-  // cardWidth = (cardHeight + 2*PADDING_OUTER) * 4/5 - 2*PADDING_OUTER
-  
-  const idealBackgroundHeight = cardHeight + (PADDING_OUTER * 2);
-  const idealBackgroundWidth = idealBackgroundHeight * ASPECT_RATIO;
-  let cardWidth = idealBackgroundWidth - (PADDING_OUTER * 2);
-  let barContainerWidth = cardWidth - (PADDING_INNER * 2) - fixedRowWidth;
-  
-  // If bar container is too narrow, enforce minimum
-  if (barContainerWidth < MIN_BAR_CONTAINER_WIDTH) {
-    barContainerWidth = MIN_BAR_CONTAINER_WIDTH;
-    cardWidth = barContainerWidth + fixedRowWidth + (PADDING_INNER * 2);
-  }
-  
-  // Background is always 4:5, sized to fit the card with outer padding
-  const backgroundWidth = cardWidth + (PADDING_OUTER * 2);
-  const backgroundHeight = backgroundWidth / ASPECT_RATIO;
-  
-  return { barContainerWidth, cardWidth, cardHeight, backgroundWidth, backgroundHeight };
+function resolveReferenceLines(lines: ReferenceLine[] | undefined, domain: MetricDomain): ResolvedReferenceLine[] {
+  return (lines ?? []).map((line, i) => ({
+    ...line,
+    color: line.color ?? REFERENCE_LINE_COLORS[i % REFERENCE_LINE_COLORS.length],
+    position: normalizeValue(line.value, domain),
+  }));
 }
 
 /**
- * Render the chart as HTML.
- * 
- * @param config - The parsed input configuration
- * @param models - The processed and sorted models
- * @param options - Render options (standalone mode, etc.)
- * @returns HTML string (full document if standalone, chart div only if not)
+ * Render dashed vertical markers for reference lines across one row's bars.
+ * Must be placed inside the relatively positioned name + bar container, so
+ * markers start below the name row and leave the labels readable.
  */
-export function renderChart(
-  config: InputConfig,
-  models: ProcessedModel[],
-  options: RenderOptions
-): string {
-  const { mode, scale = 1 } = options;
-  const showRankings = config.showRankings;
-  const percentPrecision = config.percentPrecision;
-  
-  // Calculate layout dimensions based on content
-  const { barContainerWidth, cardWidth, backgroundWidth, backgroundHeight } = calculateLayoutDimensions(
-    models.length,
-    !!config.description,
-    showRankings
-  );
-  
-  const chartHtml = renderHorizontalChart(models, showRankings, percentPrecision, barContainerWidth);
+function renderReferenceMarkers(lines: ResolvedReferenceLine[]): string {
+  return lines.map((line) => `<div class="absolute" style="left: ${line.position.toFixed(2)}%; top: ${BAR_LABEL_HEIGHT + GAP_LABEL_BAR - REFERENCE_LINE_OVERHANG}px; bottom: -${REFERENCE_LINE_OVERHANG}px; border-left: ${REFERENCE_LINE_WIDTH}px dashed ${line.color}; transform: translateX(-50%);"></div>`).join("");
+}
 
-  // Use requested font, falling back to default if not available
-  const requestedFont = config.font ?? DEFAULT_FONT;
-  const fontKey: FontFamily = fonts[requestedFont] ? requestedFont : DEFAULT_FONT;
-  const fontName = fontDisplayNames[fontKey];
-  const fontDataUrl = fonts[fontKey];
-  const fontFamily = `'${fontName}', ui-sans-serif, system-ui, sans-serif`;
-  
-  // Always embed the selected font
-  const fontFaceRule = `
-    @font-face {
-      font-family: '${fontName}';
-      src: url(${fontDataUrl}) format('truetype');
-      font-weight: 400;
-      font-style: normal;
-      font-display: swap;
-    }
-  `;
+/**
+ * Render the reference line key shown under the header.
+ */
+function renderReferenceLegend(lines: ResolvedReferenceLine[], formatValue: FormatValue, theme: Theme): string {
+  const items = lines.map((line) => `
+        <div class="flex items-center gap-2">
+          <span class="shrink-0" style="width: ${REFERENCE_SWATCH_WIDTH}px; border-top: ${REFERENCE_LINE_WIDTH}px dashed ${line.color};"></span>
+          <span class="text-sm" style="color: ${theme.secondaryText};">${escapeHtml(line.label)} <span style="color: ${theme.faintText};">${formatValue(line.value)}</span></span>
+        </div>`);
+  return `<div class="flex items-center gap-4" style="height: ${LEGEND_HEIGHT}px; margin-top: ${GAP_HEADER_LEGEND}px;">${items.join("")}
+      </div>`;
+}
 
-  // Build the card content
-  const cardContent = `
-    <!-- Header -->
-    <div style="margin-bottom: ${GAP_HEADER_CHART}px;">
-      <h1 class="text-3xl font-bold text-gray-900">${escapeHtml(config.title)}</h1>
-      ${config.description ? `<p class="text-gray-500" style="margin-top: ${GAP_TITLE_SUBTITLE}px;">${escapeHtml(config.description)}</p>` : ""}
-    </div>
-    
-    <!-- Chart -->
-    <div class="flex-1">
-      ${chartHtml}
-    </div>
-    
-    <!-- Footer -->
-    <div class="flex justify-between items-end" style="margin-top: ${GAP_CHART_FOOTER}px;">
-      <p class="text-sm text-gray-400">Made with <a href="https://llmplot.com" target="_blank" class="font-semibold text-gray-600">llmplot.com</a></p>
-      ${
-        config.sponsoredBy
-          ? `<p class="text-sm text-gray-400 text-right">Sponsored by <span class="font-semibold text-gray-600">${escapeHtml(config.sponsoredBy)}</span></p>`
-          : ""
-      }
-    </div>
-  `;
+/**
+ * Format a score change (percentage points or metric units) with an explicit sign (e.g., "+3.1", "−0.5", "±0").
+ */
+function formatDelta(delta: number, percentPrecision: number): string {
+  const rounded = delta.toFixed(percentPrecision);
+  if (Number(rounded) === 0) return `±${Math.abs(Number(rounded)).toFixed(percentPrecision)}`;
+  return delta > 0 ? `+${rounded}` : `−${rounded.slice(1)}`;
+}
 
-  if (mode === 'web') {
-    // Web mode: Self-contained fragment with inlined CSS and embedded font
-    // Renders the same 4:5 background layer as CLI mode for consistent preview
-    const backgroundDiv = `
-      <div 
-        id="llmplot-background"
-        class="bg-gray-100 flex items-center justify-center"
-        style="width: ${backgroundWidth}px; height: ${backgroundHeight}px; padding: ${PADDING_OUTER}px; box-sizing: border-box;"
-      >
-        <div 
-          id="llmplot-chart" 
-          class="bg-white rounded-xl shadow-sm flex flex-col" 
-          style="font-family: ${fontFamily}; width: ${cardWidth}px; padding: ${PADDING_INNER}px;"
-        >
-          ${cardContent}
+/**
+ * Render one dumbbell dot centered on a percentage along the track.
+ * The previous score is a hollow ring, the current score a filled dot.
+ */
+function renderDumbbellDot(percentage: number, color: string, hollow: boolean, theme: Theme): string {
+  return `<div class="absolute rounded-full" style="left: ${percentage.toFixed(2)}%; top: 50%; width: ${DUMBBELL_DOT_SIZE}px; height: ${DUMBBELL_DOT_SIZE}px; transform: translate(-50%, -50%); box-sizing: border-box; ${hollow ? `background-color: ${theme.card}; border: ${DUMBBELL_DOT_BORDER}px solid ${color};` : `background-color: ${color};`}"></div>`;
+}
+
+/**
+ * Render before/after rows: a thin track per model with the previous score,
+ * the current score, a connecting line between them and a signed delta label.
+ * Rows share the horizontal chart's dimensions, so the layout is the same.
+ */
+function renderDumbbellChart(
+  models: ProcessedModel[],
+  showRankings: boolean,
+  percentPrecision: number,
+  formatValue: FormatValue,
+  higherIsBetter: boolean,
+  barContainerWidth: number,
+  referenceLines: ResolvedReferenceLine[],
+  theme: Theme
+): string {
+  const rows = models.map((m, index) => {
+    const color = getModelColor(m, theme);
+    const previous = m.previousPercentage!;
+    const delta = m.delta!;
+    const deltaLabel = formatDelta(delta, percentPrecision);
+    // Color by improvement, so a drop in latency reads as a gain
+    const improved = higherIsBetter ? deltaLabel.startsWith("+") : deltaLabel.startsWith("−");
+    const worsened = higherIsBetter ? deltaLabel.startsWith("−") : deltaLabel.startsWith("+");
+    const deltaColor = improved ? DELTA_UP_COLOR : worsened ? DELTA_DOWN_COLOR : DELTA_FLAT_COLOR;
+    const lineStart = Math.min(previous, m.percentage);
+    return `
+      ${renderGroupHeading(models, index, theme)}
+      <div${renderRowAttributes(m, index)} class="flex items-center" style="gap: ${GAP_ICON_CONTENT}px;${index > 0 && !startsGroup(models, index) ? ` margin-top: ${GAP_BETWEEN_BARS}px;` : ""}">
+        ${showRankings ? renderRankBadge(m, `margin-right: ${GAP_RANK_ICON - GAP_ICON_CONTENT}px;`, "below", theme) : ""}
+        <!-- Icon -->
+        <div class="shrink-0 flex items-center justify-center" style="width: ${ICON_SIZE}px; height: ${ICON_SIZE}px;">
+          <img src="${m.providerConfig.iconUrl}" alt="" style="width: ${ICON_SIZE}px; height: ${ICON_SIZE}px;${getIconDimStyle(m)}" />
         </div>
-      </div>
-    `;
+        
+        <!-- Name + Dumbbell stacked -->
+        <div class="relative" style="width: ${barContainerWidth}px;">
+          <!-- Name row with previous → current score and delta -->
+          <div class="flex items-baseline justify-between" style="height: ${BAR_LABEL_HEIGHT}px; margin-bottom: ${GAP_LABEL_BAR}px;">
+            <div class="flex items-baseline gap-2">
+              <span class="text-lg whitespace-nowrap${m.highlight ? " font-bold" : ""}" style="color: ${getNameColor(m, theme)};">${escapeHtml(m.displayLabel)}${renderFootnoteMarker(m, theme)}</span>
+              ${renderCallout(m, theme)}
+              ${m.paramsLabel ? `<span class="text-sm" style="color: ${theme.faintText};">${escapeHtml(m.paramsLabel)}</span>` : ""}
+            </div>
+            <div class="flex items-baseline gap-2">
+              <span class="text-sm" style="color: ${theme.faintText};">${formatValue(m.previousValue!)} →</span>
+              <span class="font-semibold text-lg" style="color: ${getLabelColor(m, theme)};">${formatValue(m.value)}</span>
+              <span class="text-sm font-semibold" style="color: ${deltaColor};">${deltaLabel}</span>
+            </div>
+          </div>
+          
+          <!-- Track with connecting line and both dots -->
+          <div class="relative" style="height: ${BAR_HEIGHT}px;">
+            <div class="absolute w-full rounded-full" style="background-color: ${theme.track}; top: 50%; height: ${DUMBBELL_LINE_HEIGHT}px; transform: translateY(-50%);"></div>
+            <div class="absolute rounded-full" style="left: ${lineStart.toFixed(2)}%; width: ${Math.abs(m.percentage - previous).toFixed(2)}%; top: 50%; height: ${DUMBBELL_LINE_HEIGHT}px; transform: translateY(-50%); background-color: ${color};"></div>
+            ${renderDumbbellDot(previous, color, true, theme)}
+            ${renderDumbbellDot(m.percentage, color, false, theme)}
+          </div>
+          ${renderReferenceMarkers(referenceLines)}
+        </div>
+      </div>`;
+  });
+  return `<div class="flex flex-col">${rows.join("\n")}</div>`;
+}
 
-    const rawHtml = scale !== 1
-      ? `
-      <style>${fontFaceRule}</style>
-      <div style="width: ${backgroundWidth * scale}px; height: ${backgroundHeight * scale}px; overflow: hidden;">
-        <div style="transform: scale(${scale}); transform-origin: top left;">
-          ${backgroundDiv}
+/**
+ * Render the previous/current key shown under the header of dumbbell charts.
+ */
+function renderDumbbellLegend(theme: Theme): string {
+  const ringStyle = `width: ${LEGEND_SWATCH_SIZE}px; height: ${LEGEND_SWATCH_SIZE}px; box-sizing: border-box;`;
+  return `<div class="flex items-center gap-4" style="height: ${LEGEND_HEIGHT}px; margin-top: ${GAP_HEADER_LEGEND}px;">
+        <div class="flex items-center gap-2">
+          <span class="rounded-full shrink-0" style="${ringStyle} border: 2px solid ${theme.mutedText};"></span>
+          <span class="text-sm" style="color: ${theme.secondaryText};">Previous</span>
         </div>
-      </div>
-    `
-      : `
+        <div class="flex items-center gap-2">
+          <span class="rounded-full shrink-0" style="${ringStyle} background-color: ${theme.mutedText};"></span>
+          <span class="text-sm" style="color: ${theme.secondaryText};">Current</span>
+        </div>
+      </div>`;
+}
+
+/**
+ * Render one thin bar per benchmark, stacked under the model name.
+ * The value sits inside the fill when there's room, otherwise just after it.
+ */
+function renderGroupedBars(scores: ProcessedBenchmarkScore[], percentPrecision: number, dimmed: boolean, theme: Theme): string {
+  return scores.map((s, i) => {
+    const label = `${s.percentage.toFixed(percentPrecision)}%`;
+    const isLabelInside = s.percentage >= GROUPED_LABEL_INSIDE_THRESHOLD;
+    return `<div class="relative rounded-full overflow-visible" style="background-color: ${theme.track}; height: ${GROUPED_BAR_HEIGHT}px;${i > 0 ? ` margin-top: ${GAP_GROUPED_BARS}px;` : ""}">
+            <div 
+              class="h-full rounded-full${isLabelInside ? " flex items-center justify-end pr-2" : ""}"
+              style="width: ${s.percentage.toFixed(1)}%; background-color: ${dimmed ? muteColor(s.color, theme) : s.color};"
+            >
+              ${isLabelInside ? `<span class="text-xs font-medium text-white drop-shadow-sm">${label}</span>` : ""}
+            </div>
+            ${!isLabelInside ? `<span class="absolute text-xs font-medium" style="color: ${theme.secondaryText}; left: calc(${s.percentage.toFixed(1)}% + 8px); top: 50%; transform: translateY(-50%);">${label}</span>` : ""}
+          </div>`;
+  }).join("\n");
+}
+
+/**
+ * Render side-by-side benchmark bars for a vertical column.
+ * Values are rotated to read bottom-to-top so they fit above narrow bars.
+ */
+function renderGroupedColumns(scores: ProcessedBenchmarkScore[], percentPrecision: number, dimmed: boolean, theme: Theme): string {
+  const tracks = scores.map((s) => `
+          <div class="relative rounded-full overflow-visible" style="background-color: ${theme.track}; width: ${COLUMN_GROUPED_BAR_WIDTH}px; height: ${COLUMN_PLOT_HEIGHT}px;">
+            <div class="absolute bottom-0 left-0 w-full rounded-full" style="height: ${s.percentage.toFixed(1)}%; background-color: ${dimmed ? muteColor(s.color, theme) : s.color};"></div>
+            <span class="absolute text-xs font-medium whitespace-nowrap" style="color: ${theme.secondaryText}; left: 50%; bottom: calc(${s.percentage.toFixed(1)}% + ${GAP_LABEL_BAR}px); writing-mode: vertical-rl; transform: translateX(-50%) rotate(180deg);">${s.percentage.toFixed(percentPrecision)}%</span>
+          </div>`);
+  return `<div class="flex items-end" style="gap: ${GAP_GROUPED_BARS}px; margin-top: ${COLUMN_VALUE_HEIGHT}px;">${tracks.join("")}
+        </div>`;
+}
+
+/**
+ * Render the benchmark legend shown under the header of grouped charts.
+ */
+function renderBenchmarkLegend(scores: ProcessedBenchmarkScore[], theme: Theme): string {
+  const items = scores.map((s) => `
+        <div class="flex items-center gap-2">
+          <span class="rounded-full shrink-0" style="width: ${LEGEND_SWATCH_SIZE}px; height: ${LEGEND_SWATCH_SIZE}px; background-color: ${s.color};"></span>
+          <span class="text-sm" style="color: ${theme.secondaryText};">${escapeHtml(s.label)}</span>
+        </div>`);
+  return `<div class="flex items-center gap-4" style="height: ${LEGEND_HEIGHT}px; margin-top: ${GAP_HEADER_LEGEND}px;">${items.join("")}
+      </div>`;
+}
+
+/**
+ * Number of benchmarks in a grouped chart, or 0 for single-score charts.
+ */
+function getBenchmarkCount(models: ProcessedModel[]): number {
+  return models[0]?.benchmarkScores?.length ?? 0;
+}
+
+/**
+ * Minimum column width for vertical charts.
+ * Grouped columns need room for every benchmark bar side by side.
+ */
+function getMinColumnWidth(benchmarkCount: number): number {
+  if (benchmarkCount === 0) return COLUMN_MIN_WIDTH;
+  const groupWidth = (COLUMN_GROUPED_BAR_WIDTH * benchmarkCount) + (GAP_GROUPED_BARS * (benchmarkCount - 1));
+  return Math.max(COLUMN_MIN_WIDTH, groupWidth);
+}
+
+function renderVerticalChart(
+  models: ProcessedModel[],
+  showRankings: boolean,
+  percentPrecision: number,
+  formatValue: FormatValue,
+  columnWidth: number,
+  referenceLines: ResolvedReferenceLine[],
+  theme: Theme
+): string {
+  const barWidth = Math.min(columnWidth, COLUMN_BAR_MAX_WIDTH);
+  const columns = models.map(
+    (m, index) => `
+      <div${renderRowAttributes(m, index)} class="flex flex-col items-center shrink-0" style="width: ${columnWidth}px;${index > 0 ? ` margin-left: ${GAP_BETWEEN_COLUMNS}px;` : ""}">
+        ${showRankings ? renderRankBadge(m, `margin-bottom: ${GAP_RANK_VALUE}px;`, "right", theme) : ""}
+        ${m.benchmarkScores ? `
+        <!-- One bar per benchmark -->
+        ${renderGroupedColumns(m.benchmarkScores, percentPrecision, m.dimmed, theme)}
+        ` : `
+        <!-- Bar track (value labels float above the fill, inside the reserved space) -->
+        <div class="relative rounded-full overflow-visible" style="background-color: ${theme.track}; width: ${barWidth}px; height: ${COLUMN_PLOT_HEIGHT}px; margin-top: ${COLUMN_VALUE_HEIGHT}px;">
+          <div 
+            class="absolute bottom-0 left-0 w-full rounded-full"
+            style="height: ${m.percentage.toFixed(1)}%; background-color: ${getModelColor(m, theme)};"
+          ></div>
+          ${m.interval ? renderVerticalWhisker(m.interval, theme) : ""}
+          <div class="absolute flex flex-col items-center" style="left: 50%; bottom: calc(${Math.max(m.percentage, m.interval?.high ?? 0).toFixed(1)}% + ${GAP_LABEL_BAR}px); transform: translateX(-50%);">
+            <span class="font-semibold text-lg whitespace-nowrap" style="line-height: 24px; color: ${getLabelColor(m, theme)};">${formatValue(m.value)}</span>
+            ${!m.usePercent ? `<span class="text-xs font-medium whitespace-nowrap" style="line-height: 16px; color: ${theme.secondaryText};">${m.passed}/${m.total}</span>` : ""}
+          </div>
+        </div>
+        `}
+
+        <!-- Icon -->
+        <div class="shrink-0 flex items-center justify-center" style="width: ${ICON_SIZE}px; height: ${ICON_SIZE}px; margin-top: ${GAP_BAR_ICON}px;">
+          <img src="${m.providerConfig.iconUrl}" alt="" style="width: ${ICON_SIZE}px; height: ${ICON_SIZE}px;${getIconDimStyle(m)}" />
+        </div>
+
+        <!-- Name + params, wrapped under the icon -->
+        <div class="w-full text-sm${m.highlight ? " font-bold" : ""} text-center overflow-hidden" style="color: ${getNameColor(m, theme)}; height: ${COLUMN_LABEL_HEIGHT}px; margin-top: ${GAP_ICON_LABEL}px; line-height: 20px; overflow-wrap: anywhere;">${escapeHtml(m.displayLabel)}${renderFootnoteMarker(m, theme)}</div>
+        <div class="w-full text-xs text-center overflow-hidden" style="color: ${theme.faintText}; height: ${COLUMN_PARAMS_HEIGHT}px; line-height: 16px;">${m.paramsLabel ? escapeHtml(m.paramsLabel) : ""}${m.callout ? `<div class="truncate font-semibold" style="color: ${getModelColor(m, theme)};">${escapeHtml(m.callout)}</div>` : ""}</div>
+      </div>`
+  );
+  // Reference lines run across every column, level with the value on the tracks
+  const trackTop = (showRankings ? RANK_BADGE_SIZE + GAP_RANK_VALUE : 0) + COLUMN_VALUE_HEIGHT;
+  const markers = referenceLines.map((line) => {
+    const top = trackTop + (1 - line.position / 100) * COLUMN_PLOT_HEIGHT;
+    return `<div class="absolute" style="top: ${top.toFixed(1)}px; left: -${REFERENCE_LINE_OVERHANG}px; right: -${REFERENCE_LINE_OVERHANG}px; border-top: ${REFERENCE_LINE_WIDTH}px dashed ${line.color}; transform: translateY(-50%);"></div>`;
+  });
+  return `<div class="relative flex items-start">${columns.join("\n")}${markers.join("")}</div>`;
+}
+
+/**
+ * Format a scatter x-axis tick label for the given metric
+ * (e.g., 1000 params → "1T", 0.5 cost → "$0.5", 1500 latency → "1.5s").
+ */
+function formatScatterTick(value: number, xAxis: ScatterXAxis): string {
+  switch (xAxis) {
+    case "totalParams":
+    case "activeParams":
+      if (value >= 1000) return `${value / 1000}T`;
+      if (value < 1) return `${value * 1000}M`;
+      return `${value}B`;
+    case "costPerRun":
+    case "costPerMillionInput":
+    case "costPerMillionOutput":
+      return `$${value}`;
+    case "latencyMs":
+      return value >= 1000 ? `${value / 1000}s` : `${value}ms`;
+  }
+}
+
+/**
+ * Log-scale domain snapped to whole decades, with ticks at each decade
+ * (plus 2x and 5x ticks when the domain spans two decades or fewer).
+ */
+function getLogDomain(values: number[]): { min: number; max: number; ticks: number[] } {
+  const minExp = Math.floor(Math.log10(Math.min(...values)));
+  let maxExp = Math.ceil(Math.log10(Math.max(...values)));
+  if (maxExp === minExp) maxExp += 1;
+
+  const ticks: number[] = [];
+  for (let e = minExp; e <= maxExp; e++) {
+    const decade = Math.pow(10, e);
+    ticks.push(decade);
+    if (maxExp - minExp <= 2 && e < maxExp) {
+      ticks.push(decade * 2, decade * 5);
+    }
+  }
+  // Round away floating point noise (e.g., 0.30000000000000004)
+  const clean = ticks.map((t) => parseFloat(t.toPrecision(6)));
+  return { min: Math.pow(10, minExp), max: Math.pow(10, maxExp), ticks: clean };
+}
+
+/**
+ * Linear percentage domain snapped to multiples of 10 within 0-100.
+ */
+function getPercentDomain(values: number[]): { min: number; max: number; ticks: number[] } {
+  let min = Math.max(0, Math.floor(Math.min(...values) / 10) * 10);
+  let max = Math.min(100, Math.ceil(Math.max(...values) / 10) * 10);
+  if (max - min < 20) {
+    // Keep at least two gridlines of context around tightly clustered scores
+    min = Math.max(0, min - 10);
+    max = Math.min(100, min + 30);
+  }
+  const step = max - min > 60 ? 20 : 10;
+  const ticks: number[] = [];
+  for (let t = min; t <= max; t += step) ticks.push(t);
+  return { min, max, ticks };
+}
+
+/**
+ * Pareto frontier: models with a strictly better score than every model
+ * with the same or smaller x value, in ascending x order.
+ */
+function getParetoFrontier<T extends { x: number; y: number }>(points: T[], higherIsBetter: boolean): T[] {
+  const direction = higherIsBetter ? 1 : -1;
+  const sorted = [...points].sort((a, b) => a.x - b.x || direction * (b.y - a.y));
+  const frontier: T[] = [];
+  let best = -Infinity;
+  for (const p of sorted) {
+    if (direction * p.y > best) {
+      frontier.push(p);
+      best = direction * p.y;
+    }
+  }
+  return frontier;
+}
+
+/**
+ * Render a score-vs-metric (parameters, cost or latency) scatter plot as inline SVG.
+ * Provider icons are the markers; the Pareto frontier is drawn as a dashed line.
+ */
+function renderScatterChart(
+  models: ProcessedModel[],
+  xAxis: ScatterXAxis,
+  formatValue: FormatValue,
+  formatTick: FormatValue,
+  higherIsBetter: boolean,
+  chartWidth: number,
+  referenceLines: ResolvedReferenceLine[],
+  theme: Theme
+): string {
+  const points = models.map((m) => ({ m, x: m.xValue!, y: m.percentage }));
+  const xDomain = getLogDomain(points.map((p) => p.x));
+  // Reference lines widen the score domain so they are always in view
+  const yDomain = getPercentDomain([...points.map((p) => p.y), ...referenceLines.map((line) => line.position)]);
+
+  const plotLeft = SCATTER_Y_AXIS_WIDTH;
+  const plotWidth = chartWidth - SCATTER_Y_AXIS_WIDTH;
+  const logMin = Math.log10(xDomain.min);
+  const logMax = Math.log10(xDomain.max);
+  const xScale = (v: number) =>
+    plotLeft + SCATTER_PLOT_PADDING + ((Math.log10(v) - logMin) / (logMax - logMin)) * (plotWidth - SCATTER_PLOT_PADDING * 2);
+  const yScale = (v: number) =>
+    SCATTER_PLOT_PADDING + (1 - (v - yDomain.min) / (yDomain.max - yDomain.min)) * (SCATTER_PLOT_HEIGHT - SCATTER_PLOT_PADDING * 2);
+
+  const yGrid = yDomain.ticks.map((t) => `
+      <line x1="${plotLeft}" x2="${chartWidth}" y1="${yScale(t).toFixed(1)}" y2="${yScale(t).toFixed(1)}" stroke="${theme.track}" stroke-width="1" />
+      <text x="${plotLeft - 8}" y="${yScale(t).toFixed(1)}" fill="${theme.faintText}" font-size="12" text-anchor="end" dominant-baseline="central">${formatTick(t)}</text>`);
+
+  const xGrid = xDomain.ticks.map((t) => `
+      <line x1="${xScale(t).toFixed(1)}" x2="${xScale(t).toFixed(1)}" y1="0" y2="${SCATTER_PLOT_HEIGHT}" stroke="${theme.track}" stroke-width="1" />
+      <text x="${xScale(t).toFixed(1)}" y="${SCATTER_PLOT_HEIGHT + 16}" fill="${theme.faintText}" font-size="12" text-anchor="middle">${formatScatterTick(t, xAxis)}</text>`);
+
+  const frontier = getParetoFrontier(points, higherIsBetter);
+  const frontierSet = new Set(frontier.map((p) => p.m));
+  const frontierLine = frontier.length > 1
+    ? `<polyline points="${frontier.map((p) => `${xScale(p.x).toFixed(1)},${yScale(p.y).toFixed(1)}`).join(" ")}" fill="none" stroke="${theme.mutedText}" stroke-width="2" stroke-dasharray="6 4" />`
+    : "";
+
+  const referenceMarkers = referenceLines.map((line) => `
+      <line x1="${plotLeft}" x2="${chartWidth}" y1="${yScale(line.position).toFixed(1)}" y2="${yScale(line.position).toFixed(1)}" stroke="${line.color}" stroke-width="${REFERENCE_LINE_WIDTH}" stroke-dasharray="6 4" />`);
+
+  const half = SCATTER_MARKER_SIZE / 2;
+  const markers = points.map((p, index) => {
+    const cx = xScale(p.x);
+    const cy = yScale(p.y);
+    // Labels sit right of the marker, or left of it near the right edge
+    const labelOnLeft = cx > chartWidth - 140;
+    const labelX = labelOnLeft ? cx - half - 6 : cx + half + 6;
+    return `
+      <g${renderRowAttributes(p.m, index)}>
+      <image href="${p.m.providerConfig.iconUrl}" x="${(cx - half).toFixed(1)}" y="${(cy - half).toFixed(1)}" width="${SCATTER_MARKER_SIZE}" height="${SCATTER_MARKER_SIZE}"${p.m.dimmed ? ` style="${getIconDimStyle(p.m).trim()}"` : ""} />
+      <text x="${labelX.toFixed(1)}" y="${cy.toFixed(1)}" fill="${getLabelColor(p.m, theme)}" font-size="13" font-weight="${p.m.highlight || frontierSet.has(p.m) ? 700 : 400}" text-anchor="${labelOnLeft ? "end" : "start"}" dominant-baseline="central">${escapeHtml(p.m.displayLabel)}${p.m.footnoteNumber ? `<tspan fill="${theme.faintText}" font-size="9" baseline-shift="super">${p.m.footnoteNumber}</tspan>` : ""} <tspan fill="${theme.faintText}">${formatValue(p.m.value)}</tspan>${p.m.callout ? ` <tspan fill="${getModelColor(p.m, theme)}" font-weight="700">${escapeHtml(p.m.callout)}</tspan>` : ""}</text>
+      </g>`;
+  });
+
+  return `<svg width="${chartWidth}" height="${SCATTER_PLOT_HEIGHT + SCATTER_X_AXIS_HEIGHT}" viewBox="0 0 ${chartWidth} ${SCATTER_PLOT_HEIGHT + SCATTER_X_AXIS_HEIGHT}" xmlns="http://www.w3.org/2000/svg" style="display: block; overflow: visible;">
+      ${yGrid.join("")}
+      ${xGrid.join("")}
+      ${referenceMarkers.join("")}
+      ${frontierLine}
+      ${markers.join("")}
+      <text x="${plotLeft + plotWidth / 2}" y="${SCATTER_PLOT_HEIGHT + SCATTER_X_AXIS_HEIGHT - 4}" fill="${theme.faintText}" font-size="12" text-anchor="middle">${scatterAxisTitles[xAxis]}</text>
+    </svg>`;
+}
+
+/**
+ * Resolve the requested font, falling back to the default if it isn't available.
+ */
+function getFontKey(config: InputConfig): FontFamily {
+  const requestedFont = config.font ?? DEFAULT_FONT;
+  return fonts[requestedFont] ? requestedFont : DEFAULT_FONT;
+}
+
+/** Page marker for carousels, e.g. "1/3" */
+function formatPageMarker(page: number, pageCount: number): string {
+  return `${page + 1}/${pageCount}`;
+}
+
+function createFormatValue(config: InputConfig): FormatValue {
+  return (value) => formatMetricValue(value, config.metric, config.percentPrecision);
+}
+
+/** Axis ticks are whole numbers when they land on one (e.g., "20%", "400 Elo") */
+function createFormatTick(config: InputConfig, domain: MetricDomain): FormatValue {
+  return (position) => {
+    const value = parseFloat(denormalizeValue(position, domain).toPrecision(6));
+    return formatMetricValue(value, config.metric, Number.isInteger(value) ? 0 : config.percentPrecision);
+  };
+}
+
+/**
+ * Footer note describing derived error bars, or undefined when none are drawn.
+ * Explicit ciLow/ciHigh come from the user's own method, so they aren't described;
+ * dumbbell charts and scatter plots don't draw error bars.
+ */
+function getErrorBarNote(config: InputConfig, models: ProcessedModel[]): string | undefined {
+  const drawsErrorBars = config.chartType !== "dumbbell" && config.chartType !== "scatter";
+  return config.errorBars && config.errorBars !== "none" && drawsErrorBars && models.some((m) => m.interval)
+    ? errorBarNotes[config.errorBars]
+    : undefined;
+}
+
+function measureFootnoteMarker(m: ProcessedModel, font: FontFamily, fontSize: number): number {
+  return m.footnoteNumber ? measureText(String(m.footnoteNumber), font, fontSize * SUPERSCRIPT_SCALE) : 0;
+}
+
+/**
+ * Width of a horizontal row's label line apart from the model name: footnote marker,
+ * callout badge, params label, and the value (or dumbbell scores) on the right.
+ */
+function measureRowLabelExtras(
+  m: ProcessedModel,
+  isDumbbell: boolean,
+  formatValue: FormatValue,
+  percentPrecision: number,
+  font: FontFamily
+): number {
+  let width = measureFootnoteMarker(m, font, TEXT_LG) + GAP_LABEL_VALUE;
+  if (m.callout) {
+    width += GAP_LABEL_ITEMS + measureText(m.callout, font, TEXT_XS, true) + (CALLOUT_PADDING_X * 2);
+  }
+  if (m.paramsLabel) {
+    width += GAP_LABEL_ITEMS + measureText(m.paramsLabel, font, TEXT_SM);
+  }
+  if (isDumbbell) {
+    width +=
+      measureText(`${formatValue(m.previousValue!)} →`, font, TEXT_SM) + GAP_LABEL_ITEMS +
+      measureText(formatValue(m.value), font, TEXT_LG, true) + GAP_LABEL_ITEMS +
+      measureText(formatDelta(m.delta!, percentPrecision), font, TEXT_SM, true);
+  } else if (!m.benchmarkScores) {
+    width += measureText(formatValue(m.value), font, TEXT_LG, true);
+  }
+  return width;
+}
+
+/**
+ * Width a horizontal row needs to show its whole label line.
+ */
+function measureRowLabel(
+  m: ProcessedModel,
+  isDumbbell: boolean,
+  formatValue: FormatValue,
+  percentPrecision: number,
+  font: FontFamily
+): number {
+  return measureText(m.displayLabel, font, TEXT_LG, m.highlight) + measureRowLabelExtras(m, isDumbbell, formatValue, percentPrecision, font);
+}
+
+/** Column labels are measured with whitespace collapsed, as the browser lays them out */
+function normalizeLabel(label: string): string {
+  return label.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Narrowest column (up to COLUMN_MAX_LABEL_WIDTH) that wraps the model name onto two lines.
+ */
+function getColumnLabelWidth(m: ProcessedModel, font: FontFamily): number {
+  const label = normalizeLabel(m.displayLabel);
+  const marker = measureFootnoteMarker(m, font, TEXT_SM);
+  let width = COLUMN_MIN_WIDTH;
+  while (width < COLUMN_MAX_LABEL_WIDTH && wrapText(label, width - marker, font, TEXT_SM, m.highlight).length > COLUMN_LABEL_LINES) {
+    width += 4;
+  }
+  return width;
+}
+
+/**
+ * Lines the title and description wrap onto at a given card content width.
+ * The title's width is conservative: the logo always counts at its max width.
+ */
+function measureHeaderLines(
+  config: InputConfig,
+  contentWidth: number,
+  font: FontFamily,
+  pageCount: number
+): { titleLines: number; descriptionLines: number } {
+  const titleWidth =
+    contentWidth -
+    (config.logo ? LOGO_MAX_WIDTH + GAP_LOGO_TITLE : 0) -
+    (!isHigherBetter(config) ? measureText(LOWER_IS_BETTER_NOTE, font, TEXT_SM) + GAP_TITLE_NOTE : 0) -
+    (pageCount > 1 ? measureText(formatPageMarker(pageCount - 1, pageCount), font, TEXT_SM, true) + GAP_TITLE_NOTE : 0);
+  return {
+    titleLines: wrapText(config.title, titleWidth, font, TEXT_3XL, true).length,
+    descriptionLines: config.description ? wrapText(config.description, contentWidth, font, TEXT_BASE).length : 0,
+  };
+}
+
+/**
+ * Shorten model names that don't fit their row (one line) or column (two lines) with an ellipsis.
+ * Scatter labels are left alone.
+ */
+function fitModelLabels(config: InputConfig, models: ProcessedModel[], barContainerWidth: number, font: FontFamily): ProcessedModel[] {
+  if (config.chartType === "scatter") return models;
+  const isDumbbell = config.chartType === "dumbbell";
+  const isVertical = !isDumbbell && config.orientation === "vertical";
+  const formatValue = createFormatValue(config);
+
+  return models.map((m) => {
+    let displayLabel: string;
+    if (isVertical) {
+      const label = normalizeLabel(m.displayLabel);
+      const width = barContainerWidth - measureFootnoteMarker(m, font, TEXT_SM);
+      const lines = wrapText(label, width, font, TEXT_SM, m.highlight);
+      // Keep the first line as wrapped and truncate whatever would spill past the second
+      displayLabel = lines.length <= COLUMN_LABEL_LINES
+        ? m.displayLabel
+        : lines[0] + truncateText(label.slice(lines[0].length), width, font, TEXT_SM, m.highlight);
+    } else {
+      const extras = measureRowLabelExtras(m, isDumbbell, formatValue, config.percentPrecision, font);
+      displayLabel = truncateText(m.displayLabel, barContainerWidth - extras, font, TEXT_LG, m.highlight);
+    }
+    return displayLabel === m.displayLabel ? m : { ...m, displayLabel };
+  });
+}
+
+/**
+ * Calculate layout dimensions for one page based on content.
+ * 
+ * The background layer has exactly the configured aspect ratio (4:5 by default).
+ * The card stretches or shrinks in width to fill it, with fixed padding from background edges.
+ * When min bar width is reached, background grows taller and card is centered via flexbox.
+ * With "auto" the card is sized as for 4:5 and the background is cropped tight around it.
+ * 
+ * In horizontal orientation `barContainerWidth` is the width of each bar track.
+ * In vertical orientation it is the width of each column; the chart height is
+ * then fixed and the card only grows wider once columns hit their minimum width.
+ * For scatter charts it is the width of the whole plot, including the y-axis.
+ * Dumbbell charts use the horizontal layout, with one track per row.
+ *
+ * Text is measured from the embedded font: the header grows when the title or
+ * description wraps, and rows and columns widen (up to a cap) to fit long names.
+ */
+function calculatePageLayout(
+  config: InputConfig,
+  models: ProcessedModel[],
+  page: ProcessedModel[],
+  slots: number,
+  pageCount: number,
+  showOthersRow: boolean
+): LayoutDimensions {
+  // Every page reserves room for the fullest page's models
+  const modelCount = slots;
+  const showRankings = config.showRankings;
+  const isScatter = config.chartType === "scatter";
+  const isDumbbell = config.chartType === "dumbbell";
+  // Dumbbell rows are always horizontal
+  const orientation = isDumbbell ? "horizontal" : config.orientation ?? "horizontal";
+  const benchmarkCount = isScatter ? 0 : getBenchmarkCount(models);
+  const aspectRatio = config.aspectRatio ?? DEFAULT_ASPECT_RATIO;
+  const ratio = ASPECT_RATIOS[aspectRatio === "auto" ? DEFAULT_ASPECT_RATIO : aspectRatio];
+  const font = getFontKey(config);
+
+  // Header height without the title and description, whose line counts depend on the card width
+  const legendsHeight =
+    (benchmarkCount > 0 || isDumbbell ? GAP_HEADER_LEGEND + LEGEND_HEIGHT : 0) +
+    (config.referenceLines?.length ? GAP_HEADER_LEGEND + LEGEND_HEIGHT : 0);
+  // Footer always has branding line (same height whether sponsor exists or not, since they're side-by-side)
+  // This page's footnotes and the data source sit above it, one line each
+  const footerLineCount = getFootnotes(config, page).length + (config.source ? 1 : 0);
+  const footerHeight =
+    BRANDING_HEIGHT +
+    (footerLineCount > 0 ? (FOOTNOTE_LINE_HEIGHT * footerLineCount) + GAP_FOOTNOTES_BRANDING : 0);
+  
+  let chartHeight: number;
+  if (isScatter) {
+    chartHeight = SCATTER_PLOT_HEIGHT + SCATTER_X_AXIS_HEIGHT;
+  } else if (orientation === "vertical") {
+    // Every column has the same height: badge + value space + track + icon + labels
+    chartHeight =
+      (showRankings ? RANK_BADGE_SIZE + GAP_RANK_VALUE : 0) +
+      COLUMN_VALUE_HEIGHT +
+      COLUMN_PLOT_HEIGHT +
+      GAP_BAR_ICON +
+      ICON_SIZE +
+      GAP_ICON_LABEL +
+      COLUMN_LABEL_HEIGHT +
+      COLUMN_PARAMS_HEIGHT;
+  } else {
+    // Each bar row: label + gap + bar (or one bar per benchmark)
+    const barsHeight = benchmarkCount > 0
+      ? (GROUPED_BAR_HEIGHT * benchmarkCount) + (GAP_GROUPED_BARS * (benchmarkCount - 1))
+      : BAR_HEIGHT;
+    const barRowHeight = BAR_LABEL_HEIGHT + GAP_LABEL_BAR + barsHeight;
+    // Total chart height: bars + gaps between them + group subheadings
+    chartHeight = (barRowHeight * modelCount) + (GAP_BETWEEN_BARS * (modelCount - 1)) + getGroupHeadingsHeight(page);
+  }
+  if (showOthersRow) {
+    chartHeight += GAP_OTHERS_ROW + OTHERS_ROW_HEIGHT;
+  }
+  
+  // Fixed row width (icon + optional rank badge)
+  const fixedRowWidth = getFixedRowWidth(showRankings);
+
+  // Widen rows and columns so names fit in full, up to a cap (longer names are truncated when rendering)
+  const formatValue = createFormatValue(config);
+  const minBarContainerWidth = Math.max(
+    MIN_BAR_CONTAINER_WIDTH,
+    Math.min(MAX_LABEL_BAR_CONTAINER_WIDTH, ...page.map((m) => measureRowLabel(m, isDumbbell, formatValue, config.percentPrecision, font)))
+  );
+  const minColumnWidth = Math.max(
+    getMinColumnWidth(benchmarkCount),
+    ...page.map((m) => getColumnLabelWidth(m, font))
+  );
+
+  // A longer title or description wraps onto more lines, making the card taller and (at a
+  // fixed ratio) wider, so re-measure until the reserved line counts hold. Extra lines only
+  // ever widen the card, so the counts settle after a pass or two.
+  let titleLines = 1;
+  let descriptionLines = config.description ? 1 : 0;
+  for (;;) {
+    const headerHeight =
+      (TITLE_HEIGHT * titleLines) +
+      (config.description ? GAP_TITLE_SUBTITLE + (DESCRIPTION_HEIGHT * descriptionLines) : 0) +
+      legendsHeight;
+
+    // Total card content height (without padding)
+    // Footer always exists (branding line is always shown)
+    const contentHeight = 
+      headerHeight + 
+      GAP_HEADER_CHART + 
+      chartHeight + 
+      GAP_CHART_FOOTER + 
+      footerHeight;
+    
+    // Card height is always determined by content (tight fit)
+    const cardHeight = contentHeight + (PADDING_INNER * 2);
+    
+    // Calculate ideal card width based on content height and aspect ratio
+    // The card should be sized so that background (card + outer padding) has the target ratio
+    // backgroundWidth = cardWidth + 2*PADDING_OUTER
+    // backgroundHeight = cardHeight + 2*PADDING_OUTER (in ideal case)
+    // backgroundWidth / backgroundHeight = ratio
+    // So: (cardWidth + 2*PADDING_OUTER) / (cardHeight + 2*PADDING_OUTER) = ratio
+    // cardWidth = (cardHeight + 2*PADDING_OUTER) * ratio - 2*PADDING_OUTER
+    
+    const idealBackgroundHeight = cardHeight + (PADDING_OUTER * 2);
+    const idealBackgroundWidth = idealBackgroundHeight * ratio;
+    let cardWidth = idealBackgroundWidth - (PADDING_OUTER * 2);
+    let barContainerWidth: number;
+
+    if (isScatter) {
+      // The plot spans the full card width
+      barContainerWidth = cardWidth - (PADDING_INNER * 2);
+
+      if (barContainerWidth < SCATTER_MIN_WIDTH) {
+        barContainerWidth = SCATTER_MIN_WIDTH;
+        cardWidth = barContainerWidth + (PADDING_INNER * 2);
+      }
+    } else if (orientation === "vertical") {
+      // Columns share the chart width evenly
+      const columnGaps = GAP_BETWEEN_COLUMNS * (modelCount - 1);
+      barContainerWidth = (cardWidth - (PADDING_INNER * 2) - columnGaps) / modelCount;
+
+      // If columns are too narrow, enforce minimum
+      if (barContainerWidth < minColumnWidth) {
+        barContainerWidth = minColumnWidth;
+        cardWidth = (barContainerWidth * modelCount) + columnGaps + (PADDING_INNER * 2);
+      }
+    } else {
+      barContainerWidth = cardWidth - (PADDING_INNER * 2) - fixedRowWidth;
+
+      // If bar container is too narrow, enforce minimum
+      if (barContainerWidth < minBarContainerWidth) {
+        barContainerWidth = minBarContainerWidth;
+        cardWidth = barContainerWidth + fixedRowWidth + (PADDING_INNER * 2);
+      }
+    }
+
+    const measured = measureHeaderLines(config, cardWidth - (PADDING_INNER * 2), font, pageCount);
+    if (measured.titleLines > titleLines || measured.descriptionLines > descriptionLines) {
+      titleLines = Math.max(titleLines, measured.titleLines);
+      descriptionLines = Math.max(descriptionLines, measured.descriptionLines);
+      continue;
+    }
+    
+    // Background keeps the ratio, sized to fit the card with outer padding
+    // A card widened to its minimum makes it taller than the card, which is centered
+    const backgroundWidth = cardWidth + (PADDING_OUTER * 2);
+    const backgroundHeight = aspectRatio === "auto"
+      ? cardHeight + (PADDING_OUTER * 2)
+      : backgroundWidth / ratio;
+    
+    return { barContainerWidth, cardWidth, cardHeight, backgroundWidth, backgroundHeight };
+  }
+}
+
+/**
+ * Calculate the layout shared by every page of the chart.
+ * A carousel's pages all come out the same size: each reserves room for the fullest
+ * page's models, and the largest dimension across pages wins.
+ */
+export function calculateLayoutDimensions(config: InputConfig, models: ProcessedModel[]): LayoutDimensions {
+  const pages = paginateModels(config, models);
+  const slots = Math.max(...pages.map((page) => page.length));
+  // The "+N more" row for topN follows the last page
+  const hasOthers = models.some((m) => m.collapsed);
+  const layouts = pages.map((page, index) =>
+    calculatePageLayout(config, models, page, slots, pages.length, hasOthers && index === pages.length - 1)
+  );
+  const largest = (key: keyof LayoutDimensions) => Math.max(...layouts.map((layout) => layout[key]));
+  return {
+    barContainerWidth: largest("barContainerWidth"),
+    cardWidth: largest("cardWidth"),
+    cardHeight: largest("cardHeight"),
+    backgroundWidth: largest("backgroundWidth"),
+    backgroundHeight: largest("backgroundHeight"),
+  };
+}
+
+/**
+ * Split the charted models into pages of at most `maxModelsPerPage`, keeping their order (and ranks).
+ * Without the option, and for scatter plots, every model is on one page.
+ * Models collapsed by `topN` are left out of every page.
+ */
+export function paginateModels(config: InputConfig, models: ProcessedModel[]): ProcessedModel[][] {
+  const charted = models.filter((m) => !m.collapsed);
+  const perPage = config.maxModelsPerPage;
+  if (!perPage || config.chartType === "scatter" || charted.length <= perPage) return [charted];
+  const pages: ProcessedModel[][] = [];
+  for (let i = 0; i < charted.length; i += perPage) {
+    pages.push(charted.slice(i, i + perPage));
+  }
+  return pages;
+}
+
+/**
+ * Render the chart as HTML.
+ * With `maxModelsPerPage`, renders one page (`options.page`) of the split leaderboard.
+ * 
+ * @param config - The parsed input configuration
+ * @param models - The processed and sorted models
+ * @param options - Render options (standalone mode, page, etc.)
+ * @returns HTML string (full document if standalone, chart div only if not)
+ */
+export function renderChart(
+  config: InputConfig,
+  models: ProcessedModel[],
+  options: RenderOptions
+): string {
+  const { mode, scale = 1, page = 0 } = options;
+  const isInteractive = mode === 'interactive';
+  const showRankings = config.showRankings;
+  const percentPrecision = config.percentPrecision;
+  const orientation = config.orientation ?? "horizontal";
+  
+  // Calculate layout dimensions based on content (shared by every page)
+  const { barContainerWidth, cardWidth, backgroundWidth, backgroundHeight } = calculateLayoutDimensions(
+    config,
+    models
+  );
+  const pages = paginateModels(config, models);
+  const pageIndex = Math.min(Math.max(0, page), pages.length - 1);
+  
+  // Bars and markers are drawn on a 0-100 scale; labels show the raw value
+  const domain = getMetricDomain(config);
+  const formatValue = createFormatValue(config);
+  const formatTick = createFormatTick(config, domain);
+  const higherIsBetter = isHigherBetter(config);
+  const referenceLines = resolveReferenceLines(config.referenceLines, domain);
+  const theme = resolveTheme(config.theme);
+
+  // Names that still don't fit the final layout are shortened with an ellipsis
+  const labeledModels = fitModelLabels(config, pages[pageIndex], barContainerWidth, getFontKey(config));
+  // Scatter plots draw every model on their single page
+  const chartedModels = config.chartType === "scatter" ? models : pages[pageIndex];
+
+  let chartHtml: string;
+  if (config.chartType === "scatter") {
+    chartHtml = renderScatterChart(models, config.xAxis ?? "totalParams", formatValue, formatTick, higherIsBetter, barContainerWidth, referenceLines, theme);
+  } else if (config.chartType === "dumbbell") {
+    chartHtml = renderDumbbellChart(labeledModels, showRankings, percentPrecision, formatValue, higherIsBetter, barContainerWidth, referenceLines, theme);
+  } else if (orientation === "vertical") {
+    chartHtml = renderVerticalChart(labeledModels, showRankings, percentPrecision, formatValue, barContainerWidth, referenceLines, theme);
+  } else {
+    chartHtml = renderHorizontalChart(labeledModels, showRankings, percentPrecision, formatValue, barContainerWidth, referenceLines, theme);
+  }
+
+  // Models beyond topN are summarized after the last row
+  const others = models.filter((m) => m.collapsed);
+  if (others.length > 0 && pageIndex === pages.length - 1) {
+    const indent = config.chartType !== "dumbbell" && orientation === "vertical" ? 0 : getFixedRowWidth(showRankings);
+    chartHtml += renderOthersRow(others, indent, formatValue, theme);
+  }
+
+  const errorBarNote = getErrorBarNote(config, models);
+
+  const footnotes = getFootnotes(config, pages[pageIndex]);
+
+  // Use requested font, falling back to default if not available
+  const fontKey = getFontKey(config);
+  const fontName = fontDisplayNames[fontKey];
+  const fontDataUrl = fonts[fontKey];
+  const fontFamily = `'${fontName}', ui-sans-serif, system-ui, sans-serif`;
+  
+  // Always embed the selected font
+  const fontFaceRule = `
+    @font-face {
+      font-family: '${fontName}';
+      src: url(${fontDataUrl}) format('truetype');
+      font-weight: 400;
+      font-style: normal;
+      font-display: swap;
+    }
+  `;
+
+  // Build the card content
+  const cardContent = `
+    <!-- Header -->
+    <div style="margin-bottom: ${GAP_HEADER_CHART}px;">
+      <div class="flex items-baseline justify-between gap-4">
+        ${config.logo ? `
+        <div class="flex items-center min-w-0" style="gap: ${GAP_LOGO_TITLE}px;">
+          <img src="${config.logo}" alt="" class="shrink-0" style="height: ${LOGO_HEIGHT}px; max-width: ${LOGO_MAX_WIDTH}px; object-fit: contain;" />
+          <h1 class="text-3xl font-bold" style="color: ${theme.title};">${escapeHtml(config.title)}</h1>
+        </div>
+        ` : `<h1 class="text-3xl font-bold" style="color: ${theme.title};">${escapeHtml(config.title)}</h1>`}
+        ${!higherIsBetter || pages.length > 1 ? `
+        <div class="flex items-baseline shrink-0" style="gap: ${GAP_TITLE_NOTE}px;">
+          ${!higherIsBetter ? `<span class="text-sm whitespace-nowrap" style="color: ${theme.mutedText};">${LOWER_IS_BETTER_NOTE}</span>` : ""}
+          ${pages.length > 1 ? `<span class="text-sm font-semibold whitespace-nowrap" style="color: ${theme.secondaryText};">${formatPageMarker(pageIndex, pages.length)}</span>` : ""}
+        </div>
+        ` : ""}
+      </div>
+      ${config.description ? `<p style="color: ${theme.mutedText}; margin-top: ${GAP_TITLE_SUBTITLE}px; white-space: pre-line;">${escapeHtml(config.description)}</p>` : ""}
+      ${models[0]?.benchmarkScores && config.chartType !== "scatter" ? renderBenchmarkLegend(models[0].benchmarkScores, theme) : ""}
+      ${config.chartType === "dumbbell" ? renderDumbbellLegend(theme) : ""}
+      ${referenceLines.length > 0 ? renderReferenceLegend(referenceLines, formatValue, theme) : ""}
+    </div>
+    ${isInteractive ? renderInteractiveToolbar(chartedModels, config.chartType !== "scatter", theme) : ""}
+    
+    <!-- Chart -->
+    <div class="flex-1">
+      ${chartHtml}
+    </div>
+    
+    <!-- Footer -->
+    <div style="margin-top: ${GAP_CHART_FOOTER}px;">
+      ${footnotes.length > 0 || config.source ? `
+      <!-- Footnotes and data source (single line each, truncated so the layout height stays exact) -->
+      <div style="margin-bottom: ${GAP_FOOTNOTES_BRANDING}px;">
+        ${footnotes.map(({ number, text }) => `<p class="text-xs truncate" style="color: ${theme.mutedText}; height: ${FOOTNOTE_LINE_HEIGHT}px; line-height: ${FOOTNOTE_LINE_HEIGHT}px;"><sup>${number}</sup> ${escapeHtml(text)}</p>`).join("\n        ")}
+        ${config.source ? renderSourceLine(config.source, theme) : ""}
+      </div>
+      ` : ""}
+      <div class="flex justify-between items-end">
+        <p class="text-sm" style="color: ${theme.faintText};">${
+          config.footerText
+            ? escapeHtml(config.footerText)
+            : `Made with <a href="https://llmplot.com" target="_blank" class="font-semibold" style="color: ${theme.secondaryText};">llmplot.com</a>`
+        }${errorBarNote ? ` · ${errorBarNote}` : ""}</p>
+        ${renderSponsor(config, theme)}
+      </div>
+    </div>
+  `;
+
+  if (mode === 'web') {
+    // Web mode: Self-contained fragment with inlined CSS and embedded font
+    // Renders the same background layer as CLI mode for consistent preview
+    const backgroundDiv = `
+      <div 
+        id="llmplot-background"
+        class="flex items-center justify-center"
+        style="background-color: ${theme.background}; width: ${backgroundWidth}px; height: ${backgroundHeight}px; padding: ${PADDING_OUTER}px; box-sizing: border-box;"
+      >
+        <div 
+          id="llmplot-chart" 
+          class="shadow-sm flex flex-col" 
+          style="background-color: ${theme.card}; border-radius: ${theme.radius}px; font-family: ${fontFamily}; width: ${cardWidth}px; padding: ${PADDING_INNER}px;"
+        >
+          ${cardContent}
+        </div>
+      </div>
+    `;
+
+    const rawHtml = scale !== 1
+      ? `
+      <style>${fontFaceRule}</style>
+      <div style="width: ${backgroundWidth * scale}px; height: ${backgroundHeight * scale}px; overflow: hidden;">
+        <div style="transform: scale(${scale}); transform-origin: top left;">
+          ${backgroundDiv}
+        </div>
+      </div>
+    `
+      : `
       <style>${fontFaceRule}</style>
       ${backgroundDiv}
     `;
@@ -324,7 +1519,25 @@ export function renderChart(
     return `<style>${css}</style>${html}`;
   }
 
-  // CLI mode: Full HTML document with background layer
+  // Interactive rows re-space themselves when sorted or filtered, matching the static layout
+  const isVertical = orientation === "vertical" && config.chartType !== "dumbbell";
+  const interactiveLayer = isInteractive
+    ? renderInteractiveLayer(
+        getInteractiveData(config, chartedModels, formatValue, {
+          higherIsBetter,
+          sortable: config.chartType !== "scatter",
+          rowGapSide: isVertical ? "left" : "top",
+          rowGap: isVertical ? GAP_BETWEEN_COLUMNS : GAP_BETWEEN_BARS,
+          groupGap: GAP_BETWEEN_GROUPS,
+          activeBackground: theme.track,
+        }),
+        fontFamily,
+        theme
+      )
+    : "";
+
+  // CLI and interactive modes: Full HTML document with background layer
+  // (interactive documents grow past the fixed height to fit their controls)
   const rawHtml = `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -334,14 +1547,686 @@ export function renderChart(
   <style>${fontFaceRule}</style>
 </head>
 <body style="margin: 0; padding: 0;">
-  <div id="llmplot-background" class="bg-gray-100 flex items-center justify-center" style="font-family: ${fontFamily}; width: ${backgroundWidth}px; height: ${backgroundHeight}px; padding: ${PADDING_OUTER}px; box-sizing: border-box;">
-    <div id="llmplot-chart" class="bg-white rounded-xl shadow-sm flex flex-col" style="width: ${cardWidth}px; padding: ${PADDING_INNER}px;">
+  <div id="llmplot-background" class="flex items-center justify-center" style="background-color: ${theme.background}; font-family: ${fontFamily}; width: ${backgroundWidth}px; ${isInteractive ? "min-height" : "height"}: ${backgroundHeight}px; padding: ${PADDING_OUTER}px; box-sizing: border-box;">
+    <div id="llmplot-chart" class="shadow-sm flex flex-col" style="background-color: ${theme.card}; border-radius: ${theme.radius}px; width: ${cardWidth}px; padding: ${PADDING_INNER}px;">
       ${cardContent}
     </div>
   </div>
+  ${interactiveLayer}
 </body>
 </html>`;
 
   // Process with Twind - extracts used classes and injects <style> into <head>
   return inline(rawHtml);
 }
+
+/**
+ * Render every page of the chart, in order.
+ * Returns a single page unless `maxModelsPerPage` splits the models.
+ */
+export function renderChartPages(
+  config: InputConfig,
+  models: ProcessedModel[],
+  options: RenderOptions
+): string[] {
+  return paginateModels(config, models).map((_, page) => renderChart(config, models, { ...options, page }));
+}
+
+// ---------------------------------------------------------------------------
+// SVG output: the HTML layout drawn as vector shapes and text, without a browser
+// ---------------------------------------------------------------------------
+
+// Line heights of text-xs and text-sm, and of the value above a column
+const LINE_HEIGHT_XS = 16;
+const LINE_HEIGHT_SM = 20;
+const COLUMN_VALUE_LINE_HEIGHT = 24;
+
+const SVG_BASELINE_OFFSET = 0.35; // Baseline below a line's center, as a share of the font size
+const SUPERSCRIPT_RISE = 0.5; // <sup> is raised by half its own size (Tailwind preflight)
+const GROUP_HEADING_TRACKING = 0.025; // tracking-wide, in em
+const GAP_LEGEND_ITEMS = 16; // Gap between legend entries (gap-4)
+const GAP_LEGEND_SWATCH = 8; // Gap between a legend swatch and its label (gap-2)
+const LEGEND_RING_BORDER = 2; // Border of the hollow "Previous" swatch
+
+interface SvgTextStyle {
+  size: number;
+  color: string;
+  weight?: number;
+  anchor?: "start" | "middle" | "end";
+}
+
+/** Round a coordinate so the markup doesn't carry float noise */
+function fmt(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/** Baseline of text vertically centered in a line box starting at `top` */
+function getBaseline(top: number, lineHeight: number, fontSize: number): number {
+  return top + lineHeight / 2 + fontSize * SVG_BASELINE_OFFSET;
+}
+
+/**
+ * Render a <text> element. `content` is escaped unless it is already markup (tspans).
+ */
+function svgText(content: string, x: number, y: number, style: SvgTextStyle, isMarkup = false): string {
+  const weight = style.weight ? ` font-weight="${style.weight}"` : "";
+  const anchor = style.anchor && style.anchor !== "start" ? ` text-anchor="${style.anchor}"` : "";
+  return `<text x="${fmt(x)}" y="${fmt(y)}" font-size="${style.size}" fill="${style.color}"${weight}${anchor}>${isMarkup ? content : escapeHtml(content)}</text>`;
+}
+
+/**
+ * Render a footnote number as a raised <tspan>, for the end of a model name.
+ */
+function svgFootnoteMarker(m: ProcessedModel, fontSize: number, theme: Theme): string {
+  if (!m.footnoteNumber) return "";
+  const size = fontSize * SUPERSCRIPT_SCALE;
+  return `<tspan dy="${fmt(-size * SUPERSCRIPT_RISE)}" font-size="${fmt(size)}" fill="${theme.faintText}">${m.footnoteNumber}</tspan>`;
+}
+
+/** Render a fully rounded rectangle (`rounded-full`), or nothing when it has no width */
+function svgPill(x: number, y: number, width: number, height: number, fill: string): string {
+  if (width <= 0) return "";
+  const radius = Math.min(width, height) / 2;
+  return `<rect x="${fmt(x)}" y="${fmt(y)}" width="${fmt(width)}" height="${fmt(height)}" rx="${fmt(radius)}" fill="${fill}" />`;
+}
+
+function svgLine(x1: number, y1: number, x2: number, y2: number, color: string, width: number, dashed = false): string {
+  return `<line x1="${fmt(x1)}" y1="${fmt(y1)}" x2="${fmt(x2)}" y2="${fmt(y2)}" stroke="${color}" stroke-width="${width}"${dashed ? ` stroke-dasharray="${REFERENCE_LINE_WIDTH * 2} ${REFERENCE_LINE_WIDTH * 2}"` : ""} />`;
+}
+
+/**
+ * Render an icon or logo, or nothing without one. A dimmed model's icon is faded to grayscale.
+ */
+function svgImage(href: string | undefined, x: number, y: number, width: number, height: number, dimmed = false): string {
+  if (!href) return "";
+  const dim = dimmed ? ` opacity="${DIM_ICON_OPACITY}" filter="url(#llmplot-grayscale)"` : "";
+  return `<image href="${escapeHtml(href)}" x="${fmt(x)}" y="${fmt(y)}" width="${fmt(width)}" height="${fmt(height)}" preserveAspectRatio="xMidYMid meet"${dim} />`;
+}
+
+/**
+ * Width / height of a PNG or SVG data URL, or undefined when it can't be read.
+ * SVG has no `max-width` + `object-fit`, so logos are sized from this up front.
+ */
+function getImageAspectRatio(dataUrl: string): number | undefined {
+  const comma = dataUrl.indexOf(",");
+  if (comma < 0) return undefined;
+  const header = dataUrl.slice(0, comma);
+  let data: string;
+  try {
+    data = header.endsWith(";base64") ? atob(dataUrl.slice(comma + 1)) : decodeURIComponent(dataUrl.slice(comma + 1));
+  } catch {
+    return undefined;
+  }
+
+  if (header.includes("image/png")) {
+    // IHDR width and height are big-endian uint32s at bytes 16 and 20
+    const readUint32 = (i: number) =>
+      ((data.charCodeAt(i) << 24) | (data.charCodeAt(i + 1) << 16) | (data.charCodeAt(i + 2) << 8) | data.charCodeAt(i + 3)) >>> 0;
+    const width = readUint32(16);
+    const height = readUint32(20);
+    return width > 0 && height > 0 ? width / height : undefined;
+  }
+  if (header.includes("image/svg")) {
+    const viewBox = /viewBox\s*=\s*["']\s*[-\d.]+[\s,]+[-\d.]+[\s,]+([\d.]+)[\s,]+([\d.]+)/.exec(data);
+    if (viewBox && Number(viewBox[2]) > 0) return Number(viewBox[1]) / Number(viewBox[2]);
+    const width = /<svg[^>]*\swidth\s*=\s*["']([\d.]+)/.exec(data);
+    const height = /<svg[^>]*\sheight\s*=\s*["']([\d.]+)/.exec(data);
+    if (width && height && Number(height[1]) > 0) return Number(width[1]) / Number(height[1]);
+  }
+  return undefined;
+}
+
+/** Drawn width of an image scaled to `height`, capped at `maxWidth` */
+function getImageWidth(dataUrl: string, height: number, maxWidth: number): number {
+  return Math.min(maxWidth, height * (getImageAspectRatio(dataUrl) ?? 1));
+}
+
+/**
+ * Render a rank badge centered on (cx, cy), with its movement label below or to the right.
+ */
+function svgRankBadge(m: ProcessedModel, cx: number, cy: number, changePlacement: "below" | "right", theme: Theme): string {
+  const badge = getRankBadge(m.rank, theme);
+  const radius = RANK_BADGE_SIZE / 2;
+  const parts = [
+    `<circle cx="${fmt(cx)}" cy="${fmt(cy)}" r="${radius}" fill="${badge.bg}" />`,
+    svgText(String(m.rank), cx, getBaseline(cy - LINE_HEIGHT_SM / 2, LINE_HEIGHT_SM, TEXT_SM), { size: TEXT_SM, color: badge.text, weight: 600, anchor: "middle" }),
+  ];
+
+  let label: string | undefined;
+  let color = DELTA_FLAT_COLOR;
+  if (m.isNewEntry) {
+    label = "NEW";
+    color = RANK_NEW_COLOR;
+  } else if (m.rankChange !== undefined) {
+    label = m.rankChange > 0 ? `▲${m.rankChange}` : m.rankChange < 0 ? `▼${-m.rankChange}` : "–";
+    color = m.rankChange > 0 ? DELTA_UP_COLOR : m.rankChange < 0 ? DELTA_DOWN_COLOR : DELTA_FLAT_COLOR;
+  }
+  if (label) {
+    const style: SvgTextStyle = { size: RANK_CHANGE_FONT_SIZE, color, weight: 600 };
+    // The HTML label has line-height 1, so its box is one font size tall
+    parts.push(changePlacement === "below"
+      ? svgText(label, cx, getBaseline(cy + radius + GAP_RANK_CHANGE, RANK_CHANGE_FONT_SIZE, RANK_CHANGE_FONT_SIZE), { ...style, anchor: "middle" })
+      : svgText(label, cx + radius + GAP_RANK_CHANGE, getBaseline(cy - RANK_CHANGE_FONT_SIZE / 2, RANK_CHANGE_FONT_SIZE, RANK_CHANGE_FONT_SIZE), style));
+  }
+  return parts.join("");
+}
+
+/**
+ * Render a horizontal error bar (line with end caps) across a bar track at `x`.
+ */
+function svgHorizontalWhisker(interval: ConfidenceInterval, x: number, width: number, cy: number, theme: Theme): string {
+  const color = withAlpha(theme.text, WHISKER_OPACITY);
+  // The HTML caps are borders inside the interval's box
+  const low = x + (width * interval.low) / 100 + WHISKER_WIDTH / 2;
+  const high = x + (width * interval.high) / 100 - WHISKER_WIDTH / 2;
+  const half = WHISKER_CAP_SIZE / 2;
+  return svgLine(low, cy, high, cy, color, WHISKER_WIDTH) +
+    svgLine(low, cy - half, low, cy + half, color, WHISKER_WIDTH) +
+    svgLine(high, cy - half, high, cy + half, color, WHISKER_WIDTH);
+}
+
+/**
+ * Render a vertical error bar (line with end caps) along a column track ending at `bottom`.
+ */
+function svgVerticalWhisker(interval: ConfidenceInterval, cx: number, bottom: number, theme: Theme): string {
+  const color = withAlpha(theme.text, WHISKER_OPACITY);
+  const low = bottom - (COLUMN_PLOT_HEIGHT * interval.low) / 100 - WHISKER_WIDTH / 2;
+  const high = bottom - (COLUMN_PLOT_HEIGHT * interval.high) / 100 + WHISKER_WIDTH / 2;
+  const half = WHISKER_CAP_SIZE / 2;
+  return svgLine(cx, low, cx, high, color, WHISKER_WIDTH) +
+    svgLine(cx - half, low, cx + half, low, color, WHISKER_WIDTH) +
+    svgLine(cx - half, high, cx + half, high, color, WHISKER_WIDTH);
+}
+
+/**
+ * Render a horizontal row's label line: name, footnote marker, callout and params on the
+ * left, and the value (or previous → current score and delta) right-aligned.
+ */
+function svgRowLabel(
+  m: ProcessedModel,
+  x: number,
+  top: number,
+  width: number,
+  isDumbbell: boolean,
+  higherIsBetter: boolean,
+  percentPrecision: number,
+  formatValue: FormatValue,
+  font: FontFamily,
+  theme: Theme
+): string {
+  // Every item sits on the name's baseline (items-baseline)
+  const baseline = getBaseline(top, BAR_LABEL_HEIGHT, TEXT_LG);
+  const parts = [svgText(
+    `${escapeHtml(m.displayLabel)}${svgFootnoteMarker(m, TEXT_LG, theme)}`,
+    x,
+    baseline,
+    { size: TEXT_LG, color: getNameColor(m, theme), weight: m.highlight ? 700 : undefined },
+    true
+  )];
+  let cursor = x + measureText(m.displayLabel, font, TEXT_LG, m.highlight) + measureFootnoteMarker(m, font, TEXT_LG);
+  if (m.callout) {
+    cursor += GAP_LABEL_ITEMS;
+    const calloutWidth = measureText(m.callout, font, TEXT_XS, true) + CALLOUT_PADDING_X * 2;
+    const calloutTop = baseline - getBaseline(0, CALLOUT_HEIGHT, TEXT_XS);
+    parts.push(svgPill(cursor, calloutTop, calloutWidth, CALLOUT_HEIGHT, getModelColor(m, theme)));
+    parts.push(svgText(m.callout, cursor + CALLOUT_PADDING_X, baseline, { size: TEXT_XS, color: "white", weight: 600 }));
+    cursor += calloutWidth;
+  }
+  if (m.paramsLabel) {
+    parts.push(svgText(m.paramsLabel, cursor + GAP_LABEL_ITEMS, baseline, { size: TEXT_SM, color: theme.faintText }));
+  }
+
+  const right = x + width;
+  if (isDumbbell) {
+    const deltaLabel = formatDelta(m.delta!, percentPrecision);
+    // Color by improvement, so a drop in latency reads as a gain
+    const improved = higherIsBetter ? deltaLabel.startsWith("+") : deltaLabel.startsWith("−");
+    const worsened = higherIsBetter ? deltaLabel.startsWith("−") : deltaLabel.startsWith("+");
+    const deltaColor = improved ? DELTA_UP_COLOR : worsened ? DELTA_DOWN_COLOR : DELTA_FLAT_COLOR;
+    const valueRight = right - measureText(deltaLabel, font, TEXT_SM, true) - GAP_LABEL_ITEMS;
+    const previousRight = valueRight - measureText(formatValue(m.value), font, TEXT_LG, true) - GAP_LABEL_ITEMS;
+    parts.push(svgText(`${formatValue(m.previousValue!)} →`, previousRight, baseline, { size: TEXT_SM, color: theme.faintText, anchor: "end" }));
+    parts.push(svgText(formatValue(m.value), valueRight, baseline, { size: TEXT_LG, color: getLabelColor(m, theme), weight: 600, anchor: "end" }));
+    parts.push(svgText(deltaLabel, right, baseline, { size: TEXT_SM, color: deltaColor, weight: 600, anchor: "end" }));
+  } else if (!m.benchmarkScores) {
+    parts.push(svgText(formatValue(m.value), right, baseline, { size: TEXT_LG, color: getLabelColor(m, theme), weight: 600, anchor: "end" }));
+  }
+  return parts.join("");
+}
+
+/**
+ * Render what sits under a horizontal row's label: its bar, one bar per benchmark,
+ * or a dumbbell track with both scores.
+ */
+function svgRowBars(m: ProcessedModel, x: number, top: number, width: number, isDumbbell: boolean, percentPrecision: number, theme: Theme): string {
+  const parts: string[] = [];
+  if (isDumbbell) {
+    const color = getModelColor(m, theme);
+    const cy = top + BAR_HEIGHT / 2;
+    const lineTop = cy - DUMBBELL_LINE_HEIGHT / 2;
+    const previousX = x + (width * m.previousPercentage!) / 100;
+    const currentX = x + (width * m.percentage) / 100;
+    parts.push(svgPill(x, lineTop, width, DUMBBELL_LINE_HEIGHT, theme.track));
+    parts.push(svgPill(Math.min(previousX, currentX), lineTop, Math.abs(currentX - previousX), DUMBBELL_LINE_HEIGHT, color));
+    // The ring's border is drawn inside the dot (box-sizing: border-box)
+    parts.push(`<circle cx="${fmt(previousX)}" cy="${fmt(cy)}" r="${(DUMBBELL_DOT_SIZE - DUMBBELL_DOT_BORDER) / 2}" fill="${theme.card}" stroke="${color}" stroke-width="${DUMBBELL_DOT_BORDER}" />`);
+    parts.push(`<circle cx="${fmt(currentX)}" cy="${fmt(cy)}" r="${DUMBBELL_DOT_SIZE / 2}" fill="${color}" />`);
+  } else if (m.benchmarkScores) {
+    m.benchmarkScores.forEach((s, i) => {
+      const barTop = top + i * (GROUPED_BAR_HEIGHT + GAP_GROUPED_BARS);
+      const fillWidth = (width * s.percentage) / 100;
+      const label = `${s.percentage.toFixed(percentPrecision)}%`;
+      const baseline = getBaseline(barTop, GROUPED_BAR_HEIGHT, TEXT_XS);
+      parts.push(svgPill(x, barTop, width, GROUPED_BAR_HEIGHT, theme.track));
+      parts.push(svgPill(x, barTop, fillWidth, GROUPED_BAR_HEIGHT, m.dimmed ? muteColor(s.color, theme) : s.color));
+      parts.push(s.percentage >= GROUPED_LABEL_INSIDE_THRESHOLD
+        ? svgText(label, x + fillWidth - 8, baseline, { size: TEXT_XS, color: "white", weight: 500, anchor: "end" })
+        : svgText(label, x + fillWidth + 8, baseline, { size: TEXT_XS, color: theme.secondaryText, weight: 500 }));
+    });
+  } else {
+    const fillWidth = (width * m.percentage) / 100;
+    parts.push(svgPill(x, top, width, BAR_HEIGHT, theme.track));
+    parts.push(svgPill(x, top, fillWidth, BAR_HEIGHT, getModelColor(m, theme)));
+    if (m.interval) parts.push(svgHorizontalWhisker(m.interval, x, width, top + BAR_HEIGHT / 2, theme));
+    if (!m.usePercent) {
+      // Same placement as the HTML bar: inside the fill when the label fits, else after the error bar
+      const label = `${m.passed}/${m.total}`;
+      const threshold = Math.min(30, Math.max(15, 15 + (label.length - 4) * (15 / 6)));
+      const labelAnchor = Math.max(m.percentage, m.interval?.high ?? 0);
+      const baseline = getBaseline(top, BAR_HEIGHT, TEXT_XS);
+      parts.push(m.percentage >= threshold
+        ? svgText(label, x + fillWidth - 12, baseline, { size: TEXT_XS, color: "white", weight: 500, anchor: "end" })
+        : svgText(label, x + (width * labelAnchor) / 100 + 8, baseline, { size: TEXT_XS, color: theme.secondaryText, weight: 500 }));
+    }
+  }
+  return parts.join("");
+}
+
+/**
+ * Render a group subheading at `top`.
+ */
+function svgGroupHeading(m: ProcessedModel, x: number, top: number, theme: Theme): string {
+  return `<text x="${fmt(x)}" y="${fmt(getBaseline(top, GROUP_HEADING_HEIGHT, TEXT_SM))}" font-size="${TEXT_SM}" font-weight="600" letter-spacing="${GROUP_HEADING_TRACKING}em" fill="${theme.mutedText}">${escapeHtml((m.groupLabel ?? "").toUpperCase())}</text>`;
+}
+
+/**
+ * Draw horizontal or dumbbell rows from `top`. Returns the markup and the height drawn.
+ */
+function svgHorizontalRows(
+  models: ProcessedModel[],
+  config: InputConfig,
+  barContainerWidth: number,
+  referenceLines: ResolvedReferenceLine[],
+  formatValue: FormatValue,
+  font: FontFamily,
+  theme: Theme
+): { svg: string; height: number } {
+  const isDumbbell = config.chartType === "dumbbell";
+  const higherIsBetter = isHigherBetter(config);
+  const benchmarkCount = isDumbbell ? 0 : getBenchmarkCount(models);
+  const barsHeight = benchmarkCount > 0
+    ? (GROUPED_BAR_HEIGHT * benchmarkCount) + (GAP_GROUPED_BARS * (benchmarkCount - 1))
+    : BAR_HEIGHT;
+  const contentHeight = BAR_LABEL_HEIGHT + GAP_LABEL_BAR + barsHeight;
+  const rowHeight = Math.max(ICON_SIZE, contentHeight);
+  const iconX = config.showRankings ? RANK_BADGE_SIZE + GAP_RANK_ICON : 0;
+  const barX = iconX + ICON_SIZE + GAP_ICON_CONTENT;
+
+  const parts: string[] = [];
+  let y = 0;
+  models.forEach((m, index) => {
+    if (startsGroup(models, index)) {
+      if (index > 0) y += GAP_BETWEEN_GROUPS;
+      parts.push(svgGroupHeading(m, 0, y, theme));
+      y += GROUP_HEADING_HEIGHT + GAP_GROUP_HEADING;
+    } else if (index > 0) {
+      y += GAP_BETWEEN_BARS;
+    }
+
+    // Rows center their badge, icon and label + bar stack vertically (items-center)
+    const cy = y + rowHeight / 2;
+    const contentTop = cy - contentHeight / 2;
+    const barsTop = contentTop + BAR_LABEL_HEIGHT + GAP_LABEL_BAR;
+    if (config.showRankings) parts.push(svgRankBadge(m, RANK_BADGE_SIZE / 2, cy, "below", theme));
+    parts.push(svgImage(m.providerConfig.iconUrl, iconX, cy - ICON_SIZE / 2, ICON_SIZE, ICON_SIZE, m.dimmed));
+    parts.push(svgRowLabel(m, barX, contentTop, barContainerWidth, isDumbbell, higherIsBetter, config.percentPrecision, formatValue, font, theme));
+    parts.push(svgRowBars(m, barX, barsTop, barContainerWidth, isDumbbell, config.percentPrecision, theme));
+    // Markers start just above the bars so the labels stay readable
+    for (const line of referenceLines) {
+      const lineX = barX + (barContainerWidth * line.position) / 100;
+      parts.push(svgLine(lineX, barsTop - REFERENCE_LINE_OVERHANG, lineX, contentTop + contentHeight + REFERENCE_LINE_OVERHANG, line.color, REFERENCE_LINE_WIDTH, true));
+    }
+    y += rowHeight;
+  });
+  return { svg: parts.join("\n    "), height: y };
+}
+
+/**
+ * Draw vertical columns from `top`. Returns the markup and the height drawn.
+ */
+function svgVerticalColumns(
+  models: ProcessedModel[],
+  config: InputConfig,
+  columnWidth: number,
+  referenceLines: ResolvedReferenceLine[],
+  formatValue: FormatValue,
+  font: FontFamily,
+  theme: Theme
+): { svg: string; height: number } {
+  const barWidth = Math.min(columnWidth, COLUMN_BAR_MAX_WIDTH);
+  const trackTop = (config.showRankings ? RANK_BADGE_SIZE + GAP_RANK_VALUE : 0) + COLUMN_VALUE_HEIGHT;
+  const trackBottom = trackTop + COLUMN_PLOT_HEIGHT;
+  const iconTop = trackBottom + GAP_BAR_ICON;
+  const labelTop = iconTop + ICON_SIZE + GAP_ICON_LABEL;
+  const paramsTop = labelTop + COLUMN_LABEL_HEIGHT;
+
+  const parts: string[] = [];
+  models.forEach((m, index) => {
+    const left = index * (columnWidth + GAP_BETWEEN_COLUMNS);
+    const cx = left + columnWidth / 2;
+    if (config.showRankings) parts.push(svgRankBadge(m, cx, RANK_BADGE_SIZE / 2, "right", theme));
+
+    if (m.benchmarkScores) {
+      const count = m.benchmarkScores.length;
+      const groupWidth = (COLUMN_GROUPED_BAR_WIDTH * count) + (GAP_GROUPED_BARS * (count - 1));
+      m.benchmarkScores.forEach((s, i) => {
+        const x = cx - groupWidth / 2 + i * (COLUMN_GROUPED_BAR_WIDTH + GAP_GROUPED_BARS);
+        const fillHeight = (COLUMN_PLOT_HEIGHT * s.percentage) / 100;
+        parts.push(svgPill(x, trackTop, COLUMN_GROUPED_BAR_WIDTH, COLUMN_PLOT_HEIGHT, theme.track));
+        parts.push(svgPill(x, trackBottom - fillHeight, COLUMN_GROUPED_BAR_WIDTH, fillHeight, m.dimmed ? muteColor(s.color, theme) : s.color));
+        // Values read bottom-to-top above each bar
+        const labelX = x + COLUMN_GROUPED_BAR_WIDTH / 2;
+        const labelY = trackBottom - fillHeight - GAP_LABEL_BAR;
+        parts.push(`<text transform="translate(${fmt(labelX)} ${fmt(labelY)}) rotate(-90)" y="${fmt(TEXT_XS * SVG_BASELINE_OFFSET)}" font-size="${TEXT_XS}" font-weight="500" fill="${theme.secondaryText}">${s.percentage.toFixed(config.percentPrecision)}%</text>`);
+      });
+    } else {
+      const x = cx - barWidth / 2;
+      const fillHeight = (COLUMN_PLOT_HEIGHT * m.percentage) / 100;
+      parts.push(svgPill(x, trackTop, barWidth, COLUMN_PLOT_HEIGHT, theme.track));
+      parts.push(svgPill(x, trackBottom - fillHeight, barWidth, fillHeight, getModelColor(m, theme)));
+      if (m.interval) parts.push(svgVerticalWhisker(m.interval, cx, trackBottom, theme));
+      // Value (and passed/total) float just above the fill or error bar
+      let labelBottom = trackBottom - (COLUMN_PLOT_HEIGHT * Math.max(m.percentage, m.interval?.high ?? 0)) / 100 - GAP_LABEL_BAR;
+      if (!m.usePercent) {
+        labelBottom -= LINE_HEIGHT_XS;
+        parts.push(svgText(`${m.passed}/${m.total}`, cx, getBaseline(labelBottom, LINE_HEIGHT_XS, TEXT_XS), { size: TEXT_XS, color: theme.secondaryText, weight: 500, anchor: "middle" }));
+      }
+      parts.push(svgText(formatValue(m.value), cx, getBaseline(labelBottom - COLUMN_VALUE_LINE_HEIGHT, COLUMN_VALUE_LINE_HEIGHT, TEXT_LG), { size: TEXT_LG, color: getLabelColor(m, theme), weight: 600, anchor: "middle" }));
+    }
+
+    parts.push(svgImage(m.providerConfig.iconUrl, cx - ICON_SIZE / 2, iconTop, ICON_SIZE, ICON_SIZE, m.dimmed));
+
+    // Names wrap onto at most two centered lines; the footnote marker follows the last one
+    const markerWidth = measureFootnoteMarker(m, font, TEXT_SM);
+    const nameLines = wrapText(normalizeLabel(m.displayLabel), columnWidth - markerWidth, font, TEXT_SM, m.highlight).slice(0, COLUMN_LABEL_LINES);
+    nameLines.forEach((line, i) => {
+      const isLast = i === nameLines.length - 1;
+      // Shift the last line so the name plus marker is centered, not just the name
+      const lineX = cx - (isLast ? markerWidth / 2 : 0);
+      parts.push(svgText(
+        `${escapeHtml(line)}${isLast ? svgFootnoteMarker(m, TEXT_SM, theme) : ""}`,
+        lineX,
+        getBaseline(labelTop + i * LINE_HEIGHT_SM, LINE_HEIGHT_SM, TEXT_SM),
+        { size: TEXT_SM, color: getNameColor(m, theme), weight: m.highlight ? 700 : undefined, anchor: "middle" },
+        true
+      ));
+    });
+
+    let paramsLine = 0;
+    if (m.paramsLabel) {
+      parts.push(svgText(m.paramsLabel, cx, getBaseline(paramsTop, LINE_HEIGHT_XS, TEXT_XS), { size: TEXT_XS, color: theme.faintText, anchor: "middle" }));
+      paramsLine = 1;
+    }
+    if (m.callout) {
+      const callout = truncateText(m.callout, columnWidth, font, TEXT_XS, true);
+      parts.push(svgText(callout, cx, getBaseline(paramsTop + paramsLine * LINE_HEIGHT_XS, LINE_HEIGHT_XS, TEXT_XS), { size: TEXT_XS, color: getModelColor(m, theme), weight: 600, anchor: "middle" }));
+    }
+  });
+
+  // Reference lines run across every column, level with the value on the tracks
+  const chartWidth = models.length * columnWidth + (models.length - 1) * GAP_BETWEEN_COLUMNS;
+  for (const line of referenceLines) {
+    const lineY = trackTop + (1 - line.position / 100) * COLUMN_PLOT_HEIGHT;
+    parts.push(svgLine(-REFERENCE_LINE_OVERHANG, lineY, chartWidth + REFERENCE_LINE_OVERHANG, lineY, line.color, REFERENCE_LINE_WIDTH, true));
+  }
+  return { svg: parts.join("\n    "), height: paramsTop + COLUMN_PARAMS_HEIGHT };
+}
+
+/** One legend entry: a swatch drawn at (x, center y) and its label markup */
+interface SvgLegendEntry {
+  swatch: (x: number, cy: number) => string;
+  swatchWidth: number;
+  label: string;
+  labelWidth: number;
+}
+
+/**
+ * Render one legend row (benchmarks, the dumbbell key or reference lines) at `top`.
+ */
+function svgLegend(entries: SvgLegendEntry[], top: number, theme: Theme): string {
+  const cy = top + LEGEND_HEIGHT / 2;
+  const baseline = getBaseline(top, LEGEND_HEIGHT, TEXT_SM);
+  let x = 0;
+  return entries.map((entry) => {
+    const swatch = entry.swatch(x, cy);
+    const label = svgText(entry.label, x + entry.swatchWidth + GAP_LEGEND_SWATCH, baseline, { size: TEXT_SM, color: theme.secondaryText }, true);
+    x += entry.swatchWidth + GAP_LEGEND_SWATCH + entry.labelWidth + GAP_LEGEND_ITEMS;
+    return swatch + label;
+  }).join("");
+}
+
+/**
+ * Collect the legend rows shown under the header, in the HTML's order.
+ */
+function getSvgLegends(
+  config: InputConfig,
+  models: ProcessedModel[],
+  referenceLines: ResolvedReferenceLine[],
+  formatValue: FormatValue,
+  font: FontFamily,
+  theme: Theme
+): SvgLegendEntry[][] {
+  const legends: SvgLegendEntry[][] = [];
+  const dot = (color: string) => (x: number, cy: number) =>
+    `<circle cx="${fmt(x + LEGEND_SWATCH_SIZE / 2)}" cy="${fmt(cy)}" r="${LEGEND_SWATCH_SIZE / 2}" fill="${color}" />`;
+  const textEntry = (swatch: SvgLegendEntry["swatch"], swatchWidth: number, label: string): SvgLegendEntry => ({
+    swatch,
+    swatchWidth,
+    label: escapeHtml(label),
+    labelWidth: measureText(label, font, TEXT_SM),
+  });
+
+  if (models[0]?.benchmarkScores && config.chartType !== "scatter") {
+    legends.push(models[0].benchmarkScores.map((s) => textEntry(dot(s.color), LEGEND_SWATCH_SIZE, s.label)));
+  }
+  if (config.chartType === "dumbbell") {
+    const ring = (x: number, cy: number) =>
+      `<circle cx="${fmt(x + LEGEND_SWATCH_SIZE / 2)}" cy="${fmt(cy)}" r="${(LEGEND_SWATCH_SIZE - LEGEND_RING_BORDER) / 2}" fill="none" stroke="${theme.mutedText}" stroke-width="${LEGEND_RING_BORDER}" />`;
+    legends.push([
+      textEntry(ring, LEGEND_SWATCH_SIZE, "Previous"),
+      textEntry(dot(theme.mutedText), LEGEND_SWATCH_SIZE, "Current"),
+    ]);
+  }
+  if (referenceLines.length > 0) {
+    legends.push(referenceLines.map((line) => ({
+      swatch: (x: number, cy: number) => svgLine(x, cy, x + REFERENCE_SWATCH_WIDTH, cy, line.color, REFERENCE_LINE_WIDTH, true),
+      swatchWidth: REFERENCE_SWATCH_WIDTH,
+      label: `${escapeHtml(line.label)} <tspan fill="${theme.faintText}">${escapeHtml(formatValue(line.value))}</tspan>`,
+      labelWidth: measureText(`${line.label} ${formatValue(line.value)}`, font, TEXT_SM),
+    })));
+  }
+  return legends;
+}
+
+/**
+ * Render the chart as a standalone SVG document with real shapes and text.
+ * The layout matches `renderChart`, text is placed using the embedded font's metrics,
+ * and the font, icons and logos are embedded, so no browser is needed to produce it.
+ * With `maxModelsPerPage`, renders one page (`options.page`) of the split leaderboard.
+ */
+export function renderChartSvg(
+  config: InputConfig,
+  models: ProcessedModel[],
+  options: Pick<RenderOptions, "page"> = {}
+): string {
+  const { page = 0 } = options;
+  const { barContainerWidth, cardWidth, backgroundWidth, backgroundHeight } = calculateLayoutDimensions(config, models);
+  const pages = paginateModels(config, models);
+  const pageIndex = Math.min(Math.max(0, page), pages.length - 1);
+
+  const domain = getMetricDomain(config);
+  const formatValue = createFormatValue(config);
+  const higherIsBetter = isHigherBetter(config);
+  const referenceLines = resolveReferenceLines(config.referenceLines, domain);
+  const theme = resolveTheme(config.theme);
+  const font = getFontKey(config);
+  const isVertical = config.chartType !== "dumbbell" && config.orientation === "vertical";
+  const contentWidth = cardWidth - (PADDING_INNER * 2);
+  const labeledModels = fitModelLabels(config, pages[pageIndex], barContainerWidth, font);
+
+  // Everything below is placed relative to the card's content box
+  const parts: string[] = [];
+  let y = 0;
+
+  // Header: logo and title on the left, "Lower is better" and the page marker on the right
+  const notes: { text: string; color: string; weight?: number }[] = [];
+  if (!higherIsBetter) notes.push({ text: LOWER_IS_BETTER_NOTE, color: theme.mutedText });
+  if (pages.length > 1) notes.push({ text: formatPageMarker(pageIndex, pages.length), color: theme.secondaryText, weight: 600 });
+  const logoWidth = config.logo ? getImageWidth(config.logo, LOGO_HEIGHT, LOGO_MAX_WIDTH) : 0;
+  const titleX = config.logo ? logoWidth + GAP_LOGO_TITLE : 0;
+  const noteWidths = notes.map((note) => measureText(note.text, font, TEXT_SM, note.weight !== undefined));
+  const notesWidth = noteWidths.reduce((sum, width) => sum + width + GAP_TITLE_NOTE, 0);
+  const titleLines = wrapText(config.title, contentWidth - titleX - notesWidth, font, TEXT_3XL, true);
+  if (config.logo) {
+    parts.push(svgImage(config.logo, 0, (titleLines.length * TITLE_HEIGHT - LOGO_HEIGHT) / 2, logoWidth, LOGO_HEIGHT));
+  }
+  titleLines.forEach((line, i) => {
+    parts.push(svgText(line, titleX, getBaseline(i * TITLE_HEIGHT, TITLE_HEIGHT, TEXT_3XL), { size: TEXT_3XL, color: theme.title, weight: 700 }));
+  });
+  let noteRight = contentWidth;
+  for (let i = notes.length - 1; i >= 0; i--) {
+    const note = notes[i];
+    // Notes share the first title line's baseline (items-baseline)
+    parts.push(svgText(note.text, noteRight, getBaseline(0, TITLE_HEIGHT, TEXT_3XL), { size: TEXT_SM, color: note.color, weight: note.weight, anchor: "end" }));
+    noteRight -= noteWidths[i] + GAP_TITLE_NOTE;
+  }
+  y += titleLines.length * TITLE_HEIGHT;
+
+  if (config.description) {
+    y += GAP_TITLE_SUBTITLE;
+    for (const line of wrapText(config.description, contentWidth, font, TEXT_BASE)) {
+      parts.push(svgText(line, 0, getBaseline(y, DESCRIPTION_HEIGHT, TEXT_BASE), { size: TEXT_BASE, color: theme.mutedText }));
+      y += DESCRIPTION_HEIGHT;
+    }
+  }
+  for (const legend of getSvgLegends(config, models, referenceLines, formatValue, font, theme)) {
+    y += GAP_HEADER_LEGEND;
+    parts.push(svgLegend(legend, y, theme));
+    y += LEGEND_HEIGHT;
+  }
+  y += GAP_HEADER_CHART;
+
+  // Chart
+  let chart: { svg: string; height: number };
+  if (config.chartType === "scatter") {
+    const formatTick = createFormatTick(config, domain);
+    chart = {
+      svg: renderScatterChart(models, config.xAxis ?? "totalParams", formatValue, formatTick, higherIsBetter, barContainerWidth, referenceLines, theme),
+      height: SCATTER_PLOT_HEIGHT + SCATTER_X_AXIS_HEIGHT,
+    };
+  } else if (isVertical) {
+    chart = svgVerticalColumns(labeledModels, config, barContainerWidth, referenceLines, formatValue, font, theme);
+  } else {
+    chart = svgHorizontalRows(labeledModels, config, barContainerWidth, referenceLines, formatValue, font, theme);
+  }
+  parts.push(`<g transform="translate(0 ${fmt(y)})">
+    ${chart.svg}
+  </g>`);
+  y += chart.height;
+
+  // Models beyond topN are summarized after the last row
+  const others = models.filter((m) => m.collapsed);
+  if (others.length > 0 && pageIndex === pages.length - 1) {
+    y += GAP_OTHERS_ROW;
+    const indent = isVertical ? 0 : getFixedRowWidth(config.showRankings);
+    parts.push(svgText(
+      `+${others.length} more <tspan font-size="${TEXT_SM}" fill="${theme.faintText}">(${escapeHtml(formatOthersRange(others, formatValue))})</tspan>`,
+      indent,
+      getBaseline(y, OTHERS_ROW_HEIGHT, TEXT_LG),
+      { size: TEXT_LG, color: theme.mutedText },
+      true
+    ));
+    y += OTHERS_ROW_HEIGHT;
+  }
+
+  // Footer: footnotes and the data source (one truncated line each), then the branding line
+  y += GAP_CHART_FOOTER;
+  const footnotes = getFootnotes(config, pages[pageIndex]);
+  footnotes.forEach(({ number, text }) => {
+    const marker = String(number);
+    const markerSize = TEXT_XS * SUPERSCRIPT_SCALE;
+    const rise = markerSize * SUPERSCRIPT_RISE;
+    const fitted = truncateText(text, contentWidth - measureText(`${marker} `, font, TEXT_XS), font, TEXT_XS);
+    parts.push(svgText(
+      `<tspan dy="${fmt(-rise)}" font-size="${fmt(markerSize)}">${marker}</tspan><tspan dy="${fmt(rise)}"> ${escapeHtml(fitted)}</tspan>`,
+      0,
+      getBaseline(y, FOOTNOTE_LINE_HEIGHT, TEXT_XS),
+      { size: TEXT_XS, color: theme.mutedText },
+      true
+    ));
+    y += FOOTNOTE_LINE_HEIGHT;
+  });
+  if (config.source) {
+    const fitted = escapeHtml(truncateText(config.source.text, contentWidth - measureText("Source: ", font, TEXT_XS), font, TEXT_XS));
+    const text = config.source.url
+      ? `<a href="${escapeHtml(config.source.url)}" target="_blank"><tspan fill="${theme.secondaryText}">${fitted}</tspan></a>`
+      : fitted;
+    parts.push(svgText(`Source: ${text}`, 0, getBaseline(y, FOOTNOTE_LINE_HEIGHT, TEXT_XS), { size: TEXT_XS, color: theme.mutedText }, true));
+    y += FOOTNOTE_LINE_HEIGHT;
+  }
+  if (footnotes.length > 0 || config.source) y += GAP_FOOTNOTES_BRANDING;
+
+  const brandingBaseline = getBaseline(y, BRANDING_HEIGHT, TEXT_SM);
+  const errorBarNote = getErrorBarNote(config, models);
+  const branding = config.footerText
+    ? escapeHtml(config.footerText)
+    : `Made with <a href="https://llmplot.com" target="_blank"><tspan font-weight="600" fill="${theme.secondaryText}">llmplot.com</tspan></a>`;
+  parts.push(svgText(`${branding}${errorBarNote ? ` · ${escapeHtml(errorBarNote)}` : ""}`, 0, brandingBaseline, { size: TEXT_SM, color: theme.faintText }, true));
+  if (config.sponsoredBy || config.sponsorLogo) {
+    // Laid out right to left: name, logo, then "Sponsored by"
+    let right = contentWidth;
+    if (config.sponsoredBy) {
+      parts.push(svgText(config.sponsoredBy, right, brandingBaseline, { size: TEXT_SM, color: theme.secondaryText, weight: 600, anchor: "end" }));
+      right -= measureText(config.sponsoredBy, font, TEXT_SM, true) + GAP_LABEL_ITEMS;
+    }
+    if (config.sponsorLogo) {
+      const width = getImageWidth(config.sponsorLogo, SPONSOR_LOGO_HEIGHT, SPONSOR_LOGO_MAX_WIDTH);
+      parts.push(svgImage(config.sponsorLogo, right - width, y, width, SPONSOR_LOGO_HEIGHT));
+      right -= width + GAP_LABEL_ITEMS;
+    }
+    parts.push(svgText("Sponsored by", right, brandingBaseline, { size: TEXT_SM, color: theme.faintText, anchor: "end" }));
+  }
+  y += BRANDING_HEIGHT;
+
+  // The card fits this page's content and is centered on the background, as in the HTML
+  const cardHeight = y + (PADDING_INNER * 2);
+  const cardX = (backgroundWidth - cardWidth) / 2;
+  const cardY = (backgroundHeight - cardHeight) / 2;
+  const fontName = fontDisplayNames[font];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(backgroundWidth)}" height="${fmt(backgroundHeight)}" viewBox="0 0 ${fmt(backgroundWidth)} ${fmt(backgroundHeight)}" font-family="'${fontName}', ui-sans-serif, system-ui, sans-serif">
+  <title>${escapeHtml(config.title)}</title>
+  <defs>
+    <style>@font-face { font-family: '${fontName}'; src: url(${fonts[font]}) format('truetype'); font-weight: 400; font-style: normal; }</style>
+    <filter id="llmplot-grayscale"><feColorMatrix type="saturate" values="0" /></filter>
+    <filter id="llmplot-card-shadow" x="-5%" y="-5%" width="110%" height="110%"><feDropShadow dx="0" dy="1" stdDeviation="1" flood-color="#000000" flood-opacity="0.05" /></filter>
+  </defs>
+  <rect width="${fmt(backgroundWidth)}" height="${fmt(backgroundHeight)}" fill="${theme.background}" />
+  <rect x="${fmt(cardX)}" y="${fmt(cardY)}" width="${fmt(cardWidth)}" height="${fmt(cardHeight)}" rx="${theme.radius}" fill="${theme.card}" filter="url(#llmplot-card-shadow)" />
+  <g transform="translate(${fmt(cardX + PADDING_INNER)} ${fmt(cardY + PADDING_INNER)})">
+    ${parts.join("\n    ")}
+  </g>
+</svg>
+`;
+}
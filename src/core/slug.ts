@@ -0,0 +1,15 @@
+/**
+ * File name slugs, shared by the CLI and the website so both name exports the same way.
+ */
+
+/**
+ * Slugify a string for use as a filename
+ */
+export function slugify(str: string): string {
+  return str
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s-]/g, "")
+    .replace(/[\s_-]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "chart";
+}
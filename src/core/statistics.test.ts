@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import { wilsonInterval, clopperPearsonInterval, intervalsOverlap } from "./statistics.js";
+
+describe("wilsonInterval", () => {
+  test("matches the textbook interval for 50/100", () => {
+    const { low, high } = wilsonInterval(50, 100);
+    expect(low).toBeCloseTo(40.38, 2);
+    expect(high).toBeCloseTo(59.62, 2);
+  });
+
+  test("stays within 0-100 for 0/n and n/n", () => {
+    expect(wilsonInterval(0, 10).low).toBe(0);
+    expect(wilsonInterval(0, 10).high).toBeCloseTo(27.75, 2);
+    expect(wilsonInterval(10, 10).low).toBeCloseTo(72.25, 2);
+    expect(wilsonInterval(10, 10).high).toBeCloseTo(100, 10);
+  });
+});
+
+describe("clopperPearsonInterval", () => {
+  test("matches the exact interval for 50/100", () => {
+    const { low, high } = clopperPearsonInterval(50, 100);
+    expect(low).toBeCloseTo(39.83, 2);
+    expect(high).toBeCloseTo(60.17, 2);
+  });
+
+  test("has closed-form bounds for 0/n and n/n", () => {
+    // With no failures (or no passes) the open bound is 1 - (alpha/2)^(1/n)
+    expect(clopperPearsonInterval(0, 10)).toEqual({ low: 0, high: expect.closeTo((1 - 0.025 ** 0.1) * 100, 4) });
+    expect(clopperPearsonInterval(10, 10)).toEqual({ low: expect.closeTo(0.025 ** 0.1 * 100, 4), high: 100 });
+  });
+
+  test("is wider than the Wilson interval", () => {
+    const exact = clopperPearsonInterval(7, 20);
+    const wilson = wilsonInterval(7, 20);
+    expect(exact.low).toBeLessThan(wilson.low);
+    expect(exact.high).toBeGreaterThan(wilson.high);
+  });
+});
+
+describe("intervalsOverlap", () => {
+  test("counts touching endpoints as overlapping", () => {
+    expect(intervalsOverlap({ low: 10, high: 20 }, { low: 20, high: 30 })).toBe(true);
+    expect(intervalsOverlap({ low: 10, high: 20 }, { low: 21, high: 30 })).toBe(false);
+  });
+});
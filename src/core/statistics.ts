@@ -0,0 +1,143 @@
+/**
+ * Binomial confidence intervals for passed/total scores.
+ * All intervals are returned as percentages (0-100).
+ */
+
+import type { ConfidenceInterval } from "./types.js";
+
+/** z-score for a two-sided 95% interval */
+const Z_95 = 1.959963984540054;
+
+/** Significance level for a two-sided 95% interval */
+const ALPHA_95 = 0.05;
+
+/**
+ * Wilson score interval.
+ * Well-behaved for small samples and for proportions near 0 or 1.
+ */
+export function wilsonInterval(passed: number, total: number, z: number = Z_95): ConfidenceInterval {
+  const p = passed / total;
+  const z2 = z * z;
+  const denominator = 1 + z2 / total;
+  const center = (p + z2 / (2 * total)) / denominator;
+  const margin = (z / denominator) * Math.sqrt((p * (1 - p)) / total + z2 / (4 * total * total));
+  return {
+    low: Math.max(0, center - margin) * 100,
+    high: Math.min(1, center + margin) * 100,
+  };
+}
+
+/**
+ * Clopper-Pearson ("exact") interval from beta distribution quantiles.
+ * Conservative: coverage is always at least the nominal level.
+ */
+export function clopperPearsonInterval(passed: number, total: number, alpha: number = ALPHA_95): ConfidenceInterval {
+  const low = passed === 0 ? 0 : betaQuantile(alpha / 2, passed, total - passed + 1);
+  const high = passed === total ? 1 : betaQuantile(1 - alpha / 2, passed + 1, total - passed);
+  return { low: low * 100, high: high * 100 };
+}
+
+/**
+ * Whether two intervals overlap (touching endpoints count as overlapping).
+ */
+export function intervalsOverlap(a: ConfidenceInterval, b: ConfidenceInterval): boolean {
+  return a.low <= b.high && b.low <= a.high;
+}
+
+/**
+ * Natural log of the gamma function (Lanczos approximation, g = 7).
+ */
+function logGamma(x: number): number {
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+  if (x < 0.5) {
+    // Reflection formula
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  const shifted = x - 1;
+  let sum = coefficients[0];
+  for (let i = 1; i < coefficients.length; i++) {
+    sum += coefficients[i] / (shifted + i);
+  }
+  const t = shifted + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (shifted + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/**
+ * Continued fraction for the incomplete beta function (modified Lentz's method).
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const maxIterations = 200;
+  const epsilon = 3e-14;
+  const tiny = 1e-300;
+
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= maxIterations; m++) {
+    const m2 = 2 * m;
+
+    // Even step
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    // Odd step
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+
+    if (Math.abs(delta - 1) < epsilon) break;
+  }
+
+  return h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b), i.e. the beta CDF.
+ */
+function regularizedBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const logFront = logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x);
+  const front = Math.exp(logFront);
+
+  // The continued fraction converges fastest on this side of the mean
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/**
+ * Inverse of the beta CDF, found by bisection.
+ */
+function betaQuantile(p: number, a: number, b: number): number {
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (regularizedBeta(mid, a, b) < p) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
@@ -0,0 +1,354 @@
+/**
+ * Text measurement from the embedded TTF fonts, so the layout can size text
+ * without a browser. Widths are the sum of glyph advances (cmap + hmtx tables).
+ * The fonts are variable and their default instance isn't always weight 400
+ * (Manrope's is 200), so advances are moved to the weights text is drawn at
+ * with the HVAR deltas. Kerning is ignored, and Inter's optical size axis stays
+ * at its default, the widest setting for text sizes.
+ */
+
+import { fonts, type FontFamily } from "./assets.js";
+
+interface FontMetrics {
+  unitsPerEm: number;
+  advances: Map<number, number>; // code point -> advance width in font units, at REGULAR_WEIGHT
+  boldAdvances: Map<number, number>; // the same at BOLD_WEIGHT
+  fallbackAdvance: number; // for characters the font doesn't cover
+}
+
+interface VariationAxis {
+  tag: string;
+  min: number;
+  default: number;
+  max: number;
+}
+
+/**
+ * Weights text is measured at. Regular text is drawn at 400; bold text is drawn
+ * at 600 or 700, or synthesized from 400, none of which is wider than the 700 instance.
+ */
+const REGULAR_WEIGHT = 400;
+const BOLD_WEIGHT = 700;
+
+const ELLIPSIS = "…";
+
+const metricsCache = new Map<FontFamily, FontMetrics>();
+
+function decodeDataUrl(dataUrl: string): Uint8Array {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(",") + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Map code points to glyph ids from the cmap table.
+ * Prefers a format 12 subtable (full Unicode), falling back to format 4 (BMP only).
+ */
+function readCmap(view: DataView, cmap: number): Map<number, number> {
+  const glyphs = new Map<number, number>();
+  const subtableCount = view.getUint16(cmap + 2);
+  let format4: number | undefined;
+  let format12: number | undefined;
+  for (let i = 0; i < subtableCount; i++) {
+    const subtable = cmap + view.getUint32(cmap + 4 + i * 8 + 4);
+    const format = view.getUint16(subtable);
+    if (format === 12) format12 ??= subtable;
+    if (format === 4) format4 ??= subtable;
+  }
+
+  if (format12 !== undefined) {
+    const groupCount = view.getUint32(format12 + 12);
+    for (let g = 0; g < groupCount; g++) {
+      const group = format12 + 16 + g * 12;
+      const start = view.getUint32(group);
+      const end = view.getUint32(group + 4);
+      const startGlyph = view.getUint32(group + 8);
+      for (let c = start; c <= end; c++) {
+        glyphs.set(c, startGlyph + (c - start));
+      }
+    }
+  } else if (format4 !== undefined) {
+    const segCountX2 = view.getUint16(format4 + 6);
+    const endCodes = format4 + 14;
+    const startCodes = endCodes + segCountX2 + 2; // skips reservedPad
+    const idDeltas = startCodes + segCountX2;
+    const idRangeOffsets = idDeltas + segCountX2;
+    for (let s = 0; s < segCountX2 / 2; s++) {
+      const start = view.getUint16(startCodes + s * 2);
+      const end = view.getUint16(endCodes + s * 2);
+      const delta = view.getUint16(idDeltas + s * 2);
+      const rangeOffset = view.getUint16(idRangeOffsets + s * 2);
+      for (let c = start; c <= end && c !== 0xffff; c++) {
+        let glyph: number;
+        if (rangeOffset === 0) {
+          glyph = (c + delta) & 0xffff;
+        } else {
+          // idRangeOffset is relative to its own position in the array
+          const raw = view.getUint16(idRangeOffsets + s * 2 + rangeOffset + (c - start) * 2);
+          glyph = raw === 0 ? 0 : (raw + delta) & 0xffff;
+        }
+        if (glyph !== 0) glyphs.set(c, glyph);
+      }
+    }
+  }
+
+  return glyphs;
+}
+
+function readF2Dot14(view: DataView, offset: number): number {
+  return view.getInt16(offset) / 16384;
+}
+
+/**
+ * Read the variation axes from the fvar table.
+ */
+function readAxes(view: DataView, fvar: number): VariationAxis[] {
+  const axesOffset = view.getUint16(fvar + 4);
+  const axisCount = view.getUint16(fvar + 8);
+  const axisSize = view.getUint16(fvar + 10);
+  return Array.from({ length: axisCount }, (_, i) => {
+    const record = fvar + axesOffset + i * axisSize;
+    return {
+      tag: String.fromCharCode(...[0, 1, 2, 3].map((b) => view.getUint8(record + b))),
+      min: view.getInt32(record + 4) / 65536,
+      default: view.getInt32(record + 8) / 65536,
+      max: view.getInt32(record + 12) / 65536,
+    };
+  });
+}
+
+/**
+ * Normalized coordinates (-1 to 1) for a weight, with every other axis at its default.
+ * The avar table, if present, remaps each axis piecewise-linearly.
+ */
+function normalizeCoords(view: DataView, axes: VariationAxis[], avar: number | undefined, weight: number): number[] {
+  const coords = axes.map((axis) => {
+    if (axis.tag !== "wght") return 0;
+    const value = Math.min(Math.max(weight, axis.min), axis.max);
+    if (value < axis.default) return (value - axis.default) / (axis.default - axis.min);
+    if (value > axis.default) return (value - axis.default) / (axis.max - axis.default);
+    return 0;
+  });
+  if (avar === undefined) return coords;
+
+  // Segment maps follow the version and axis count, one per axis in fvar order
+  let segmentMap = avar + 8;
+  return coords.map((coord) => {
+    const pairCount = view.getUint16(segmentMap);
+    const pairs = segmentMap + 2;
+    segmentMap = pairs + pairCount * 4;
+    for (let i = 1; i < pairCount; i++) {
+      const fromHigh = readF2Dot14(view, pairs + i * 4);
+      if (coord > fromHigh) continue;
+      const fromLow = readF2Dot14(view, pairs + (i - 1) * 4);
+      const toLow = readF2Dot14(view, pairs + (i - 1) * 4 + 2);
+      const toHigh = readF2Dot14(view, pairs + i * 4 + 2);
+      return fromHigh === fromLow ? toLow : toLow + ((coord - fromLow) * (toHigh - toLow)) / (fromHigh - fromLow);
+    }
+    return coord;
+  });
+}
+
+/**
+ * How much a variation region applies at one axis coordinate (0 to 1).
+ */
+function getAxisScalar(coord: number, start: number, peak: number, end: number): number {
+  if (peak === 0 || coord === peak) return 1;
+  // Malformed regions don't vary along this axis
+  if (start > peak || peak > end || (start < 0 && end > 0)) return 1;
+  if (coord <= start || coord >= end) return 0;
+  return coord < peak ? (coord - start) / (peak - start) : (end - coord) / (end - peak);
+}
+
+/**
+ * Advance width deltas from the HVAR table at normalized coordinates, by glyph id.
+ * Deltas come from the item variation store, indexed directly by glyph id or through
+ * the table's advance width mapping.
+ */
+function readAdvanceDeltas(view: DataView, hvar: number, coords: number[]): (glyph: number) => number {
+  const store = hvar + view.getUint32(hvar + 4);
+  const mappingOffset = view.getUint32(hvar + 8);
+
+  const regionList = store + view.getUint32(store + 2);
+  const regionAxisCount = view.getUint16(regionList);
+  const regionCount = view.getUint16(regionList + 2);
+  const regionScalars = Array.from({ length: regionCount }, (_, region) => {
+    let scalar = 1;
+    for (let axis = 0; axis < regionAxisCount; axis++) {
+      const record = regionList + 4 + (region * regionAxisCount + axis) * 6;
+      scalar *= getAxisScalar(
+        coords[axis] ?? 0,
+        readF2Dot14(view, record),
+        readF2Dot14(view, record + 2),
+        readF2Dot14(view, record + 4)
+      );
+    }
+    return scalar;
+  });
+
+  const dataCount = view.getUint16(store + 6);
+  const itemDelta = (outer: number, inner: number): number => {
+    if (outer >= dataCount) return 0;
+    const data = store + view.getUint32(store + 8 + outer * 4);
+    const itemCount = view.getUint16(data);
+    const wordDeltaCount = view.getUint16(data + 2);
+    const regionIndexCount = view.getUint16(data + 4);
+    if (inner >= itemCount) return 0;
+
+    // Each row starts with the word-sized deltas, then the smaller ones
+    const longWords = (wordDeltaCount & 0x8000) !== 0;
+    const wordCount = wordDeltaCount & 0x7fff;
+    const wordSize = longWords ? 4 : 2;
+    const smallSize = longWords ? 2 : 1;
+    const regionIndexes = data + 6;
+    let position = regionIndexes + regionIndexCount * 2 + inner * (wordCount * wordSize + (regionIndexCount - wordCount) * smallSize);
+    let delta = 0;
+    for (let i = 0; i < regionIndexCount; i++) {
+      let value: number;
+      if (i < wordCount) {
+        value = longWords ? view.getInt32(position) : view.getInt16(position);
+        position += wordSize;
+      } else {
+        value = longWords ? view.getInt16(position) : view.getInt8(position);
+        position += smallSize;
+      }
+      delta += value * (regionScalars[view.getUint16(regionIndexes + i * 2)] ?? 0);
+    }
+    return delta;
+  };
+
+  if (mappingOffset === 0) return (glyph) => itemDelta(0, glyph);
+
+  const mapping = hvar + mappingOffset;
+  const format = view.getUint8(mapping);
+  const entryFormat = view.getUint8(mapping + 1);
+  const mapCount = format === 0 ? view.getUint16(mapping + 2) : view.getUint32(mapping + 2);
+  const entries = mapping + (format === 0 ? 4 : 6);
+  const entrySize = ((entryFormat >> 4) & 0x3) + 1;
+  const innerSize = 2 ** ((entryFormat & 0xf) + 1);
+  return (glyph) => {
+    // Glyphs past the end of the mapping use its last entry
+    const entry = entries + Math.min(glyph, mapCount - 1) * entrySize;
+    let value = 0;
+    for (let b = 0; b < entrySize; b++) {
+      value = value * 256 + view.getUint8(entry + b);
+    }
+    return itemDelta(Math.floor(value / innerSize), value % innerSize);
+  };
+}
+
+function parseFontMetrics(bytes: Uint8Array): FontMetrics {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const tables = new Map<string, number>();
+  const tableCount = view.getUint16(4);
+  for (let i = 0; i < tableCount; i++) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(bytes[record], bytes[record + 1], bytes[record + 2], bytes[record + 3]);
+    tables.set(tag, view.getUint32(record + 8));
+  }
+  const table = (tag: string): number => {
+    const offset = tables.get(tag);
+    if (offset === undefined) throw new Error(`Font is missing its ${tag} table`);
+    return offset;
+  };
+
+  const unitsPerEm = view.getUint16(table("head") + 18);
+  const hMetricCount = view.getUint16(table("hhea") + 34);
+  const hmtx = table("hmtx");
+  // Glyphs past the last long metric share its advance width
+  const glyphAdvance = (glyph: number) => view.getUint16(hmtx + Math.min(glyph, hMetricCount - 1) * 4);
+
+  const glyphs = readCmap(view, table("cmap"));
+
+  // Static fonts (no fvar or HVAR) have one set of advances for every weight
+  const fvar = tables.get("fvar");
+  const hvar = tables.get("HVAR");
+  const axes = fvar !== undefined ? readAxes(view, fvar) : [];
+  const getAdvances = (weight: number): Map<number, number> => {
+    const delta = hvar !== undefined && axes.length > 0
+      ? readAdvanceDeltas(view, hvar, normalizeCoords(view, axes, tables.get("avar"), weight))
+      : () => 0;
+    const advances = new Map<number, number>();
+    for (const [codePoint, glyph] of glyphs) {
+      advances.set(codePoint, glyphAdvance(glyph) + delta(glyph));
+    }
+    return advances;
+  };
+
+  return {
+    unitsPerEm,
+    advances: getAdvances(REGULAR_WEIGHT),
+    boldAdvances: getAdvances(BOLD_WEIGHT),
+    // Emoji and other uncovered characters come from a fallback font; assume they're wide
+    fallbackAdvance: unitsPerEm,
+  };
+}
+
+function getFontMetrics(font: FontFamily): FontMetrics {
+  let metrics = metricsCache.get(font);
+  if (!metrics) {
+    metrics = parseFontMetrics(decodeDataUrl(fonts[font]));
+    metricsCache.set(font, metrics);
+  }
+  return metrics;
+}
+
+/**
+ * Width of a single line of text in px.
+ */
+export function measureText(text: string, font: FontFamily, fontSize: number, bold = false): number {
+  const metrics = getFontMetrics(font);
+  const advances = bold ? metrics.boldAdvances : metrics.advances;
+  let units = 0;
+  for (const char of text) {
+    units += advances.get(char.codePointAt(0)!) ?? metrics.fallbackAdvance;
+  }
+  return (units / metrics.unitsPerEm) * fontSize;
+}
+
+/**
+ * Shorten text with a trailing ellipsis until it fits in maxWidth px.
+ * Text that already fits is returned unchanged.
+ */
+export function truncateText(text: string, maxWidth: number, font: FontFamily, fontSize: number, bold = false): string {
+  if (measureText(text, font, fontSize, bold) <= maxWidth) return text;
+  const chars = Array.from(text);
+  while (chars.length > 0 && measureText(chars.join("").trimEnd() + ELLIPSIS, font, fontSize, bold) > maxWidth) {
+    chars.pop();
+  }
+  return chars.join("").trimEnd() + ELLIPSIS;
+}
+
+/**
+ * Greedy word wrap into lines no wider than maxWidth px.
+ * Explicit newlines start a new line; words longer than a line are broken between characters.
+ */
+export function wrapText(text: string, maxWidth: number, font: FontFamily, fontSize: number, bold = false): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, font, fontSize, bold) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // Break an overlong word across as many lines as it needs
+      line = "";
+      for (const char of word) {
+        if (line && measureText(line + char, font, fontSize, bold) > maxWidth) {
+          lines.push(line);
+          line = "";
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
@@ -0,0 +1,72 @@
+/**
+ * Color schemes for rendered charts.
+ * A theme is a built-in preset with optional per-color overrides; the renderer
+ * only ever sees the resolved result.
+ */
+
+import type { Theme, ThemeConfig, ThemePreset } from "./types.js";
+
+/** Theme fields that hold colors (everything but the radius) */
+export const THEME_COLOR_KEYS = [
+  "background",
+  "card",
+  "title",
+  "text",
+  "secondaryText",
+  "mutedText",
+  "faintText",
+  "track",
+  "badgeGold",
+  "badgeSilver",
+  "badgeBronze",
+  "badge",
+  "badgeText",
+] as const satisfies readonly (keyof Theme)[];
+
+export type ThemeColorKey = (typeof THEME_COLOR_KEYS)[number];
+
+/** Built-in presets. Light matches the original gray-on-white look. */
+export const THEMES: Record<ThemePreset, Theme> = {
+  light: {
+    background: "#F3F4F6", // gray-100
+    card: "#FFFFFF",
+    title: "#111827", // gray-900
+    text: "#1F2937", // gray-800
+    secondaryText: "#4B5563", // gray-600
+    mutedText: "#6B7280", // gray-500
+    faintText: "#9CA3AF", // gray-400
+    track: "#E5E7EB", // gray-200
+    badgeGold: "#F59E0B",
+    badgeSilver: "#9CA3AF",
+    badgeBronze: "#CD7F32",
+    badge: "#E6E7EB",
+    badgeText: "#6B7280",
+    radius: 12,
+  },
+  dark: {
+    background: "#030712", // gray-950
+    card: "#111827", // gray-900
+    title: "#F9FAFB", // gray-50
+    text: "#E5E7EB", // gray-200
+    secondaryText: "#D1D5DB", // gray-300
+    mutedText: "#9CA3AF", // gray-400
+    faintText: "#6B7280", // gray-500
+    track: "#374151", // gray-700
+    badgeGold: "#F59E0B",
+    badgeSilver: "#9CA3AF",
+    badgeBronze: "#CD7F32",
+    badge: "#374151",
+    badgeText: "#D1D5DB",
+    radius: 12,
+  },
+};
+
+/**
+ * Resolve a theme config to concrete colors: the preset (light by default)
+ * with every override that is set applied on top.
+ */
+export function resolveTheme(config: ThemeConfig | undefined): Theme {
+  const { preset = "light", ...overrides } = config ?? {};
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+  return { ...THEMES[preset], ...defined };
+}
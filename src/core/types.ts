@@ -3,11 +3,83 @@ export interface ModelData {
   passed?: number;       // required if percent not set
   total?: number;        // required if percent not set
   percent?: number;      // alternative to passed/total (0-100)
+  value?: number;        // raw score in the config's metric units (required instead of passed/total/percent when a metric is set)
   displayName?: string;  // optional override for display (e.g., "Opus 4.5" instead of "claude-opus-4.5")
   totalParams?: number;  // billions (e.g., 123 for 123B)
   activeParams?: number; // billions (e.g., 32 for 32B) - for MoE models
   color?: string;        // optional hex color override (e.g., "#FF5733")
   iconDataUrl?: string;  // optional base64 data URL for custom icon (data:image/svg+xml;base64,... or data:image/png;base64,...)
+  scores?: Record<string, BenchmarkScore>; // per-benchmark results keyed by Benchmark.key (used instead of passed/total/percent)
+  ciLow?: number;        // optional explicit confidence interval lower bound (0-100, or metric units), requires ciHigh
+  ciHigh?: number;       // optional explicit confidence interval upper bound (0-100, or metric units), requires ciLow
+  costPerMillionInput?: number;  // USD per million input tokens
+  costPerMillionOutput?: number; // USD per million output tokens
+  costPerRun?: number;   // USD to run the whole benchmark once
+  latencyMs?: number;    // typical latency in milliseconds
+  previous?: BenchmarkScore; // earlier run's score (required for dumbbell charts)
+  note?: string;         // footnote text for this model, shown in the footer with a numbered marker
+  footnote?: string;     // key into InputConfig.footnotes, for notes shared by several models
+  group?: string;        // key into InputConfig.groups (required when groups are defined)
+  highlight?: boolean;   // emphasize this model: bold label, and the others are muted when InputConfig.dimOthers is set
+  callout?: string;      // short badge shown next to the model name (e.g., "New")
+}
+
+/**
+ * A single benchmark result. Same rules as the top-level ModelData score:
+ * either passed/total or percent, or value when a metric is set.
+ */
+export interface BenchmarkScore {
+  passed?: number;
+  total?: number;
+  percent?: number;
+  value?: number;
+}
+
+/**
+ * Scores that are not percentages (Elo, tokens/sec, latency, raw points).
+ * Bars are normalized against [min, max] instead of 0-100.
+ */
+export interface MetricConfig {
+  unit?: string;            // e.g., "Elo" or "tok/s"
+  min?: number;             // value of an empty bar, defaults to 0 (or the lowest value, if negative)
+  max?: number;             // value of a full bar, defaults to the highest value
+  format?: string;          // label template with {value} and {unit}, defaults to "{value} {unit}"
+  higherIsBetter?: boolean; // sort and rank direction, defaults to true (InputConfig.higherIsBetter takes precedence)
+}
+
+/**
+ * Dashed marker for a fixed score (e.g., human expert or random chance).
+ */
+export interface ReferenceLine {
+  label: string;  // shown in the header legend (e.g., "Human expert")
+  value: number;  // percentage (0-100), or metric units when a metric is set
+  color?: string; // optional hex color, defaults to a built-in palette
+}
+
+/**
+ * Where the scores come from, credited in the footer (e.g., "Source: internal eval v3").
+ */
+export interface DataSource {
+  text: string;
+  url?: string; // optional link for the source text
+}
+
+/**
+ * Benchmark definition for multi-benchmark (grouped bar) charts.
+ */
+export interface Benchmark {
+  key: string;    // key used in each model's `scores` map (e.g., "swe-bench")
+  label?: string; // legend label, defaults to key
+  color?: string; // optional hex color for this benchmark's bars
+}
+
+/**
+ * Section of the leaderboard (e.g., "Closed models" and "Open weights").
+ * Groups are shown in config order, each under its own subheading.
+ */
+export interface ModelGroup {
+  key: string;    // key used in each model's `group` field (e.g., "open")
+  label?: string; // subheading, defaults to key
 }
 
 /**
@@ -22,14 +94,141 @@ export interface CustomProvider {
 
 import type { FontFamily } from "./assets.js";
 
+/**
+ * Chart orientation.
+ * - "horizontal": one row per model with bars growing left to right
+ * - "vertical": one column per model with bars growing bottom to top
+ */
+export type Orientation = "horizontal" | "vertical";
+
+/**
+ * Shape of the exported image (background width:height).
+ * - "4:5": portrait, the default
+ * - "1:1": square
+ * - "16:9": slides and Twitter cards
+ * - "1.91:1": LinkedIn and Open Graph link previews
+ * - "auto": no fixed shape, the background is cropped tight around the card
+ */
+export type AspectRatio = "4:5" | "1:1" | "16:9" | "1.91:1" | "auto";
+
+/**
+ * Chart type.
+ * - "bar": one bar (or bar group) per model
+ * - "scatter": score plotted against an x-axis metric, with a Pareto frontier
+ * - "dumbbell": previous and current score per model, joined by a line
+ */
+export type ChartType = "bar" | "scatter" | "dumbbell";
+
+/**
+ * Row order for dumbbell charts.
+ * - "score": current score, best first
+ * - "delta": change from the previous score, biggest gain first
+ */
+export type DumbbellSort = "score" | "delta";
+
+/**
+ * Row order. Ranks always follow the score, whatever the order.
+ * - "score": best score first
+ * - "input": order of the models list
+ * - "provider": alphabetical by provider, best score first within each
+ * - "params": largest totalParams first, models without params last
+ */
+export type SortBy = "score" | "input" | "provider" | "params";
+
+/**
+ * Whether ranks count across the whole chart or restart in each group.
+ */
+export type RankScope = "global" | "group";
+
+/**
+ * Built-in color schemes.
+ */
+export type ThemePreset = "light" | "dark";
+
+/**
+ * Chart colors (hex) and card corner radius, fully resolved from a preset and overrides.
+ */
+export interface Theme {
+  background: string;    // page behind the card
+  card: string;          // card surface
+  title: string;         // chart title
+  text: string;          // model names and values
+  secondaryText: string; // legends, labels next to bars, footer links
+  mutedText: string;     // description, group headings, footnotes
+  faintText: string;     // params, footnote markers, axis labels
+  track: string;         // empty bar tracks and gridlines
+  badgeGold: string;     // rank 1 badge
+  badgeSilver: string;   // rank 2 badge
+  badgeBronze: string;   // rank 3 badge
+  badge: string;         // rank 4+ badge
+  badgeText: string;     // rank 4+ badge number
+  radius: number;        // card corner radius in pixels
+}
+
+/**
+ * A preset plus any colors (or radius) to override.
+ */
+export interface ThemeConfig extends Partial<Theme> {
+  preset?: ThemePreset; // defaults to "light"
+}
+
+/**
+ * Metric on the x-axis of scatter charts (always log scale, lower is better).
+ * "activeParams" falls back to totalParams for dense models.
+ */
+export type ScatterXAxis =
+  | "totalParams"
+  | "activeParams"
+  | "costPerRun"
+  | "costPerMillionInput"
+  | "costPerMillionOutput"
+  | "latencyMs";
+
+/**
+ * How error bars are derived from passed/total scores.
+ * Explicit ciLow/ciHigh on a model always take precedence.
+ */
+export type ErrorBarMethod = "wilson" | "clopper-pearson" | "none";
+
+/** A confidence interval, in percent (0-100) */
+export interface ConfidenceInterval {
+  low: number;
+  high: number;
+}
+
 export interface InputConfig {
   title: string;
   description?: string;
   sponsoredBy?: string;
+  sponsorLogo?: string; // optional sponsor logo (data URL), shown after "Sponsored by" in the footer
+  logo?: string; // optional organization logo (data URL), shown before the title
+  footerText?: string; // optional text replacing the "Made with llmplot.com" credit
+  source?: DataSource; // optional data source line below the footnotes
   showRankings: boolean; // default: false
-  percentPrecision: number; // default: 1, controls decimal places in percentage display
+  percentPrecision: number; // default: 1, controls decimal places in percentage (or metric value) display
+  metric?: MetricConfig; // optional non-percentage metric, scores are then given as `value`
+  higherIsBetter?: boolean; // false ranks the lowest score first (error rates, latency), defaults to metric.higherIsBetter or true
   font?: FontFamily; // optional font family, defaults to "sora"
+  theme?: ThemeConfig; // optional colors and corner radius, defaults to the light preset
+  orientation?: Orientation; // optional chart orientation, defaults to "horizontal"
+  aspectRatio?: AspectRatio; // optional image shape, defaults to "4:5"
+  chartType?: ChartType; // optional chart type, defaults to "bar"
+  xAxis?: ScatterXAxis; // scatter x-axis metric, defaults to "totalParams"
+  dumbbellSort?: DumbbellSort; // dumbbell row order, defaults to "score"
+  sortBy?: SortBy; // row order, defaults to "score"
+  groups?: ModelGroup[]; // optional sections, each model picks one with `group`
+  rankScope?: RankScope; // with groups, rank globally or within each group, defaults to "global"
+  dimOthers?: boolean; // mute every model without `highlight: true`, defaults to false
+  topN?: number; // chart only the best N models, summarizing the rest in one row
+  maxModelsPerPage?: number; // split the models into pages (carousel images) of at most this many
   customProviders?: CustomProvider[]; // optional custom provider definitions
+  benchmarks?: Benchmark[]; // optional benchmark definitions, enables grouped bars
+  referenceLines?: ReferenceLine[]; // optional dashed markers for fixed scores
+  footnotes?: Record<string, string>; // footnote text by key, referenced from ModelData.footnote
+  sortBenchmark?: string; // benchmark key used for sorting and ranking, defaults to the first benchmark
+  errorBars?: ErrorBarMethod; // optional 95% error bars for passed/total scores, defaults to "none"
+  overlapTies?: boolean; // rank models whose intervals overlap the rank leader's as ties, defaults to false
+  baselineRanks?: Record<string, number>; // global rank per `model` string on a previous leaderboard, enables rank-change badges
   models: ModelData[];
 }
 
@@ -42,9 +241,32 @@ export interface ProcessedModel extends ModelData {
   provider: string;      // parsed from model string
   modelName?: string;    // parsed from model string (undefined if provider-only)
   displayLabel: string;  // displayName if set, otherwise modelName, otherwise provider
-  percentage: number;
+  value: number;         // raw score (equals percentage unless a metric is set)
+  percentage: number;    // bar length, normalized to 0-100 against the metric domain
   providerConfig: ProviderConfig;
-  rank: number;          // calculated rank with ties (1, 2, 3, 3, 5, 5, 5, 8)
+  rank: number;          // calculated rank with ties (1, 2, 3, 3, 5, 5, 5, 8), 1 = best score
   paramsLabel?: string;  // formatted: "123B Dense" or "355B / 32B Active"
-  usePercent: boolean;   // true if percent was used (don't show X/Y in bar)
+  usePercent: boolean;   // true if percent or a metric value was used (don't show X/Y in bar)
+  benchmarkScores?: ProcessedBenchmarkScore[]; // one entry per benchmark in config order (grouped charts only)
+  interval?: ConfidenceInterval; // error bar range, from ciLow/ciHigh or the errorBars method
+  xValue?: number;       // scatter x-axis value (scatter charts only)
+  previousValue?: number; // earlier run's raw score (dumbbell charts only)
+  previousPercentage?: number; // earlier run's score, normalized like percentage (dumbbell charts only)
+  delta?: number;        // raw score change since the previous run, in percentage points or metric units (dumbbell charts only)
+  rankChange?: number;   // places gained since the baseline leaderboard (negative = dropped)
+  isNewEntry?: boolean;  // model was not on the baseline leaderboard
+  footnoteNumber?: number; // marker number for this model's note or footnote, in display order
+  groupLabel?: string;   // subheading of the model's group (grouped leaderboards only)
+  dimmed: boolean;       // drawn muted because dimOthers is set and another model is highlighted
+  collapsed: boolean;    // beyond topN: left out of the chart and counted in the "+N more" row
+}
+
+export interface ProcessedBenchmarkScore {
+  key: string;
+  label: string;
+  color: string;
+  percentage: number;
+  passed?: number;
+  total?: number;
+  usePercent: boolean;
 }
@@ -1,8 +1,12 @@
 import { useState, useRef } from "react";
-import { ArrowDownToLine, ChevronDown, Download, PlusCircle, Save, FileCode, Image as ImageIcon, Shapes, RotateCcw } from "lucide-react";
+import { ArrowDownToLine, ChevronDown, ChevronLeft, ChevronRight, Download, MousePointerClick, PlusCircle, Save, FileCode, FileText, Image as ImageIcon, Shapes, RotateCcw } from "lucide-react";
 import { toast } from "sonner";
 import { useChartConfig, hasErrors, formatErrors, chartConfigDefaults } from "./chart/useChartConfig.js";
 import { ModelCard } from "./chart/ModelCard.js";
+import { BenchmarkCard } from "./chart/BenchmarkCard.js";
+import { ReferenceLineCard } from "./chart/ReferenceLineCard.js";
+import { GroupCard } from "./chart/GroupCard.js";
+import { LogoUpload } from "./chart/LogoUpload.js";
 import { AddCustomProviderModal } from "./chart/AddCustomProviderModal.js";
 import { ShadowDomChart } from "./chart/ShadowDomChart.js";
 import { SupportModal } from "./SupportModal.js";
@@ -27,8 +31,45 @@ import { ConfigLabel } from "@/components/config-card/config-label";
 import { ConfigInput } from "@/components/config-card/config-input";
 import { ConfigTextarea } from "@/components/config-card/config-textarea";
 import { AdvancedContent } from "@/components/common/advanced-content";
+import { Input } from "@/components/ui/input";
+import { THEMES, type ThemeColorKey } from "@core/theme.js";
 
-import { fontFamilies, fontConfig, type FontFamily, type CustomProvider } from "./chart/types.js";
+import {
+  fontFamilies,
+  fontConfig,
+  orientations,
+  aspectRatios,
+  aspectRatioLabels,
+  chartTypes,
+  scatterXAxes,
+  scatterXAxisLabels,
+  dumbbellSorts,
+  dumbbellSortLabels,
+  sortBys,
+  sortByLabels,
+  errorBarMethods,
+  errorBarLabels,
+  themePresets,
+  themePresetLabels,
+  type ThemePreset,
+  type FontFamily,
+  type Orientation,
+  type AspectRatio,
+  type ChartType,
+  type ScatterXAxis,
+  type DumbbellSort,
+  type SortBy,
+  type ErrorBarMethod,
+  type CustomProvider,
+} from "./chart/types.js";
+
+/** Theme colors that can be overridden from the chart settings */
+const themeColorFields: { key: ThemeColorKey; label: string }[] = [
+  { key: "background", label: "Background" },
+  { key: "card", label: "Card" },
+  { key: "text", label: "Text" },
+  { key: "track", label: "Track" },
+];
 
 export default function ChartGenerator() {
   const [showCustomProviderModal, setShowCustomProviderModal] = useState(false);
@@ -44,6 +85,9 @@ export default function ChartGenerator() {
     markTouched,
     chartHtml,
     isGenerating,
+    previewPage,
+    setPreviewPage,
+    pageCount,
     containerRef,
     updateConfig,
     updateModel,
@@ -52,9 +96,19 @@ export default function ChartGenerator() {
     addCustomProvider,
     removeCustomProvider,
     updateCustomProvider,
+    addBenchmark,
+    updateBenchmark,
+    removeBenchmark,
+    addReferenceLine,
+    updateReferenceLine,
+    removeReferenceLine,
+    addGroup,
+    updateGroup,
+    removeGroup,
     downloadHtml,
     downloadPng,
     downloadSvg,
+    downloadPdf,
     downloadYaml,
     importYaml,
     restoreSampleData,
@@ -103,9 +157,11 @@ export default function ChartGenerator() {
     }
   };
 
-  const handleDownloadHtml = () => withSupportModal(downloadHtml);
+  const handleDownloadHtml = () => withSupportModal(() => downloadHtml());
+  const handleDownloadInteractiveHtml = () => withSupportModal(() => downloadHtml(true));
   const handleDownloadPng = () => withSupportModal(downloadPng);
   const handleDownloadSvg = () => withSupportModal(downloadSvg);
+  const handleDownloadPdf = () => withSupportModal(downloadPdf);
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-[1fr_1px_1fr] gap-8">
@@ -167,8 +223,25 @@ export default function ChartGenerator() {
               // Pin advanced open if any advanced field differs from default
               const hasAdvancedValues = Boolean(
                 chartConfig.sponsoredBy ||
+                chartConfig.sponsorLogo ||
+                chartConfig.logo ||
+                chartConfig.footerText ||
+                chartConfig.source ||
                 chartConfig.showRankings !== chartConfigDefaults.showRankings ||
-                chartConfig.percentPrecision !== chartConfigDefaults.percentPrecision
+                chartConfig.percentPrecision !== chartConfigDefaults.percentPrecision ||
+                chartConfig.orientation !== chartConfigDefaults.orientation ||
+                chartConfig.aspectRatio !== chartConfigDefaults.aspectRatio ||
+                chartConfig.chartType !== chartConfigDefaults.chartType ||
+                chartConfig.errorBars !== chartConfigDefaults.errorBars ||
+                chartConfig.overlapTies !== chartConfigDefaults.overlapTies ||
+                chartConfig.dimOthers !== chartConfigDefaults.dimOthers ||
+                chartConfig.topN ||
+                chartConfig.maxModelsPerPage ||
+                chartConfig.sortBy !== chartConfigDefaults.sortBy ||
+                chartConfig.higherIsBetter !== chartConfigDefaults.higherIsBetter ||
+                chartConfig.metric.enabled ||
+                chartConfig.theme.radius ||
+                Object.values(chartConfig.theme.colors).some(Boolean)
               );
               return (
               <ConfigCardColumn gap="sm">
@@ -204,6 +277,24 @@ export default function ChartGenerator() {
                       </DropdownContent>
                     </Dropdown>
                   </ConfigCardColumn>
+                  <ConfigCardColumn>
+                    <ConfigLabel>Theme</ConfigLabel>
+                    <Dropdown
+                      value={chartConfig.theme.preset}
+                      onValueChange={(value) => updateConfig({ theme: { ...chartConfig.theme, preset: value as ThemePreset } })}
+                    >
+                      <DropdownTrigger className="w-24 h-8 text-sm">
+                        {themePresetLabels[chartConfig.theme.preset]}
+                      </DropdownTrigger>
+                      <DropdownContent>
+                        {themePresets.map((preset) => (
+                          <DropdownItem key={preset} value={preset}>
+                            {themePresetLabels[preset]}
+                          </DropdownItem>
+                        ))}
+                      </DropdownContent>
+                    </Dropdown>
+                  </ConfigCardColumn>
                 </div>
 
                 {/* Description - Full Row, Auto-growing Textarea */}
@@ -233,6 +324,25 @@ export default function ChartGenerator() {
                     </ConfigCardColumn>
 
                     <div className="flex items-end gap-4">
+                      <ConfigCardColumn>
+                        <ConfigLabel size="small">Orientation</ConfigLabel>
+                        <Dropdown
+                          value={chartConfig.orientation}
+                          onValueChange={(value) => updateConfig({ orientation: value as Orientation })}
+                        >
+                          <DropdownTrigger className="w-28 h-7 text-xs bg-background capitalize">
+                            {chartConfig.orientation}
+                          </DropdownTrigger>
+                          <DropdownContent className="min-w-0">
+                            {orientations.map((orientation) => (
+                              <DropdownItem key={orientation} value={orientation} className="pl-6 pr-1 capitalize">
+                                {orientation}
+                              </DropdownItem>
+                            ))}
+                          </DropdownContent>
+                        </Dropdown>
+                      </ConfigCardColumn>
+
                       <div className="flex items-center gap-2 h-7">
                         <Checkbox
                           id="showRankings"
@@ -244,6 +354,18 @@ export default function ChartGenerator() {
                         </ConfigLabel>
                       </div>
 
+                      {/* Error rates and latency rank the lowest score first */}
+                      <div className="flex items-center gap-2 h-7">
+                        <Checkbox
+                          id="lowerIsBetter"
+                          checked={!chartConfig.higherIsBetter}
+                          onCheckedChange={(checked) => updateConfig({ higherIsBetter: checked !== true })}
+                        />
+                        <ConfigLabel htmlFor="lowerIsBetter" className="cursor-pointer">
+                          Lower Is Better
+                        </ConfigLabel>
+                      </div>
+
                       <ConfigCardColumn>
                         <ConfigLabel size="small">Precision</ConfigLabel>
                         <Dropdown
@@ -263,6 +385,339 @@ export default function ChartGenerator() {
                       </ConfigCardColumn>
                     </div>
                   </div>
+
+                  {/* Branding: header and sponsor logos, footer credit and data source line */}
+                  <div className="flex flex-wrap items-end gap-4 mt-2">
+                    <ConfigCardColumn>
+                      <ConfigLabel size="small">Logo</ConfigLabel>
+                      <LogoUpload value={chartConfig.logo} onChange={(logo) => updateConfig({ logo })} />
+                    </ConfigCardColumn>
+                    <ConfigCardColumn>
+                      <ConfigLabel size="small">Sponsor Logo</ConfigLabel>
+                      <LogoUpload value={chartConfig.sponsorLogo} onChange={(sponsorLogo) => updateConfig({ sponsorLogo })} />
+                    </ConfigCardColumn>
+                    <ConfigCardColumn>
+                      <ConfigLabel size="small">Footer Text</ConfigLabel>
+                      <ConfigInput
+                        value={chartConfig.footerText}
+                        onChange={(e) => updateConfig({ footerText: e.target.value })}
+                        placeholder="Made with llmplot.com"
+                        size="small"
+                        className="w-44"
+                        optional
+                      />
+                    </ConfigCardColumn>
+                    <ConfigCardColumn>
+                      <ConfigLabel size="small">Source</ConfigLabel>
+                      <ConfigInput
+                        value={chartConfig.source}
+                        onChange={(e) => updateConfig({ source: e.target.value })}
+                        placeholder="e.g. Internal eval v3"
+                        size="small"
+                        className="w-40"
+                        optional
+                      />
+                    </ConfigCardColumn>
+                    <ConfigCardColumn>
+                      <ConfigLabel size="small">Source Link</ConfigLabel>
+                      <ConfigInput
+                        value={chartConfig.sourceUrl}
+                        onChange={(e) => updateConfig({ sourceUrl: e.target.value })}
+                        placeholder="https://"
+                        error={errors.source}
+                        disabled={!chartConfig.source.trim()}
+                        size="small"
+                        className="w-44"
+                        optional
+                      />
+                    </ConfigCardColumn>
+                  </div>
+
+                  {/* Chart type and error bars (error bars apply to passed/total scores) */}
+                  <div className="flex flex-wrap items-end gap-4 mt-2">
+                    <ConfigCardColumn>
+                      <ConfigLabel size="small">Chart Type</ConfigLabel>
+                      <Dropdown
+                        value={chartConfig.chartType}
+                        onValueChange={(value) => updateConfig({ chartType: value as ChartType })}
+                      >
+                        <DropdownTrigger className="w-24 h-7 text-xs bg-background capitalize">
+                          {chartConfig.chartType}
+                        </DropdownTrigger>
+                        <DropdownContent className="min-w-0">
+                          {chartTypes.map((type) => (
+                            <DropdownItem key={type} value={type} className="pl-6 pr-1 capitalize">
+                              {type}
+                            </DropdownItem>
+                          ))}
+                        </DropdownContent>
+                      </Dropdown>
+                    </ConfigCardColumn>
+
+                    {chartConfig.chartType === "scatter" && (
+                      <ConfigCardColumn>
+                        <ConfigLabel size="small">X Axis</ConfigLabel>
+                        <Dropdown
+                          value={chartConfig.xAxis}
+                          onValueChange={(value) => updateConfig({ xAxis: value as ScatterXAxis })}
+                        >
+                          <DropdownTrigger className="w-32 h-7 text-xs bg-background">
+                            {scatterXAxisLabels[chartConfig.xAxis]}
+                          </DropdownTrigger>
+                          <DropdownContent className="min-w-0">
+                            {scatterXAxes.map((axis) => (
+                              <DropdownItem key={axis} value={axis} className="pl-6 pr-1">
+                                {scatterXAxisLabels[axis]}
+                              </DropdownItem>
+                            ))}
+                          </DropdownContent>
+                        </Dropdown>
+                      </ConfigCardColumn>
+                    )}
+
+                    {chartConfig.chartType === "dumbbell" && (
+                      <ConfigCardColumn>
+                        <ConfigLabel size="small">Sort By</ConfigLabel>
+                        <Dropdown
+                          value={chartConfig.dumbbellSort}
+                          onValueChange={(value) => updateConfig({ dumbbellSort: value as DumbbellSort })}
+                        >
+                          <DropdownTrigger className="w-32 h-7 text-xs bg-background">
+                            {dumbbellSortLabels[chartConfig.dumbbellSort]}
+                          </DropdownTrigger>
+                          <DropdownContent className="min-w-0">
+                            {dumbbellSorts.map((sort) => (
+                              <DropdownItem key={sort} value={sort} className="pl-6 pr-1">
+                                {dumbbellSortLabels[sort]}
+                              </DropdownItem>
+                            ))}
+                          </DropdownContent>
+                        </Dropdown>
+                      </ConfigCardColumn>
+                    )}
+
+                    {chartConfig.chartType !== "scatter" && (
+                      <ConfigCardColumn>
+                        <ConfigLabel size="small">Row Order</ConfigLabel>
+                        <Dropdown
+                          value={chartConfig.sortBy}
+                          onValueChange={(value) => updateConfig({ sortBy: value as SortBy })}
+                        >
+                          <DropdownTrigger className="w-32 h-7 text-xs bg-background">
+                            {sortByLabels[chartConfig.sortBy]}
+                          </DropdownTrigger>
+                          <DropdownContent className="min-w-0">
+                            {sortBys.map((sort) => (
+                              <DropdownItem key={sort} value={sort} className="pl-6 pr-1">
+                                {sortByLabels[sort]}
+                              </DropdownItem>
+                            ))}
+                          </DropdownContent>
+                        </Dropdown>
+                      </ConfigCardColumn>
+                    )}
+
+                    <ConfigCardColumn>
+                      <ConfigLabel size="small">Error Bars</ConfigLabel>
+                      <Dropdown
+                        value={chartConfig.errorBars}
+                        onValueChange={(value) => updateConfig({ errorBars: value as ErrorBarMethod })}
+                      >
+                        <DropdownTrigger className="w-36 h-7 text-xs bg-background">
+                          {errorBarLabels[chartConfig.errorBars]}
+                        </DropdownTrigger>
+                        <DropdownContent className="min-w-0">
+                          {errorBarMethods.map((method) => (
+                            <DropdownItem key={method} value={method} className="pl-6 pr-1">
+                              {errorBarLabels[method]}
+                            </DropdownItem>
+                          ))}
+                        </DropdownContent>
+                      </Dropdown>
+                    </ConfigCardColumn>
+
+                    {/* Chart the best N models; the rest collapse into a "+N more" row */}
+                    <ConfigCardColumn>
+                      <ConfigLabel size="small">Top N</ConfigLabel>
+                      <ConfigInput
+                        value={chartConfig.topN}
+                        onChange={(e) => updateConfig({ topN: e.target.value })}
+                        placeholder="All"
+                        error={errors.topN}
+                        disabled={chartConfig.chartType === "scatter"}
+                        size="small"
+                        className="w-16"
+                        optional
+                      />
+                    </ConfigCardColumn>
+
+                    {/* Split long leaderboards into carousel pages */}
+                    <ConfigCardColumn>
+                      <ConfigLabel size="small">Per Page</ConfigLabel>
+                      <ConfigInput
+                        value={chartConfig.maxModelsPerPage}
+                        onChange={(e) => updateConfig({ maxModelsPerPage: e.target.value })}
+                        placeholder="All"
+                        error={errors.maxModelsPerPage}
+                        disabled={chartConfig.chartType === "scatter"}
+                        size="small"
+                        className="w-16"
+                        optional
+                      />
+                    </ConfigCardColumn>
+
+                    <div className="flex items-center gap-2 h-7">
+                      <Checkbox
+                        id="overlapTies"
+                        checked={chartConfig.overlapTies}
+                        disabled={chartConfig.errorBars === "none"}
+                        onCheckedChange={(checked) => updateConfig({ overlapTies: checked === true })}
+                      />
+                      <ConfigLabel htmlFor="overlapTies" className="cursor-pointer">
+                        Tie Overlapping Intervals
+                      </ConfigLabel>
+                    </div>
+
+                    {/* Mute every model that isn't highlighted on its card */}
+                    <div className="flex items-center gap-2 h-7">
+                      <Checkbox
+                        id="dimOthers"
+                        checked={chartConfig.dimOthers}
+                        disabled={!chartConfig.models.some((m) => m.highlight)}
+                        onCheckedChange={(checked) => updateConfig({ dimOthers: checked === true })}
+                      />
+                      <ConfigLabel htmlFor="dimOthers" className="cursor-pointer">
+                        Dim Others
+                      </ConfigLabel>
+                    </div>
+                  </div>
+
+                  {/* Theme overrides: empty fields keep the preset's colors */}
+                  <div className="flex flex-wrap items-end gap-4 mt-2">
+                    {themeColorFields.map(({ key, label }) => {
+                      const presetColor = THEMES[chartConfig.theme.preset][key];
+                      const updateColor = (color: string) =>
+                        updateConfig({ theme: { ...chartConfig.theme, colors: { ...chartConfig.theme.colors, [key]: color } } });
+                      return (
+                        <ConfigCardColumn key={key}>
+                          <ConfigLabel size="small">{label}</ConfigLabel>
+                          <div className="flex items-center gap-2">
+                            <div className="relative w-7 h-7 shrink-0 overflow-hidden rounded-md border shadow-sm transition-transform active:scale-95 cursor-pointer">
+                              <input
+                                type="color"
+                                value={chartConfig.theme.colors[key] || presetColor}
+                                onChange={(e) => updateColor(e.target.value)}
+                                className="absolute inset-[-50%] w-[200%] h-[200%] p-0 border-0 cursor-pointer"
+                              />
+                            </div>
+                            <Input
+                              type="text"
+                              value={chartConfig.theme.colors[key] ?? ""}
+                              onChange={(e) => updateColor(e.target.value)}
+                              className="w-20 h-7 text-xs font-mono bg-background px-1"
+                              placeholder={presetColor}
+                            />
+                          </div>
+                        </ConfigCardColumn>
+                      );
+                    })}
+                    <ConfigCardColumn>
+                      <ConfigLabel size="small">Radius</ConfigLabel>
+                      <ConfigInput
+                        type="number"
+                        value={chartConfig.theme.radius}
+                        onChange={(e) => updateConfig({ theme: { ...chartConfig.theme, radius: e.target.value } })}
+                        error={errors.theme}
+                        size="small"
+                        className="w-20"
+                        suffix="px"
+                        placeholder={String(THEMES[chartConfig.theme.preset].radius)}
+                      />
+                    </ConfigCardColumn>
+                    <ConfigCardColumn>
+                      <ConfigLabel size="small">Canvas</ConfigLabel>
+                      <Dropdown
+                        value={chartConfig.aspectRatio}
+                        onValueChange={(value) => updateConfig({ aspectRatio: value as AspectRatio })}
+                      >
+                        <DropdownTrigger className="w-32 h-7 text-xs bg-background">
+                          {aspectRatioLabels[chartConfig.aspectRatio]}
+                        </DropdownTrigger>
+                        <DropdownContent className="min-w-0">
+                          {aspectRatios.map((ratio) => (
+                            <DropdownItem key={ratio} value={ratio} className="pl-6 pr-1">
+                              {aspectRatioLabels[ratio]}
+                            </DropdownItem>
+                          ))}
+                        </DropdownContent>
+                      </Dropdown>
+                    </ConfigCardColumn>
+                  </div>
+
+                  {/* Custom metric: scores become plain numbers, bars span min to max */}
+                  <div className="flex items-end gap-4 mt-2">
+                    <div className="flex items-center gap-2 h-7">
+                      <Checkbox
+                        id="metricEnabled"
+                        checked={chartConfig.metric.enabled}
+                        onCheckedChange={(checked) => updateConfig({ metric: { ...chartConfig.metric, enabled: checked === true } })}
+                      />
+                      <ConfigLabel htmlFor="metricEnabled" className="cursor-pointer">
+                        Custom Metric
+                      </ConfigLabel>
+                    </div>
+
+                    {chartConfig.metric.enabled && (
+                      <>
+                        <ConfigCardColumn>
+                          <ConfigLabel size="small">Unit</ConfigLabel>
+                          <ConfigInput
+                            value={chartConfig.metric.unit}
+                            onChange={(e) => updateConfig({ metric: { ...chartConfig.metric, unit: e.target.value } })}
+                            placeholder="e.g. Elo"
+                            size="small"
+                            className="w-20"
+                            optional
+                          />
+                        </ConfigCardColumn>
+                        <ConfigCardColumn>
+                          <ConfigLabel size="small">Format</ConfigLabel>
+                          <ConfigInput
+                            value={chartConfig.metric.format}
+                            onChange={(e) => updateConfig({ metric: { ...chartConfig.metric, format: e.target.value } })}
+                            placeholder="{value} {unit}"
+                            size="small"
+                            className="w-32"
+                            optional
+                          />
+                        </ConfigCardColumn>
+                        <ConfigCardColumn>
+                          <ConfigLabel size="small">Min</ConfigLabel>
+                          <ConfigInput
+                            value={chartConfig.metric.min}
+                            onChange={(e) => updateConfig({ metric: { ...chartConfig.metric, min: e.target.value } })}
+                            placeholder="Auto"
+                            size="small"
+                            className="w-16"
+                            error={errors.metric}
+                            optional
+                          />
+                        </ConfigCardColumn>
+                        <ConfigCardColumn>
+                          <ConfigLabel size="small">Max</ConfigLabel>
+                          <ConfigInput
+                            value={chartConfig.metric.max}
+                            onChange={(e) => updateConfig({ metric: { ...chartConfig.metric, max: e.target.value } })}
+                            placeholder="Auto"
+                            size="small"
+                            className="w-16"
+                            error={errors.metric}
+                            optional
+                          />
+                        </ConfigCardColumn>
+                      </>
+                    )}
+                  </div>
                 </AdvancedContent>
               </ConfigCardColumn>
               );
@@ -270,6 +725,122 @@ export default function ChartGenerator() {
           </ConfigCard>
         </div>
 
+        {/* Benchmarks Section - adding one switches the chart to grouped bars */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold">Benchmarks</h3>
+            <div className="flex items-center gap-2">
+              {chartConfig.benchmarks.length > 1 && (
+                <>
+                  <ConfigLabel size="small">Sort By</ConfigLabel>
+                  <Dropdown
+                    value={chartConfig.sortBenchmark || chartConfig.benchmarks[0].id}
+                    onValueChange={(value) => updateConfig({ sortBenchmark: value })}
+                  >
+                    <DropdownTrigger className="w-36 h-8 text-sm">
+                      {(chartConfig.benchmarks.find((b) => b.id === chartConfig.sortBenchmark) ?? chartConfig.benchmarks[0]).label || "Untitled"}
+                    </DropdownTrigger>
+                    <DropdownContent>
+                      {chartConfig.benchmarks.map((b) => (
+                        <DropdownItem key={b.id} value={b.id}>
+                          {b.label || "Untitled"}
+                        </DropdownItem>
+                      ))}
+                    </DropdownContent>
+                  </Dropdown>
+                </>
+              )}
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={addBenchmark}
+                className="h-8"
+              >
+                <PlusCircle className="w-4 h-4 mr-1" />
+                Add Benchmark
+              </Button>
+            </div>
+          </div>
+
+          {chartConfig.benchmarks.map((benchmark, index) => (
+            <BenchmarkCard
+              key={benchmark.id}
+              benchmark={benchmark}
+              index={index}
+              error={errors.benchmarks?.[benchmark.id]}
+              onUpdate={(updates) => updateBenchmark(benchmark.id, updates)}
+              onRemove={() => removeBenchmark(benchmark.id)}
+            />
+          ))}
+        </div>
+
+        {/* Reference Lines Section - dashed markers for fixed scores */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold">Reference Lines</h3>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={addReferenceLine}
+              className="h-8"
+            >
+              <PlusCircle className="w-4 h-4 mr-1" />
+              Add Reference Line
+            </Button>
+          </div>
+
+          {chartConfig.referenceLines.map((referenceLine, index) => (
+            <ReferenceLineCard
+              key={referenceLine.id}
+              referenceLine={referenceLine}
+              index={index}
+              error={errors.referenceLines?.[referenceLine.id]}
+              onUpdate={(updates) => updateReferenceLine(referenceLine.id, updates)}
+              onRemove={() => removeReferenceLine(referenceLine.id)}
+            />
+          ))}
+        </div>
+
+        {/* Groups Section - labeled leaderboard sections */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold">Groups</h3>
+            <div className="flex items-center gap-4">
+              {chartConfig.groups.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="rankScope"
+                    checked={chartConfig.rankScope === "group"}
+                    onCheckedChange={(checked) => updateConfig({ rankScope: checked === true ? "group" : "global" })}
+                  />
+                  <ConfigLabel htmlFor="rankScope" className="cursor-pointer">
+                    Rank Within Groups
+                  </ConfigLabel>
+                </div>
+              )}
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={addGroup}
+                className="h-8"
+              >
+                <PlusCircle className="w-4 h-4 mr-1" />
+                Add Group
+              </Button>
+            </div>
+          </div>
+
+          {chartConfig.groups.map((group) => (
+            <GroupCard
+              key={group.id}
+              group={group}
+              error={errors.groups?.[group.id]}
+              onUpdate={(updates) => updateGroup(group.id, updates)}
+              onRemove={() => removeGroup(group.id)}
+            />
+          ))}
+        </div>
+
         {/* Models Section */}
         <div className="space-y-3">
           <div className="flex items-center justify-between">
@@ -294,6 +865,10 @@ export default function ChartGenerator() {
               showAllErrors={showAllErrors}
               canRemove={chartConfig.models.length > 1}
               customProviders={chartConfig.customProviders}
+              benchmarks={chartConfig.benchmarks}
+              groups={chartConfig.groups}
+              showPreviousScore={chartConfig.chartType === "dumbbell"}
+              isMetric={chartConfig.metric.enabled}
               onUpdate={(updates) => updateModel(model.id, updates)}
               onRemove={() => removeModel(model.id)}
               onAddCustomProvider={() => {
@@ -366,6 +941,13 @@ export default function ChartGenerator() {
                     <Shapes className="w-4 h-4" />
                     SVG
                   </button>
+                  <button
+                    onClick={handleDownloadPdf}
+                    className="w-full flex items-center gap-2 px-2 py-1.5 text-sm rounded-sm hover:bg-accent hover:text-accent-foreground transition-colors cursor-pointer"
+                  >
+                    <FileText className="w-4 h-4" />
+                    PDF
+                  </button>
                   <button
                     onClick={handleDownloadHtml}
                     className="w-full flex items-center gap-2 px-2 py-1.5 text-sm rounded-sm hover:bg-accent hover:text-accent-foreground transition-colors cursor-pointer"
@@ -373,10 +955,44 @@ export default function ChartGenerator() {
                     <FileCode className="w-4 h-4" />
                     HTML
                   </button>
+                  <button
+                    onClick={handleDownloadInteractiveHtml}
+                    className="w-full flex items-center gap-2 px-2 py-1.5 text-sm rounded-sm hover:bg-accent hover:text-accent-foreground transition-colors cursor-pointer"
+                  >
+                    <MousePointerClick className="w-4 h-4" />
+                    Interactive HTML
+                  </button>
                 </PopoverContent>
               </Popover>
             </div>
           )}
+          {chartHtml && pageCount > 1 && (
+            <div className="absolute bottom-3 right-3 z-10 flex items-center gap-1 rounded-md border bg-background shadow-sm">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={previewPage === 0}
+                onClick={() => setPreviewPage(previewPage - 1)}
+                title="Previous page"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="text-xs tabular-nums text-muted-foreground">
+                {previewPage + 1} / {pageCount}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={previewPage === pageCount - 1}
+                onClick={() => setPreviewPage(previewPage + 1)}
+                title="Next page"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
           {chartHtml ? (
             <ShadowDomChart id="chart-preview" html={chartHtml} />
           ) : chartHtml === null ? (
@@ -0,0 +1,58 @@
+import type { BenchmarkConfig } from "./types.js";
+import { BENCHMARK_COLORS } from "@core/providers.js";
+import { Input } from "@/components/ui/input";
+import { ConfigCard } from "@/components/config-card/config-card";
+import { ConfigCardRow } from "@/components/config-card/config-card-row";
+import { ConfigCardColumn } from "@/components/config-card/config-card-column";
+import { ConfigLabel } from "@/components/config-card/config-label";
+import { ConfigInput } from "@/components/config-card/config-input";
+
+interface BenchmarkCardProps {
+  benchmark: BenchmarkConfig;
+  index: number;
+  error?: string;
+  onUpdate: (updates: Partial<BenchmarkConfig>) => void;
+  onRemove: () => void;
+}
+
+export function BenchmarkCard({ benchmark, index, error, onUpdate, onRemove }: BenchmarkCardProps) {
+  // Matches the palette the core renderer assigns when no color is set
+  const autoColor = BENCHMARK_COLORS[index % BENCHMARK_COLORS.length];
+
+  return (
+    <ConfigCard onRemove={onRemove} accentColor={benchmark.color || autoColor}>
+      <ConfigCardRow columns="1fr 140px" className="pr-6">
+        <ConfigCardColumn>
+          <ConfigLabel>Benchmark Name</ConfigLabel>
+          <ConfigInput
+            type="text"
+            value={benchmark.label}
+            onChange={(e) => onUpdate({ label: e.target.value })}
+            error={error}
+            placeholder="e.g. SWE-bench"
+          />
+        </ConfigCardColumn>
+        <ConfigCardColumn>
+          <ConfigLabel>Color</ConfigLabel>
+          <div className="flex items-center gap-2">
+            <div className="relative w-8 h-8 shrink-0 overflow-hidden rounded-md border shadow-sm transition-transform active:scale-95 cursor-pointer">
+              <input
+                type="color"
+                value={benchmark.color || autoColor}
+                onChange={(e) => onUpdate({ color: e.target.value })}
+                className="absolute inset-[-50%] w-[200%] h-[200%] p-0 border-0 cursor-pointer"
+              />
+            </div>
+            <Input
+              type="text"
+              value={benchmark.color}
+              onChange={(e) => onUpdate({ color: e.target.value })}
+              className="h-8 text-xs font-mono bg-background px-1"
+              placeholder="Auto"
+            />
+          </div>
+        </ConfigCardColumn>
+      </ConfigCardRow>
+    </ConfigCard>
+  );
+}
@@ -0,0 +1,32 @@
+import type { GroupConfig } from "./types.js";
+import { ConfigCard } from "@/components/config-card/config-card";
+import { ConfigCardRow } from "@/components/config-card/config-card-row";
+import { ConfigCardColumn } from "@/components/config-card/config-card-column";
+import { ConfigLabel } from "@/components/config-card/config-label";
+import { ConfigInput } from "@/components/config-card/config-input";
+
+interface GroupCardProps {
+  group: GroupConfig;
+  error?: string;
+  onUpdate: (updates: Partial<GroupConfig>) => void;
+  onRemove: () => void;
+}
+
+export function GroupCard({ group, error, onUpdate, onRemove }: GroupCardProps) {
+  return (
+    <ConfigCard onRemove={onRemove}>
+      <ConfigCardRow columns="1fr" className="pr-6">
+        <ConfigCardColumn>
+          <ConfigLabel>Group Name</ConfigLabel>
+          <ConfigInput
+            type="text"
+            value={group.label}
+            onChange={(e) => onUpdate({ label: e.target.value })}
+            error={error}
+            placeholder="e.g. Open weights"
+          />
+        </ConfigCardColumn>
+      </ConfigCardRow>
+    </ConfigCard>
+  );
+}
@@ -0,0 +1,75 @@
+import { useRef, useCallback } from "react";
+import { Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+
+interface LogoUploadProps {
+  value: string; // data URL ("" = no logo)
+  onChange: (dataUrl: string) => void;
+}
+
+/**
+ * Compact SVG/PNG picker for chart logos, stored inline as a data URL.
+ */
+export function LogoUpload({ value, onChange }: LogoUploadProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change
+    e.target.value = "";
+    if (!file) return;
+
+    if (!file.type.match(/^image\/(svg\+xml|png)$/)) {
+      toast.error("Please upload an SVG or PNG file");
+      return;
+    }
+
+    // Logos are embedded in every export, so keep them small
+    if (file.size > 100 * 1024) {
+      toast.error("File size must be under 100KB");
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (event) => onChange(event.target?.result as string);
+    reader.readAsDataURL(file);
+  }, [onChange]);
+
+  return (
+    <div className="flex items-center gap-1 h-7">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".svg,.png,image/svg+xml,image/png"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      {value ? (
+        <>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center justify-center w-20 h-7 px-1 rounded-md border bg-background"
+            title="Replace logo"
+          >
+            <img src={value} alt="Logo preview" className="max-h-5 max-w-full object-contain" />
+          </button>
+          <Button type="button" variant="ghost" size="icon" onClick={() => onChange("")} className="h-7 w-7" title="Remove logo">
+            <X className="h-3 w-3" />
+          </Button>
+        </>
+      ) : (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          className="h-7 px-2 text-xs border-dashed"
+        >
+          <Upload className="h-3 w-3 mr-1" />
+          Upload
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import type { ModelConfig, ModelValidationErrors, CustomProvider } from "./types.js";
+import type { ModelConfig, ModelValidationErrors, CustomProvider, BenchmarkConfig, GroupConfig, CostField } from "./types.js";
+import { costFields } from "./types.js";
 import { ProviderSelect } from "./ProviderSelect.js";
 import { providers, DEFAULT_COLOR } from "@core/providers.js";
 import { Input } from "@/components/ui/input";
@@ -8,8 +9,10 @@ import { ConfigCardColumn } from "@/components/config-card/config-card-column";
 import { ConfigLabel } from "@/components/config-card/config-label";
 import { ConfigInput } from "@/components/config-card/config-input";
 import { AdvancedContent } from "@/components/common/advanced-content";
+import { Dropdown, DropdownContent, DropdownItem, DropdownTrigger } from "@/components/common/dropdown";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { Info } from "lucide-react";
+import { Info, Star } from "lucide-react";
+import { cn } from "@/lib/utils";
 
 /** Get provider color from core providers config */
 function getProviderColor(providerKey: string, customProviders: CustomProvider[]): string {
@@ -23,6 +26,14 @@ function getProviderColor(providerKey: string, customProviders: CustomProvider[]
   return provider?.color ?? DEFAULT_COLOR;
 }
 
+/** Short labels and unit suffixes for the cost and latency inputs */
+const costFieldLabels: Record<CostField, { label: string; suffix: string }> = {
+  costPerRun: { label: "Cost / Run", suffix: "$" },
+  costPerMillionInput: { label: "Input / M", suffix: "$" },
+  costPerMillionOutput: { label: "Output / M", suffix: "$" },
+  latencyMs: { label: "Latency", suffix: "ms" },
+};
+
 interface ModelCardProps {
   model: ModelConfig;
   errors: ModelValidationErrors;
@@ -30,6 +41,10 @@ interface ModelCardProps {
   showAllErrors: boolean;
   canRemove: boolean;
   customProviders: CustomProvider[];
+  benchmarks: BenchmarkConfig[];
+  groups: GroupConfig[];
+  showPreviousScore: boolean;
+  isMetric: boolean;   // scores are plain numbers in the custom metric's units
   onUpdate: (updates: Partial<ModelConfig>) => void;
   onRemove: () => void;
   onAddCustomProvider: () => void;
@@ -45,6 +60,10 @@ export function ModelCard({
   showAllErrors,
   canRemove, 
   customProviders, 
+  benchmarks,
+  groups,
+  showPreviousScore,
+  isMetric,
   onUpdate, 
   onRemove, 
   onAddCustomProvider,
@@ -52,15 +71,44 @@ export function ModelCard({
   onDeleteCustomProvider,
   onMarkTouched
 }: ModelCardProps) {
-  const showError = (field: keyof ModelValidationErrors): string | undefined => {
+  const showError = (field: Exclude<keyof ModelValidationErrors, 'scores'>): string | undefined => {
     if (showAllErrors || touched[field]) {
       return errors[field];
     }
     return undefined;
   };
 
+  const showScoreError = (benchmarkId: string): string | undefined => {
+    if (showAllErrors || touched[`score:${benchmarkId}`]) {
+      return errors.scores?.[benchmarkId];
+    }
+    return undefined;
+  };
+
+  const hasBenchmarks = benchmarks.length > 0;
+
+  const scoreLabel = (label: string) => (
+    <ConfigLabel className="flex items-center gap-1">
+      {label}
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Info className="h-3 w-3 text-muted-foreground cursor-help" />
+          </TooltipTrigger>
+          <TooltipContent className="font-normal">Enter a fraction like 45/100 or a percentage like 74.5%</TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    </ConfigLabel>
+  );
+
   // Pin advanced open if any advanced field has a value
-  const hasAdvancedValues = Boolean(model.totalParams || model.activeParams || model.color);
+  // Also pin it open when an advanced field has an error to show
+  const hasAdvancedValues = Boolean(
+    model.totalParams || model.activeParams || model.color || model.note || model.group || showError('group') ||
+    model.highlight || model.callout ||
+    costFields.some((field) => model[field] || showError(field)) ||
+    showError('totalParams') || showError('activeParams')
+  );
 
   // Get provider color for left rail
   const providerColor = getProviderColor(model.provider, customProviders);
@@ -70,7 +118,16 @@ export function ModelCard({
       {(isActive) => (
         <div className="space-y-2">
           {/* Row 1: Provider, Model Name & Score */}
-          <ConfigCardRow columns="1fr" className="sm:!grid-cols-[140px_1fr_140px]">
+          <ConfigCardRow
+            columns="1fr"
+            className={
+              hasBenchmarks
+                ? "sm:!grid-cols-[140px_1fr]"
+                : showPreviousScore
+                  ? "sm:!grid-cols-[140px_1fr_110px_110px]"
+                  : "sm:!grid-cols-[140px_1fr_140px]"
+            }
+          >
             <ConfigCardColumn>
               <ConfigLabel>Provider</ConfigLabel>
               <ProviderSelect
@@ -103,29 +160,53 @@ export function ModelCard({
                 )}
               </div>
             </ConfigCardColumn>
-            <ConfigCardColumn>
-              <ConfigLabel className="flex items-center gap-1">
-                Score
-                <TooltipProvider>
-                  <Tooltip>
-                    <TooltipTrigger asChild>
-                      <Info className="h-3 w-3 text-muted-foreground cursor-help" />
-                    </TooltipTrigger>
-                    <TooltipContent className="font-normal">Enter a fraction like 45/100 or a percentage like 74.5%</TooltipContent>
-                  </Tooltip>
-                </TooltipProvider>
-              </ConfigLabel>
-              <ConfigInput
-                type="text"
-                value={model.score}
-                onChange={(e) => onUpdate({ score: e.target.value })}
-                onBlur={() => onMarkTouched('score')}
-                error={showError('score')}
-                placeholder="75/100 or 75%"
-              />
-            </ConfigCardColumn>
+            {!hasBenchmarks && (
+              <ConfigCardColumn>
+                {scoreLabel("Score")}
+                <ConfigInput
+                  type="text"
+                  value={model.score}
+                  onChange={(e) => onUpdate({ score: e.target.value })}
+                  onBlur={() => onMarkTouched('score')}
+                  error={showError('score')}
+                  placeholder={isMetric ? "e.g. 1250" : "75/100 or 75%"}
+                />
+              </ConfigCardColumn>
+            )}
+            {!hasBenchmarks && showPreviousScore && (
+              <ConfigCardColumn>
+                {scoreLabel("Previous")}
+                <ConfigInput
+                  type="text"
+                  value={model.previousScore}
+                  onChange={(e) => onUpdate({ previousScore: e.target.value })}
+                  onBlur={() => onMarkTouched('previousScore')}
+                  error={showError('previousScore')}
+                  placeholder={isMetric ? "e.g. 1200" : "70/100 or 70%"}
+                />
+              </ConfigCardColumn>
+            )}
           </ConfigCardRow>
 
+          {/* Row 2: One score per benchmark (grouped charts only) */}
+          {hasBenchmarks && (
+            <ConfigCardRow columns={`repeat(${Math.min(benchmarks.length, 3)}, 1fr)`}>
+              {benchmarks.map((b) => (
+                <ConfigCardColumn key={b.id}>
+                  {scoreLabel(b.label.trim() || "Untitled")}
+                  <ConfigInput
+                    type="text"
+                    value={model.scores[b.id] ?? ""}
+                    onChange={(e) => onUpdate({ scores: { ...model.scores, [b.id]: e.target.value } })}
+                    onBlur={() => onMarkTouched(`score:${b.id}`)}
+                    error={showScoreError(b.id)}
+                    placeholder="75/100 or 75%"
+                  />
+                </ConfigCardColumn>
+              ))}
+            </ConfigCardRow>
+          )}
+
           {/* Advanced Content - auto-expands when card is active or has values */}
           <AdvancedContent open={isActive || hasAdvancedValues}>
             <ConfigCardRow columns="repeat(3, 1fr)">
@@ -135,6 +216,8 @@ export function ModelCard({
                   type="number"
                   value={model.totalParams}
                   onChange={(e) => onUpdate({ totalParams: e.target.value })}
+                  onBlur={() => onMarkTouched('totalParams')}
+                  error={showError('totalParams')}
                   size="small"
                   suffix="B"
                   placeholder="-"
@@ -147,6 +230,8 @@ export function ModelCard({
                   type="number"
                   value={model.activeParams}
                   onChange={(e) => onUpdate({ activeParams: e.target.value })}
+                  onBlur={() => onMarkTouched('activeParams')}
+                  error={showError('activeParams')}
                   size="small"
                   suffix="B"
                   placeholder="-"
@@ -174,6 +259,88 @@ export function ModelCard({
                 </div>
               </ConfigCardColumn>
             </ConfigCardRow>
+            <ConfigCardRow columns="repeat(4, 1fr)">
+              {costFields.map((field) => (
+                <ConfigCardColumn key={field}>
+                  <ConfigLabel size="small">{costFieldLabels[field].label}</ConfigLabel>
+                  <ConfigInput
+                    type="number"
+                    value={model[field]}
+                    onChange={(e) => onUpdate({ [field]: e.target.value })}
+                    onBlur={() => onMarkTouched(field)}
+                    error={showError(field)}
+                    size="small"
+                    suffix={costFieldLabels[field].suffix}
+                    placeholder="-"
+                    optional
+                  />
+                </ConfigCardColumn>
+              ))}
+            </ConfigCardRow>
+            <ConfigCardRow columns="1fr 160px">
+              <ConfigCardColumn>
+                <ConfigLabel size="small">Callout</ConfigLabel>
+                <ConfigInput
+                  type="text"
+                  value={model.callout}
+                  onChange={(e) => onUpdate({ callout: e.target.value })}
+                  size="small"
+                  placeholder="e.g. New"
+                  optional
+                />
+              </ConfigCardColumn>
+              <ConfigCardColumn>
+                <ConfigLabel size="small">Spotlight</ConfigLabel>
+                <button
+                  type="button"
+                  aria-pressed={model.highlight}
+                  onClick={() => onUpdate({ highlight: !model.highlight })}
+                  className={cn(
+                    "flex h-7 items-center justify-center gap-1.5 rounded-md border text-xs transition-colors",
+                    model.highlight ? "border-amber-400 bg-amber-50 text-amber-700" : "bg-background text-muted-foreground hover:text-foreground"
+                  )}
+                >
+                  <Star className={cn("w-3.5 h-3.5", model.highlight && "fill-current")} />
+                  {model.highlight ? "Highlighted" : "Highlight"}
+                </button>
+              </ConfigCardColumn>
+            </ConfigCardRow>
+            <ConfigCardRow columns={groups.length > 0 ? "1fr 160px" : "1fr"}>
+              <ConfigCardColumn>
+                <ConfigLabel size="small">Footnote</ConfigLabel>
+                <ConfigInput
+                  type="text"
+                  value={model.note}
+                  onChange={(e) => onUpdate({ note: e.target.value })}
+                  size="small"
+                  placeholder="e.g. Preview checkpoint, scores may change"
+                  optional
+                />
+              </ConfigCardColumn>
+              {groups.length > 0 && (
+                <ConfigCardColumn>
+                  <ConfigLabel size="small">Group</ConfigLabel>
+                  <Dropdown
+                    value={model.group}
+                    onValueChange={(value) => {
+                      onUpdate({ group: value });
+                      onMarkTouched('group');
+                    }}
+                  >
+                    <DropdownTrigger className={cn("w-full h-7 text-xs bg-background", showError('group') && "border-destructive")}>
+                      {groups.find((g) => g.id === model.group)?.label || "Select group"}
+                    </DropdownTrigger>
+                    <DropdownContent className="min-w-0">
+                      {groups.map((g) => (
+                        <DropdownItem key={g.id} value={g.id} className="pl-6 pr-1">
+                          {g.label || "Untitled group"}
+                        </DropdownItem>
+                      ))}
+                    </DropdownContent>
+                  </Dropdown>
+                </ConfigCardColumn>
+              )}
+            </ConfigCardRow>
           </AdvancedContent>
         </div>
       )}
@@ -0,0 +1,68 @@
+import type { ReferenceLineConfig } from "./types.js";
+import { REFERENCE_LINE_COLORS } from "@core/providers.js";
+import { Input } from "@/components/ui/input";
+import { ConfigCard } from "@/components/config-card/config-card";
+import { ConfigCardRow } from "@/components/config-card/config-card-row";
+import { ConfigCardColumn } from "@/components/config-card/config-card-column";
+import { ConfigLabel } from "@/components/config-card/config-label";
+import { ConfigInput } from "@/components/config-card/config-input";
+
+interface ReferenceLineCardProps {
+  referenceLine: ReferenceLineConfig;
+  index: number;
+  error?: string;
+  onUpdate: (updates: Partial<ReferenceLineConfig>) => void;
+  onRemove: () => void;
+}
+
+export function ReferenceLineCard({ referenceLine, index, error, onUpdate, onRemove }: ReferenceLineCardProps) {
+  // Matches the palette the core renderer assigns when no color is set
+  const autoColor = REFERENCE_LINE_COLORS[index % REFERENCE_LINE_COLORS.length];
+
+  return (
+    <ConfigCard onRemove={onRemove} accentColor={referenceLine.color || autoColor}>
+      <ConfigCardRow columns="1fr 100px 140px" className="pr-6">
+        <ConfigCardColumn>
+          <ConfigLabel>Label</ConfigLabel>
+          <ConfigInput
+            type="text"
+            value={referenceLine.label}
+            onChange={(e) => onUpdate({ label: e.target.value })}
+            error={error}
+            placeholder="e.g. Human expert"
+          />
+        </ConfigCardColumn>
+        <ConfigCardColumn>
+          <ConfigLabel>Value</ConfigLabel>
+          <ConfigInput
+            type="number"
+            value={referenceLine.value}
+            onChange={(e) => onUpdate({ value: e.target.value })}
+            suffix="%"
+            placeholder="78"
+          />
+        </ConfigCardColumn>
+        <ConfigCardColumn>
+          <ConfigLabel>Color</ConfigLabel>
+          <div className="flex items-center gap-2">
+            <div className="relative w-8 h-8 shrink-0 overflow-hidden rounded-md border shadow-sm transition-transform active:scale-95 cursor-pointer">
+              <input
+                type="color"
+                value={referenceLine.color || autoColor}
+                onChange={(e) => onUpdate({ color: e.target.value })}
+                className="absolute inset-[-50%] w-[200%] h-[200%] p-0 border-0 cursor-pointer"
+              />
+            </div>
+            <Input
+              type="text"
+              value={referenceLine.color}
+              onChange={(e) => onUpdate({ color: e.target.value })}
+              className="h-8 text-xs font-mono bg-background px-1"
+              placeholder="Auto"
+            />
+          </div>
+        </ConfigCardColumn>
+      </ConfigCardRow>
+    </ConfigCard>
+  );
+}
@@ -1,5 +1,7 @@
 // Chart configuration types for the chart generator
 
+import type { ThemeColorKey } from "@core/theme.js";
+
 export interface CustomProvider {
   key: string;        // auto-generated from name, e.g., "my-provider"
   name: string;       // display name, e.g., "My Provider"
@@ -7,14 +9,42 @@ export interface CustomProvider {
   iconDataUrl?: string; // optional base64 data URL for uploaded SVG/PNG
 }
 
+export interface BenchmarkConfig {
+  id: string;
+  label: string;      // legend label, also slugified into the YAML key
+  color: string;      // optional hex color override ("" = auto)
+}
+
+export interface ReferenceLineConfig {
+  id: string;
+  label: string;      // legend label, e.g., "Human expert"
+  value: string;      // User input: percentage (or metric value), e.g., "78"
+  color: string;      // optional hex color override ("" = auto)
+}
+
+export interface GroupConfig {
+  id: string;
+  label: string;      // subheading, also slugified into the YAML key
+}
+
 export interface ModelConfig {
   id: string;
   provider: string;
   modelName: string;  // Display name for the model (shown in chart)
-  score: string;      // User input: "45/100" or "75%"
+  score: string;      // User input: "45/100" or "75%", or a plain number with a custom metric
+  previousScore: string; // Earlier run's score, same format (dumbbell charts only)
+  scores: Record<string, string>; // Per-benchmark score inputs, keyed by benchmark id
   totalParams: string;
   activeParams: string;
+  costPerRun: string;
+  costPerMillionInput: string;
+  costPerMillionOutput: string;
+  latencyMs: string;
   color: string;
+  note: string;       // Footnote shown in the chart footer ("" = none)
+  group: string;      // Group id ("" = none, required once groups exist)
+  highlight: boolean; // Emphasize this model (others are muted with dimOthers)
+  callout: string;    // Badge next to the model name ("" = none)
 }
 
 /** Available font families */
@@ -33,27 +63,159 @@ export const fontConfig: Record<FontFamily, { display: string; css: string }> =
   "space-grotesk": { display: "Space Grotesk", css: "'Space Grotesk', sans-serif" },
 };
 
+/** Available chart orientations (must match core/types.ts) */
+export const orientations = ["horizontal", "vertical"] as const;
+export type Orientation = typeof orientations[number];
+
+/** Available image aspect ratios with display names (must match core/types.ts) */
+export const aspectRatios = ["4:5", "1:1", "16:9", "1.91:1", "auto"] as const;
+export type AspectRatio = typeof aspectRatios[number];
+export const aspectRatioLabels: Record<AspectRatio, string> = {
+  "4:5": "4:5 Portrait",
+  "1:1": "1:1 Square",
+  "16:9": "16:9 Slides",
+  "1.91:1": "1.91:1 Link Card",
+  "auto": "Auto (Tight)",
+};
+
+/** Available chart types (must match core/types.ts) */
+export const chartTypes = ["bar", "scatter", "dumbbell"] as const;
+export type ChartType = typeof chartTypes[number];
+
+/** Available dumbbell row orders with display names (must match core/types.ts) */
+export const dumbbellSorts = ["score", "delta"] as const;
+export type DumbbellSort = typeof dumbbellSorts[number];
+export const dumbbellSortLabels: Record<DumbbellSort, string> = {
+  "score": "Current Score",
+  "delta": "Change",
+};
+
+/** Available row orders with display names (must match core/types.ts) */
+export const sortBys = ["score", "input", "provider", "params"] as const;
+export type SortBy = typeof sortBys[number];
+export const sortByLabels: Record<SortBy, string> = {
+  "score": "Score",
+  "input": "Input Order",
+  "provider": "Provider",
+  "params": "Params",
+};
+
+/** Rank scopes for grouped leaderboards (must match core/types.ts) */
+export const rankScopes = ["global", "group"] as const;
+export type RankScope = typeof rankScopes[number];
+
+/** Optional per-model cost (USD) and latency (ms) fields (must match core/types.ts) */
+export const costFields = ["costPerRun", "costPerMillionInput", "costPerMillionOutput", "latencyMs"] as const;
+export type CostField = typeof costFields[number];
+
+/** Available scatter x-axis metrics with display names (must match core/types.ts) */
+export const scatterXAxes = ["totalParams", "activeParams", ...costFields] as const;
+export type ScatterXAxis = typeof scatterXAxes[number];
+export const scatterXAxisLabels: Record<ScatterXAxis, string> = {
+  "totalParams": "Total Params",
+  "activeParams": "Active Params",
+  "costPerRun": "Cost per Run",
+  "costPerMillionInput": "Input $/M Tokens",
+  "costPerMillionOutput": "Output $/M Tokens",
+  "latencyMs": "Latency",
+};
+
+/** Available error bar methods (must match core/types.ts) */
+export const errorBarMethods = ["none", "wilson", "clopper-pearson"] as const;
+export type ErrorBarMethod = typeof errorBarMethods[number];
+
+/** Display names for error bar methods */
+export const errorBarLabels: Record<ErrorBarMethod, string> = {
+  "none": "None",
+  "wilson": "Wilson",
+  "clopper-pearson": "Clopper–Pearson",
+};
+
+/** Non-percentage metric settings (must match core/types.ts MetricConfig) */
+export interface MetricSettings {
+  enabled: boolean;        // off = scores are percentages
+  unit: string;            // e.g., "Elo" ("" = none)
+  min: string;             // User input: value of an empty bar ("" = auto)
+  max: string;             // User input: value of a full bar ("" = auto)
+  format: string;          // label template with {value} and {unit} ("" = default)
+}
+
+/** Built-in themes (must match core/types.ts ThemePreset) */
+export const themePresets = ["light", "dark"] as const;
+export type ThemePreset = typeof themePresets[number];
+
+export const themePresetLabels: Record<ThemePreset, string> = {
+  light: "Light",
+  dark: "Dark",
+};
+
+/** Chart theme: a preset plus optional overrides (must match core/types.ts ThemeConfig) */
+export interface ThemeSettings {
+  preset: ThemePreset;
+  colors: Partial<Record<ThemeColorKey, string>>; // hex overrides (missing or "" = preset color)
+  radius: string;          // User input: card corner radius in px ("" = preset)
+}
+
 export interface ChartConfig {
   title: string;
   description: string;
   sponsoredBy: string;
+  sponsorLogo: string;           // sponsor logo data URL ("" = none)
+  logo: string;                  // header logo data URL ("" = none)
+  footerText: string;            // replaces "Made with llmplot.com" ("" = default)
+  source: string;                // data source text ("" = no source line)
+  sourceUrl: string;             // optional link for the source text
   showRankings: boolean;
   percentPrecision: number;
   font: FontFamily;
+  orientation: Orientation;
+  aspectRatio: AspectRatio;
+  chartType: ChartType;
+  xAxis: ScatterXAxis;           // scatter charts only
+  dumbbellSort: DumbbellSort;    // dumbbell charts only
+  sortBy: SortBy;
+  errorBars: ErrorBarMethod;     // derived from passed/total scores only
+  overlapTies: boolean;          // rank overlapping intervals as ties
+  higherIsBetter: boolean;       // false = lowest score ranks first
+  metric: MetricSettings;
+  theme: ThemeSettings;
   models: ModelConfig[];
   customProviders: CustomProvider[];
+  benchmarks: BenchmarkConfig[]; // empty = single-score chart
+  sortBenchmark: string;         // benchmark id to sort by ("" = first benchmark)
+  referenceLines: ReferenceLineConfig[];
+  groups: GroupConfig[];         // empty = one leaderboard
+  rankScope: RankScope;          // rank across the chart or within each group
+  dimOthers: boolean;            // mute models that aren't highlighted
+  topN: string;                  // User input: chart only the best N models ("" = all)
+  maxModelsPerPage: string;      // User input: split into carousel pages ("" = one page)
 }
 
 export interface ModelValidationErrors {
   provider?: string;
   modelName?: string;
   score?: string;
+  previousScore?: string;
+  scores?: Record<string, string>; // keyed by benchmark id
   totalParams?: string;
   activeParams?: string;
+  costPerRun?: string;
+  costPerMillionInput?: string;
+  costPerMillionOutput?: string;
+  latencyMs?: string;
   color?: string;
+  group?: string;
 }
 
 export interface ValidationErrors {
   title?: string;
+  benchmarks?: Record<string, string>; // keyed by benchmark id
+  referenceLines?: Record<string, string>; // keyed by reference line id
+  groups?: Record<string, string>; // keyed by group id
+  metric?: string;
+  theme?: string;
+  source?: string;
+  topN?: string;
+  maxModelsPerPage?: string;
   models: Record<string, ModelValidationErrors>;
 }
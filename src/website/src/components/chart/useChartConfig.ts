@@ -1,10 +1,26 @@
 import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { toPng } from "html-to-image";
+import { zipSync } from "fflate";
+import { jsPDF } from "jspdf";
+import "svg2pdf.js";
 import { toast } from "sonner";
-import { processModels, renderChart, calculateLayoutDimensions } from "@core/index.js";
-import type { InputConfig, ModelData } from "@core/index.js";
-import type { ChartConfig, ModelConfig, ValidationErrors, CustomProvider } from "./types.js";
+import { processModels, renderChart, renderChartPages, renderChartSvg, paginateModels, calculateLayoutDimensions } from "@core/index.js";
+import type { InputConfig, ModelData, ProcessedModel, BenchmarkScore, ThemeConfig } from "@core/index.js";
+import type {
+  ChartConfig,
+  ModelConfig,
+  ValidationErrors,
+  CustomProvider,
+  BenchmarkConfig,
+  ReferenceLineConfig,
+  GroupConfig,
+  MetricSettings,
+  ThemeSettings,
+} from "./types.js";
+import { costFields } from "./types.js";
 import {
+  benchmarkKey,
+  groupKey,
   chartConfigToYaml,
   yamlToChartConfig,
   saveConfigToStorage,
@@ -19,14 +35,21 @@ function generateId(): string {
 
 // Parse score string into structured data
 // Returns null if invalid format
+// With a custom metric, scores are plain numbers instead ("1250", "-3.5")
 export type ParsedScore =
   | { mode: 'fraction'; passed: number; total: number }
-  | { mode: 'percent'; percent: number };
+  | { mode: 'percent'; percent: number }
+  | { mode: 'value'; value: number };
 
-export function parseScore(score: string): ParsedScore | null {
+export function parseScore(score: string, isMetric = false): ParsedScore | null {
   const trimmed = score.trim();
   if (!trimmed) return null;
 
+  if (isMetric) {
+    const valueMatch = trimmed.match(/^-?\d+(?:\.\d+)?$/);
+    return valueMatch ? { mode: 'value', value: parseFloat(trimmed) } : null;
+  }
+
   // Try fraction format: "45/100" or " 45 / 100 "
   const fractionMatch = trimmed.match(/^(\d+)\s*\/\s*(\d+)$/);
   if (fractionMatch) {
@@ -57,39 +80,103 @@ export function createEmptyModel(): ModelConfig {
     provider: "",
     modelName: "",
     score: "",
+    previousScore: "",
+    scores: {},
     totalParams: "",
     activeParams: "",
+    costPerRun: "",
+    costPerMillionInput: "",
+    costPerMillionOutput: "",
+    latencyMs: "",
+    color: "",
+    note: "",
+    group: "",
+    highlight: false,
+    callout: "",
+  };
+}
+
+export function createEmptyBenchmark(): BenchmarkConfig {
+  return {
+    id: generateId(),
+    label: "",
+    color: "",
+  };
+}
+
+export function createEmptyReferenceLine(): ReferenceLineConfig {
+  return {
+    id: generateId(),
+    label: "",
+    value: "",
     color: "",
   };
 }
 
+export function createEmptyGroup(): GroupConfig {
+  return {
+    id: generateId(),
+    label: "",
+  };
+}
+
 const defaultModels: ModelConfig[] = [
   {
     id: generateId(),
     provider: "anthropic",
     modelName: "Claude Opus 4.5",
     score: "75/100",
+    previousScore: "",
+    scores: {},
     totalParams: "",
     activeParams: "",
+    costPerRun: "",
+    costPerMillionInput: "",
+    costPerMillionOutput: "",
+    latencyMs: "",
     color: "",
+    note: "",
+    group: "",
+    highlight: false,
+    callout: "",
   },
   {
     id: generateId(),
     provider: "openai",
     modelName: "GPT 5.2 High",
     score: "74.2%",
+    previousScore: "",
+    scores: {},
     totalParams: "",
     activeParams: "",
+    costPerRun: "",
+    costPerMillionInput: "",
+    costPerMillionOutput: "",
+    latencyMs: "",
     color: "",
+    note: "",
+    group: "",
+    highlight: false,
+    callout: "",
   },
   {
     id: generateId(),
     provider: "google",
     modelName: "Gemini 3 Pro",
     score: "71.8%",
+    previousScore: "",
+    scores: {},
     totalParams: "",
     activeParams: "",
+    costPerRun: "",
+    costPerMillionInput: "",
+    costPerMillionOutput: "",
+    latencyMs: "",
     color: "",
+    note: "",
+    group: "",
+    highlight: false,
+    callout: "",
   },
 ];
 
@@ -97,27 +184,205 @@ const defaultModels: ModelConfig[] = [
 export const chartConfigDefaults = {
   showRankings: false,
   percentPrecision: 1,
+  orientation: "horizontal",
+  aspectRatio: "4:5",
+  chartType: "bar",
+  xAxis: "totalParams",
+  dumbbellSort: "score",
+  sortBy: "score",
+  rankScope: "global",
+  errorBars: "none",
+  overlapTies: false,
+  higherIsBetter: true,
+  dimOthers: false,
+  topN: "",
+  maxModelsPerPage: "",
 } as const;
 
+export const defaultThemeSettings: ThemeSettings = {
+  preset: "light",
+  colors: {},
+  radius: "",
+};
+
+export const defaultMetricSettings: MetricSettings = {
+  enabled: false,
+  unit: "",
+  min: "",
+  max: "",
+  format: "",
+};
+
 const defaultChartConfig: ChartConfig = {
   title: "Sample Plot",
   description: "Model Performance Comparison",
   sponsoredBy: "",
+  sponsorLogo: "",
+  logo: "",
+  footerText: "",
+  source: "",
+  sourceUrl: "",
   showRankings: chartConfigDefaults.showRankings,
   percentPrecision: chartConfigDefaults.percentPrecision,
   font: "sora",
+  orientation: chartConfigDefaults.orientation,
+  aspectRatio: chartConfigDefaults.aspectRatio,
+  chartType: chartConfigDefaults.chartType,
+  xAxis: chartConfigDefaults.xAxis,
+  dumbbellSort: chartConfigDefaults.dumbbellSort,
+  sortBy: chartConfigDefaults.sortBy,
+  errorBars: chartConfigDefaults.errorBars,
+  overlapTies: chartConfigDefaults.overlapTies,
+  higherIsBetter: chartConfigDefaults.higherIsBetter,
+  metric: defaultMetricSettings,
+  theme: defaultThemeSettings,
   models: defaultModels,
   customProviders: [],
+  benchmarks: [],
+  sortBenchmark: "",
+  referenceLines: [],
+  groups: [],
+  dimOthers: chartConfigDefaults.dimOthers,
+  rankScope: chartConfigDefaults.rankScope,
+  topN: chartConfigDefaults.topN,
+  maxModelsPerPage: chartConfigDefaults.maxModelsPerPage,
 };
 
 // Validation
+function validateScore(score: string, isMetric: boolean): string | undefined {
+  if (!score.trim()) return "Required";
+  if (!parseScore(score, isMetric)) return isMetric ? "Must be a number" : "Invalid format";
+  return undefined;
+}
+
+// Empty bounds are derived from the data; set ones must be numbers with min < max
+function validateMetric(metric: MetricSettings): string | undefined {
+  const min = metric.min.trim() ? parseFloat(metric.min) : undefined;
+  const max = metric.max.trim() ? parseFloat(metric.max) : undefined;
+  if ((min !== undefined && isNaN(min)) || (max !== undefined && isNaN(max))) {
+    return "Min and max must be numbers";
+  }
+  if (min !== undefined && max !== undefined && min >= max) {
+    return "Min must be less than max";
+  }
+  return undefined;
+}
+
+// Overrides are optional; set ones must be hex colors and a non-negative radius
+function validateTheme(theme: ThemeSettings): string | undefined {
+  if (Object.values(theme.colors).some((color) => color && !/^#[0-9A-Fa-f]{6}$/.test(color))) {
+    return "Colors must be hex (e.g., #FF5733)";
+  }
+  const radius = parseOptionalNumber(theme.radius);
+  if (radius !== undefined && (isNaN(radius) || radius < 0)) {
+    return "Radius must be a non-negative number";
+  }
+  return undefined;
+}
+
+/** Drop empty overrides so the preset's colors show through */
+function toThemeConfig(theme: ThemeSettings): ThemeConfig {
+  const colors = Object.fromEntries(Object.entries(theme.colors).filter(([, color]) => color));
+  return { preset: theme.preset, ...colors, radius: parseOptionalNumber(theme.radius) };
+}
+
+function parseOptionalNumber(value: string): number | undefined {
+  return value.trim() ? parseFloat(value) : undefined;
+}
+
 function validateConfig(config: ChartConfig): ValidationErrors {
   const errors: ValidationErrors = { models: {} };
+  const isMetric = config.metric.enabled;
 
   if (!config.title.trim()) {
     errors.title = "Title is required";
   }
 
+  if (isMetric) {
+    errors.metric = validateMetric(config.metric);
+  }
+
+  errors.theme = validateTheme(config.theme);
+
+  if (config.sourceUrl.trim() && !/^https?:\/\//.test(config.sourceUrl.trim())) {
+    errors.source = "Link must start with http:// or https://";
+  }
+
+  // Scatter plots can't leave models out, so topN is ignored there
+  if (config.chartType !== "scatter" && config.topN.trim() && !/^[1-9]\d*$/.test(config.topN.trim())) {
+    errors.topN = "Must be a positive whole number";
+  }
+
+  if (config.maxModelsPerPage.trim() && !/^[1-9]\d*$/.test(config.maxModelsPerPage.trim())) {
+    errors.maxModelsPerPage = "Must be a positive whole number";
+  }
+
+  // Benchmark labels become YAML keys, so they must be present and unique
+  const seenKeys = new Set<string>();
+  const benchmarkErrors: Record<string, string> = {};
+  config.benchmarks.forEach((b) => {
+    if (!b.label.trim()) {
+      benchmarkErrors[b.id] = "Required";
+      return;
+    }
+    const key = benchmarkKey(b);
+    if (seenKeys.has(key)) {
+      benchmarkErrors[b.id] = "Duplicate name";
+    }
+    seenKeys.add(key);
+    if (b.color && !/^#[0-9A-Fa-f]{6}$/.test(b.color)) {
+      benchmarkErrors[b.id] = "Invalid hex (e.g., #FF5733)";
+    }
+  });
+  if (config.chartType === "dumbbell") {
+    // Dumbbell charts compare a single score per model
+    config.benchmarks.forEach((b) => {
+      benchmarkErrors[b.id] = "Not supported in dumbbell charts";
+    });
+  }
+  if (isMetric) {
+    // Custom metrics replace the single percentage score
+    config.benchmarks.forEach((b) => {
+      benchmarkErrors[b.id] = "Not supported with a custom metric";
+    });
+  }
+  if (Object.keys(benchmarkErrors).length > 0) {
+    errors.benchmarks = benchmarkErrors;
+  }
+
+  const referenceLineErrors: Record<string, string> = {};
+  config.referenceLines.forEach((r) => {
+    const value = parseFloat(r.value);
+    if (!r.label.trim()) {
+      referenceLineErrors[r.id] = "Label is required";
+    } else if (isNaN(value) || (!isMetric && (value < 0 || value > 100))) {
+      referenceLineErrors[r.id] = isMetric ? "Value must be a number" : "Value must be 0-100";
+    } else if (r.color && !/^#[0-9A-Fa-f]{6}$/.test(r.color)) {
+      referenceLineErrors[r.id] = "Invalid hex (e.g., #FF5733)";
+    }
+  });
+  if (Object.keys(referenceLineErrors).length > 0) {
+    errors.referenceLines = referenceLineErrors;
+  }
+
+  // Group labels become YAML keys, so they must be present and unique
+  const seenGroupKeys = new Set<string>();
+  const groupErrors: Record<string, string> = {};
+  config.groups.forEach((g) => {
+    if (!g.label.trim()) {
+      groupErrors[g.id] = "Required";
+      return;
+    }
+    const key = groupKey(g);
+    if (seenGroupKeys.has(key)) {
+      groupErrors[g.id] = "Duplicate name";
+    }
+    seenGroupKeys.add(key);
+  });
+  if (Object.keys(groupErrors).length > 0) {
+    errors.groups = groupErrors;
+  }
+
   config.models.forEach((model) => {
     const modelErrors: ValidationErrors['models'][string] = {};
 
@@ -129,14 +394,24 @@ function validateConfig(config: ChartConfig): ValidationErrors {
       modelErrors.modelName = "Required";
     }
 
-    // Validate score field
-    if (!model.score.trim()) {
-      modelErrors.score = "Required";
-    } else {
-      const parsed = parseScore(model.score);
-      if (!parsed) {
-        modelErrors.score = "Invalid format";
+    // Validate score field, or one score per benchmark
+    if (config.benchmarks.length > 0) {
+      const scoreErrors: Record<string, string> = {};
+      config.benchmarks.forEach((b) => {
+        const error = validateScore(model.scores[b.id] ?? "", false);
+        if (error) scoreErrors[b.id] = error;
+      });
+      if (Object.keys(scoreErrors).length > 0) {
+        modelErrors.scores = scoreErrors;
       }
+    } else {
+      const error = validateScore(model.score, isMetric);
+      if (error) modelErrors.score = error;
+    }
+
+    if (config.chartType === "dumbbell") {
+      const error = validateScore(model.previousScore, isMetric);
+      if (error) modelErrors.previousScore = error;
     }
 
     if (model.totalParams) {
@@ -153,10 +428,33 @@ function validateConfig(config: ChartConfig): ValidationErrors {
       }
     }
 
+    for (const field of costFields) {
+      if (model[field]) {
+        const value = parseFloat(model[field]);
+        if (isNaN(value) || value <= 0) {
+          modelErrors[field] = "Must be > 0";
+        }
+      }
+    }
+
+    // Scatter charts place every model by the x-axis metric
+    // (activeParams falls back to totalParams for dense models)
+    if (config.chartType === "scatter") {
+      const field = config.xAxis === "activeParams" ? "totalParams" : config.xAxis;
+      if (!model[field] && !modelErrors[field]) {
+        modelErrors[field] = "Required for scatter";
+      }
+    }
+
     if (model.color && !/^#[0-9A-Fa-f]{6}$/.test(model.color)) {
       modelErrors.color = "Invalid hex (e.g., #FF5733)";
     }
 
+    // Once groups exist, every model belongs to one
+    if (config.groups.length > 0 && !config.groups.some((g) => g.id === model.group)) {
+      modelErrors.group = "Required";
+    }
+
     if (Object.keys(modelErrors).length > 0) {
       errors.models[model.id] = modelErrors;
     }
@@ -166,7 +464,18 @@ function validateConfig(config: ChartConfig): ValidationErrors {
 }
 
 export function hasErrors(errors: ValidationErrors): boolean {
-  return !!errors.title || Object.keys(errors.models).length > 0;
+  return (
+    !!errors.title ||
+    !!errors.metric ||
+    !!errors.theme ||
+    !!errors.source ||
+    !!errors.topN ||
+    !!errors.maxModelsPerPage ||
+    !!errors.benchmarks ||
+    !!errors.referenceLines ||
+    !!errors.groups ||
+    Object.keys(errors.models).length > 0
+  );
 }
 
 export function formatErrors(errors: ValidationErrors): string[] {
@@ -175,6 +484,38 @@ export function formatErrors(errors: ValidationErrors): string[] {
   if (errors.title) {
     messages.push("Title is required");
   }
+
+  if (errors.metric) {
+    messages.push(`Custom metric: ${errors.metric}`);
+  }
+
+  if (errors.theme) {
+    messages.push(`Theme: ${errors.theme}`);
+  }
+
+  if (errors.source) {
+    messages.push(`Source: ${errors.source}`);
+  }
+
+  if (errors.topN) {
+    messages.push(`Top N: ${errors.topN}`);
+  }
+
+  if (errors.maxModelsPerPage) {
+    messages.push(`Models per page: ${errors.maxModelsPerPage}`);
+  }
+
+  if (errors.benchmarks) {
+    messages.push("Every benchmark needs a unique name");
+  }
+
+  if (errors.referenceLines) {
+    messages.push("Every reference line needs a label and a valid value");
+  }
+
+  if (errors.groups) {
+    messages.push("Every group needs a unique name");
+  }
   
   const modelCount = Object.keys(errors.models).length;
   if (modelCount > 0) {
@@ -186,8 +527,21 @@ export function formatErrors(errors: ValidationErrors): string[] {
   return messages;
 }
 
+// Convert a parsed score input to the core score fields
+function toBenchmarkScore(parsed: ParsedScore): BenchmarkScore {
+  switch (parsed.mode) {
+    case 'fraction':
+      return { passed: parsed.passed, total: parsed.total };
+    case 'percent':
+      return { percent: parsed.percent };
+    case 'value':
+      return { value: parsed.value };
+  }
+}
+
 // Convert chart config to InputConfig for renderer
 function toRenderConfig(config: ChartConfig): InputConfig {
+  const isMetric = config.metric.enabled;
   const models: ModelData[] = config.models.map((m) => {
     // Find custom provider if this model uses one
     const customProvider = config.customProviders.find(cp => cp.key === m.provider);
@@ -197,17 +551,52 @@ function toRenderConfig(config: ChartConfig): InputConfig {
       model: m.provider,
     };
 
-    // Parse score and set appropriate fields
-    const parsed = parseScore(m.score);
-    if (parsed) {
-      if (parsed.mode === 'fraction') {
-        base.passed = parsed.passed;
-        base.total = parsed.total;
-      } else {
-        base.percent = parsed.percent;
+    // Parse score(s) and set appropriate fields
+    if (config.benchmarks.length > 0) {
+      base.scores = {};
+      for (const b of config.benchmarks) {
+        const parsed = parseScore(m.scores[b.id] ?? "");
+        if (parsed) {
+          base.scores[b.id] = toBenchmarkScore(parsed);
+        }
+      }
+    } else {
+      const parsed = parseScore(m.score, isMetric);
+      if (parsed) {
+        if (parsed.mode === 'fraction') {
+          base.passed = parsed.passed;
+          base.total = parsed.total;
+        } else if (parsed.mode === 'value') {
+          base.value = parsed.value;
+        } else {
+          base.percent = parsed.percent;
+        }
+      }
+    }
+
+    if (config.chartType === "dumbbell") {
+      const parsed = parseScore(m.previousScore, isMetric);
+      if (parsed) {
+        base.previous = toBenchmarkScore(parsed);
       }
     }
 
+    if (m.note.trim()) {
+      base.note = m.note.trim();
+    }
+
+    // Group ids double as keys; the subheading shows the label
+    if (config.groups.length > 0) {
+      base.group = m.group;
+    }
+
+    if (m.highlight) {
+      base.highlight = true;
+    }
+    if (m.callout.trim()) {
+      base.callout = m.callout.trim();
+    }
+
     // Use the modelName field as displayName
     if (m.modelName.trim()) {
       base.displayName = m.modelName.trim();
@@ -218,6 +607,11 @@ function toRenderConfig(config: ChartConfig): InputConfig {
     if (m.activeParams) {
       base.activeParams = parseInt(m.activeParams, 10);
     }
+    for (const field of costFields) {
+      if (m[field]) {
+        base[field] = parseFloat(m[field]);
+      }
+    }
     
     // Use model's color override, or custom provider's color
     if (m.color) {
@@ -238,13 +632,143 @@ function toRenderConfig(config: ChartConfig): InputConfig {
     title: config.title,
     description: config.description || undefined,
     sponsoredBy: config.sponsoredBy || undefined,
+    sponsorLogo: config.sponsorLogo || undefined,
+    logo: config.logo || undefined,
+    footerText: config.footerText.trim() || undefined,
+    source: config.source.trim()
+      ? { text: config.source.trim(), url: config.sourceUrl.trim() || undefined }
+      : undefined,
     showRankings: config.showRankings,
     percentPrecision: config.percentPrecision,
+    metric: isMetric
+      ? {
+          unit: config.metric.unit.trim() || undefined,
+          min: parseOptionalNumber(config.metric.min),
+          max: parseOptionalNumber(config.metric.max),
+          format: config.metric.format.trim() || undefined,
+        }
+      : undefined,
+    higherIsBetter: config.higherIsBetter,
     font: config.font,
+    theme: toThemeConfig(config.theme),
+    orientation: config.orientation,
+    aspectRatio: config.aspectRatio,
+    chartType: config.chartType,
+    xAxis: config.xAxis,
+    dumbbellSort: config.dumbbellSort,
+    sortBy: config.sortBy,
+    groups: config.groups.length > 0
+      ? config.groups.map((g) => ({ key: g.id, label: g.label.trim() }))
+      : undefined,
+    rankScope: config.rankScope,
+    dimOthers: config.dimOthers,
+    topN: config.chartType !== "scatter" && config.topN.trim() ? parseInt(config.topN, 10) : undefined,
+    maxModelsPerPage: config.maxModelsPerPage.trim() ? parseInt(config.maxModelsPerPage, 10) : undefined,
+    errorBars: config.errorBars,
+    overlapTies: config.overlapTies,
+    // Benchmark ids double as keys; the legend shows the label
+    benchmarks: config.benchmarks.length > 0
+      ? config.benchmarks.map((b) => ({ key: b.id, label: b.label.trim(), color: b.color || undefined }))
+      : undefined,
+    sortBenchmark: config.benchmarks.some((b) => b.id === config.sortBenchmark) ? config.sortBenchmark : undefined,
+    referenceLines: config.referenceLines.length > 0
+      ? config.referenceLines.map((r) => ({ label: r.label.trim(), value: parseFloat(r.value), color: r.color || undefined }))
+      : undefined,
     models,
   };
 }
 
+// Pixel ratio of PNG downloads, whether captured from the preview or offscreen per carousel page
+const PNG_EXPORT_PIXEL_RATIO = 3;
+
+/**
+ * Capture every carousel page as a PNG data URL.
+ * The preview only shows one page, so each page is rendered unscaled into an
+ * offscreen shadow root (keeping the site's CSS out, like ShadowDomChart).
+ */
+async function captureChartPages(renderConfig: InputConfig, models: ProcessedModel[], pageCount: number): Promise<string[]> {
+  // Park the host offscreen through a wrapper; the captured node itself stays unpositioned
+  const wrapper = document.createElement("div");
+  wrapper.style.cssText = "position: fixed; top: 0; left: -100000px;";
+  const host = document.createElement("div");
+  wrapper.appendChild(host);
+  document.body.appendChild(wrapper);
+  const shadowRoot = host.attachShadow({ mode: "open" });
+
+  try {
+    const captured: string[] = [];
+    for (let page = 0; page < pageCount; page++) {
+      shadowRoot.innerHTML = renderChart(renderConfig, models, { mode: 'web', page });
+      captured.push(await toPng(host, { pixelRatio: PNG_EXPORT_PIXEL_RATIO }));
+    }
+    return captured;
+  } finally {
+    wrapper.remove();
+  }
+}
+
+// jsPDF can't synthesize bold, so the chart's one font is registered for every weight it uses
+const PDF_FONT_STYLES = ["normal", "500normal", "600normal", "bold"];
+
+/**
+ * Convert one page's SVG into a single-page vector PDF the size of the chart.
+ * The font embedded in the SVG is registered with jsPDF so the text stays real text.
+ */
+async function svgToPdf(svg: string): Promise<Blob> {
+  const element = new DOMParser().parseFromString(svg, "image/svg+xml").documentElement;
+  const width = parseFloat(element.getAttribute("width") ?? "0");
+  const height = parseFloat(element.getAttribute("height") ?? "0");
+  const pdf = new jsPDF({
+    orientation: width > height ? "landscape" : "portrait",
+    unit: "px",
+    format: [width, height],
+    hotfixes: ["px_scaling"],
+  });
+
+  const fontName = /^'([^']+)'/.exec(element.getAttribute("font-family") ?? "")?.[1];
+  const fontData = /url\(data:font\/[^;]+;base64,([^)]+)\)/.exec(svg)?.[1];
+  if (fontName && fontData) {
+    pdf.addFileToVFS(`${fontName}.ttf`, fontData);
+    for (const style of PDF_FONT_STYLES) pdf.addFont(`${fontName}.ttf`, fontName, style);
+    // svg2pdf measures centered and right-aligned text in the page, so load the font there too
+    document.fonts.add(await new FontFace(fontName, `url(data:font/ttf;base64,${fontData})`).load());
+  }
+
+  await pdf.svg(element, { x: 0, y: 0, width, height });
+  return pdf.output("blob");
+}
+
+// Download file name for a page: "chart.png", or "chart-1.png", "chart-2.png", ... for carousels
+function getPageFileName(title: string, page: number, pageCount: number, extension: string): string {
+  const suffix = pageCount > 1 ? `-${page + 1}` : "";
+  return `${slugify(title)}${suffix}.${extension}`;
+}
+
+// Wait before revoking a download's object URL, so the browser has started reading it
+const REVOKE_URL_DELAY_MS = 10_000;
+
+function saveBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_URL_DELAY_MS);
+}
+
+// Save one file per page; carousel pages go into a single zip, since browsers block repeated downloads
+async function savePages(title: string, extension: string, pages: Blob[]): Promise<void> {
+  if (pages.length === 1) {
+    saveBlob(pages[0], getPageFileName(title, 0, 1, extension));
+    return;
+  }
+  const files: Record<string, Uint8Array> = {};
+  for (const [page, blob] of pages.entries()) {
+    files[getPageFileName(title, page, pages.length, extension)] = new Uint8Array(await blob.arrayBuffer());
+  }
+  saveBlob(new Blob([zipSync(files)], { type: "application/zip" }), `${slugify(title)}.zip`);
+}
+
 // Main hook
 export function useChartConfig() {
   // Initialize from localStorage, falling back to default config
@@ -263,6 +787,9 @@ export function useChartConfig() {
   const [chartHtml, setChartHtml] = useState<string | null>(null);
   const [containerWidth, setContainerWidth] = useState(0);
   const [isGenerating, setIsGenerating] = useState(false);
+  // Carousel page shown in the preview (0-based) and how many pages the chart has
+  const [previewPage, setPreviewPage] = useState(0);
+  const [pageCount, setPageCount] = useState(1);
   const containerRef = useRef<HTMLDivElement>(null);
   // Track the source of the change to use different debounce times
   const changeSourceRef = useRef<'config' | 'resize'>('config');
@@ -279,18 +806,52 @@ export function useChartConfig() {
       title: chartConfig.title,
       description: chartConfig.description,
       sponsoredBy: chartConfig.sponsoredBy,
+      sponsorLogo: chartConfig.sponsorLogo,
+      logo: chartConfig.logo,
+      footerText: chartConfig.footerText,
+      source: chartConfig.source,
+      sourceUrl: chartConfig.sourceUrl,
       showRankings: chartConfig.showRankings,
       percentPrecision: chartConfig.percentPrecision,
       font: chartConfig.font,
+      orientation: chartConfig.orientation,
+      aspectRatio: chartConfig.aspectRatio,
+      chartType: chartConfig.chartType,
+      xAxis: chartConfig.xAxis,
+      dumbbellSort: chartConfig.dumbbellSort,
+      sortBy: chartConfig.sortBy,
+      errorBars: chartConfig.errorBars,
+      overlapTies: chartConfig.overlapTies,
+      higherIsBetter: chartConfig.higherIsBetter,
+      metric: chartConfig.metric,
+      theme: chartConfig.theme,
       models: chartConfig.models.map(m => ({
         provider: m.provider,
         modelName: m.modelName,
         score: m.score,
+        previousScore: m.previousScore,
+        scores: m.scores,
         totalParams: m.totalParams,
         activeParams: m.activeParams,
+        costPerRun: m.costPerRun,
+        costPerMillionInput: m.costPerMillionInput,
+        costPerMillionOutput: m.costPerMillionOutput,
+        latencyMs: m.latencyMs,
         color: m.color,
+        note: m.note,
+        group: m.group,
+        highlight: m.highlight,
+        callout: m.callout,
       })),
       customProviders: chartConfig.customProviders,
+      benchmarks: chartConfig.benchmarks.map(b => ({ label: b.label, color: b.color })),
+      sortBenchmark: chartConfig.sortBenchmark,
+      referenceLines: chartConfig.referenceLines.map(r => ({ label: r.label, value: r.value, color: r.color })),
+      groups: chartConfig.groups.map(g => ({ id: g.id, label: g.label })),
+      rankScope: chartConfig.rankScope,
+      dimOthers: chartConfig.dimOthers,
+      topN: chartConfig.topN,
+      maxModelsPerPage: chartConfig.maxModelsPerPage,
     };
     return JSON.stringify(relevantData);
   }, [chartConfig]);
@@ -323,16 +884,22 @@ export function useChartConfig() {
       const renderConfig = toRenderConfig(currentConfig);
       const models = processModels(renderConfig);
       
-      const dimensions = calculateLayoutDimensions(models.length, !!renderConfig.description, renderConfig.showRankings);
+      const dimensions = calculateLayoutDimensions(renderConfig, models);
       // Cap scale at 1.0 - only scale down, never up
       const scale = containerWidth > 0 ? Math.min(1, containerWidth / dimensions.backgroundWidth) : 1;
+
+      // Stay on the last page when edits leave fewer pages
+      const pages = paginateModels(renderConfig, models).length;
+      const page = Math.min(previewPage, pages - 1);
+      setPageCount(pages);
+      if (page !== previewPage) setPreviewPage(page);
       
-      const html = renderChart(renderConfig, models, { mode: 'web', scale });
+      const html = renderChart(renderConfig, models, { mode: 'web', scale, page });
       setChartHtml(html);
     } catch {
       setChartHtml("");
     }
-  }, [containerWidth]);
+  }, [containerWidth, previewPage]);
 
   // Track last change time for leading-edge debounce
   const lastChangeTimeRef = useRef<number>(0);
@@ -401,13 +968,7 @@ export function useChartConfig() {
     const yaml = chartConfigToYaml(configRef.current);
     const filename = `${slugify(configRef.current.title)}.yaml`;
     
-    const blob = new Blob([yaml], { type: "text/yaml" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = filename;
-    a.click();
-    URL.revokeObjectURL(url);
+    saveBlob(new Blob([yaml], { type: "text/yaml" }), filename);
   }, []);
 
   // Import config from YAML string
@@ -432,7 +993,7 @@ export function useChartConfig() {
     }));
   }, []);
 
-  const downloadHtml = useCallback((): boolean => {
+  const downloadHtml = useCallback(async (interactive = false): Promise<boolean> => {
     const currentConfig = configRef.current;
     const validationErrors = validateConfig(currentConfig);
     if (hasErrors(validationErrors)) {
@@ -441,21 +1002,17 @@ export function useChartConfig() {
       return false;
     }
 
-    const toastId = toast.info("Downloading HTML...");
+    const label = interactive ? "Interactive HTML" : "HTML";
+    const toastId = toast.info(`Downloading ${label}...`);
 
     try {
       const renderConfig = toRenderConfig(currentConfig);
       const models = processModels(renderConfig);
-      const html = renderChart(renderConfig, models, { mode: 'cli' });
+      // One file per carousel page
+      const pages = renderChartPages(renderConfig, models, { mode: interactive ? 'interactive' : 'cli' });
       
-      const blob = new Blob([html], { type: "text/html" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${slugify(currentConfig.title)}.html`;
-      a.click();
-      URL.revokeObjectURL(url);
-      toast.success("HTML downloaded", { id: toastId });
+      await savePages(currentConfig.title, "html", pages.map((html) => new Blob([html], { type: "text/html" })));
+      toast.success(`${label} downloaded`, { id: toastId });
       return true;
     } catch {
       toast.error("Export failed", { id: toastId, description: "Could not generate HTML" });
@@ -481,11 +1038,16 @@ export function useChartConfig() {
     const toastId = toast.info("Downloading PNG...");
 
     try {
-      const dataUrl = await toPng(element, { pixelRatio: 3 });
-      const link = document.createElement("a");
-      link.download = `${slugify(currentConfig.title)}.png`;
-      link.href = dataUrl;
-      link.click();
+      const renderConfig = toRenderConfig(currentConfig);
+      const models = processModels(renderConfig);
+      const pages = paginateModels(renderConfig, models).length;
+      // A single page is captured straight from the preview
+      const dataUrls = pages > 1
+        ? await captureChartPages(renderConfig, models, pages)
+        : [await toPng(element, { pixelRatio: PNG_EXPORT_PIXEL_RATIO })];
+
+      const blobs = await Promise.all(dataUrls.map(async (dataUrl) => (await fetch(dataUrl)).blob()));
+      await savePages(currentConfig.title, "png", blobs);
       toast.success("PNG downloaded", { id: toastId });
       return true;
     } catch {
@@ -503,40 +1065,18 @@ export function useChartConfig() {
       return false;
     }
 
-    const element = document.getElementById("chart-preview");
-    if (!element) {
-      toast.error("Export failed", { description: "Chart not found" });
-      return false;
-    }
-
     const toastId = toast.info("Downloading SVG...");
 
     try {
-      const dataUrl = await toPng(element, { pixelRatio: 3 });
-      
-      // Get dimensions from the element (scaled 2x)
-      const rect = element.getBoundingClientRect();
-const width = Math.round(rect.width * 3);
-    const height = Math.round(rect.height * 3);
-      
-      // Create SVG with embedded PNG (matches CLI approach)
-      const svg = `<?xml version="1.0" encoding="UTF-8"?>
-<svg xmlns="http://www.w3.org/2000/svg" 
-     xmlns:xlink="http://www.w3.org/1999/xlink"
-     width="${width}" 
-     height="${height}" 
-     viewBox="0 0 ${width} ${height}">
-  <image width="${width}" height="${height}" 
-         xlink:href="${dataUrl}"/>
-</svg>`;
-      
-      const blob = new Blob([svg], { type: "image/svg+xml" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.download = `${slugify(currentConfig.title)}.svg`;
-      link.href = url;
-      link.click();
-      URL.revokeObjectURL(url);
+      const renderConfig = toRenderConfig(currentConfig);
+      const models = processModels(renderConfig);
+      // Vector SVG drawn by the core renderer, one file per carousel page
+      const pages = paginateModels(renderConfig, models).length;
+
+      const blobs = Array.from({ length: pages }, (_, page) =>
+        new Blob([renderChartSvg(renderConfig, models, { page })], { type: "image/svg+xml" })
+      );
+      await savePages(currentConfig.title, "svg", blobs);
       toast.success("SVG downloaded", { id: toastId });
       return true;
     } catch {
@@ -545,6 +1085,36 @@ const width = Math.round(rect.width * 3);
     }
   }, []);
 
+  const downloadPdf = useCallback(async (): Promise<boolean> => {
+    const currentConfig = configRef.current;
+    const validationErrors = validateConfig(currentConfig);
+    if (hasErrors(validationErrors)) {
+      setErrors(validationErrors);
+      setShowAllErrors(true);
+      return false;
+    }
+
+    const toastId = toast.info("Downloading PDF...");
+
+    try {
+      const renderConfig = toRenderConfig(currentConfig);
+      const models = processModels(renderConfig);
+      // Converted from the vector SVG, so text and shapes stay sharp in papers
+      const pages = paginateModels(renderConfig, models).length;
+
+      const blobs: Blob[] = [];
+      for (let page = 0; page < pages; page++) {
+        blobs.push(await svgToPdf(renderChartSvg(renderConfig, models, { page })));
+      }
+      await savePages(currentConfig.title, "pdf", blobs);
+      toast.success("PDF downloaded", { id: toastId });
+      return true;
+    } catch {
+      toast.error("Export failed", { id: toastId, description: "Could not generate PDF" });
+      return false;
+    }
+  }, []);
+
   const updateConfig = useCallback((updates: Partial<ChartConfig>) => {
     setChartConfig((prev) => ({ ...prev, ...updates }));
   }, []);
@@ -607,6 +1177,92 @@ const width = Math.round(rect.width * 3);
     }));
   }, []);
 
+  const addBenchmark = useCallback(() => {
+    setChartConfig((prev) => {
+      const benchmark = createEmptyBenchmark();
+      return {
+        ...prev,
+        benchmarks: [...prev.benchmarks, benchmark],
+        // The first benchmark inherits each model's single score
+        models: prev.models.map((m) => ({
+          ...m,
+          scores: { ...m.scores, [benchmark.id]: prev.benchmarks.length === 0 ? m.score : "" },
+        })),
+      };
+    });
+  }, []);
+
+  const updateBenchmark = useCallback((id: string, updates: Partial<BenchmarkConfig>) => {
+    setChartConfig((prev) => ({
+      ...prev,
+      benchmarks: prev.benchmarks.map((b) => (b.id === id ? { ...b, ...updates } : b)),
+    }));
+  }, []);
+
+  const removeBenchmark = useCallback((id: string) => {
+    setChartConfig((prev) => {
+      const isLast = prev.benchmarks.length === 1;
+      return {
+        ...prev,
+        benchmarks: prev.benchmarks.filter((b) => b.id !== id),
+        sortBenchmark: prev.sortBenchmark === id ? "" : prev.sortBenchmark,
+        // Removing the last benchmark returns its scores to the single score field
+        models: prev.models.map((m) => {
+          const { [id]: removed, ...scores } = m.scores;
+          return { ...m, scores, score: isLast ? removed ?? "" : m.score };
+        }),
+      };
+    });
+  }, []);
+
+  const addReferenceLine = useCallback(() => {
+    setChartConfig((prev) => ({
+      ...prev,
+      referenceLines: [...prev.referenceLines, createEmptyReferenceLine()],
+    }));
+  }, []);
+
+  const updateReferenceLine = useCallback((id: string, updates: Partial<ReferenceLineConfig>) => {
+    setChartConfig((prev) => ({
+      ...prev,
+      referenceLines: prev.referenceLines.map((r) => (r.id === id ? { ...r, ...updates } : r)),
+    }));
+  }, []);
+
+  const removeReferenceLine = useCallback((id: string) => {
+    setChartConfig((prev) => ({
+      ...prev,
+      referenceLines: prev.referenceLines.filter((r) => r.id !== id),
+    }));
+  }, []);
+
+  const addGroup = useCallback(() => {
+    setChartConfig((prev) => {
+      const group = createEmptyGroup();
+      return {
+        ...prev,
+        groups: [...prev.groups, group],
+        // The first group takes every model, so the chart stays valid
+        models: prev.groups.length === 0 ? prev.models.map((m) => ({ ...m, group: group.id })) : prev.models,
+      };
+    });
+  }, []);
+
+  const updateGroup = useCallback((id: string, updates: Partial<GroupConfig>) => {
+    setChartConfig((prev) => ({
+      ...prev,
+      groups: prev.groups.map((g) => (g.id === id ? { ...g, ...updates } : g)),
+    }));
+  }, []);
+
+  const removeGroup = useCallback((id: string) => {
+    setChartConfig((prev) => ({
+      ...prev,
+      groups: prev.groups.filter((g) => g.id !== id),
+      models: prev.models.map((m) => (m.group === id ? { ...m, group: "" } : m)),
+    }));
+  }, []);
+
   const restoreSampleData = useCallback(() => {
     // Restore default config with fresh IDs for each model
     setChartConfig({
@@ -626,6 +1282,9 @@ const width = Math.round(rect.width * 3);
     markTouched,
     chartHtml,
     isGenerating,
+    previewPage,
+    setPreviewPage,
+    pageCount,
     containerRef,
     updateConfig,
     updateModel,
@@ -634,9 +1293,19 @@ const width = Math.round(rect.width * 3);
     addCustomProvider,
     removeCustomProvider,
     updateCustomProvider,
+    addBenchmark,
+    updateBenchmark,
+    removeBenchmark,
+    addReferenceLine,
+    updateReferenceLine,
+    removeReferenceLine,
+    addGroup,
+    updateGroup,
+    removeGroup,
     downloadHtml,
     downloadPng,
     downloadSvg,
+    downloadPdf,
     exportYaml,
     downloadYaml,
     importYaml,
@@ -1,6 +1,31 @@
 import { stringify, parse } from "yaml";
-import type { ChartConfig, ModelConfig, CustomProvider, FontFamily } from "@/components/chart/types";
-import { parseScore } from "@/components/chart/useChartConfig";
+import type {
+  ChartConfig,
+  ModelConfig,
+  CustomProvider,
+  FontFamily,
+  Orientation,
+  AspectRatio,
+  BenchmarkConfig,
+  ReferenceLineConfig,
+  GroupConfig,
+  ErrorBarMethod,
+  ChartType,
+  ScatterXAxis,
+  CostField,
+  DumbbellSort,
+  SortBy,
+  RankScope,
+  MetricSettings,
+  ThemePreset,
+  ThemeSettings,
+} from "@/components/chart/types";
+import { errorBarMethods, aspectRatios, chartTypes, scatterXAxes, costFields, dumbbellSorts, sortBys, rankScopes, themePresets } from "@/components/chart/types";
+import { parseScore, defaultMetricSettings, defaultThemeSettings, type ParsedScore } from "@/components/chart/useChartConfig";
+import { THEME_COLOR_KEYS, type ThemeColorKey } from "@core/theme.js";
+import { slugify } from "@core/slug.js";
+
+export { slugify };
 
 const STORAGE_KEY = "llmplot-config";
 
@@ -18,17 +43,25 @@ function generateId(): string {
 }
 
 /**
- * Slugify a string for use as a filename
+ * YAML key for a benchmark, derived from its label
  */
-export function slugify(str: string): string {
-  return str
-    .toLowerCase()
-    .trim()
-    .replace(/[^\w\s-]/g, "")
-    .replace(/[\s_-]+/g, "-")
-    .replace(/^-+|-+$/g, "") || "chart";
+export function benchmarkKey(benchmark: BenchmarkConfig): string {
+  return slugify(benchmark.label);
 }
 
+/**
+ * YAML key for a group, derived from its label
+ */
+export function groupKey(group: GroupConfig): string {
+  return slugify(group.label);
+}
+
+/**
+ * YAML format for a per-benchmark score (a bare number is shorthand for percent,
+ * or for value when a metric is set)
+ */
+type YamlScore = number | { passed: number; total: number };
+
 /**
  * YAML format for a model (CLI-compatible)
  */
@@ -38,9 +71,57 @@ interface YamlModel {
   passed?: number;
   total?: number;
   percent?: number;
+  value?: number;
+  scores?: Record<string, YamlScore>;
+  previous?: YamlScore;
   totalParams?: number;
   activeParams?: number;
+  costPerRun?: number;
+  costPerMillionInput?: number;
+  costPerMillionOutput?: number;
+  latencyMs?: number;
   color?: string;
+  note?: string;
+  group?: string;
+  highlight?: boolean;
+  callout?: string;
+}
+
+/**
+ * YAML format for a non-percentage metric (CLI-compatible)
+ */
+interface YamlMetric {
+  unit?: string;
+  min?: number;
+  max?: number;
+  format?: string;
+  higherIsBetter?: boolean;
+}
+
+/**
+ * YAML format for a reference line (CLI-compatible)
+ */
+interface YamlReferenceLine {
+  label: string;
+  value: number;
+  color?: string;
+}
+
+/**
+ * YAML format for a benchmark (CLI-compatible)
+ */
+interface YamlBenchmark {
+  key: string;
+  label: string;
+  color?: string;
+}
+
+/**
+ * YAML format for a group (CLI-compatible)
+ */
+interface YamlGroup {
+  key: string;
+  label: string;
 }
 
 /**
@@ -52,20 +133,71 @@ interface YamlCustomProvider {
   iconDataUrl?: string;
 }
 
+/**
+ * YAML format for a theme with overrides (CLI-compatible).
+ * A bare preset name is written as `theme: dark` instead.
+ */
+interface YamlTheme extends Partial<Record<ThemeColorKey, string>> {
+  preset?: ThemePreset;
+  radius?: number;
+}
+
 /**
  * YAML root format (CLI-compatible)
  */
+interface YamlSource {
+  text: string;
+  url?: string;
+}
+
 interface YamlConfig {
   title: string;
   description?: string;
   sponsoredBy?: string;
+  sponsorLogo?: string;
+  logo?: string;
+  footerText?: string;
+  source?: string | YamlSource;
   showRankings?: boolean;
   percentPrecision?: number;
+  metric?: YamlMetric;
+  theme?: ThemePreset | YamlTheme;
+  higherIsBetter?: boolean;
   font?: string;
+  orientation?: Orientation;
+  aspectRatio?: AspectRatio;
+  chartType?: ChartType;
+  xAxis?: ScatterXAxis;
+  dumbbellSort?: DumbbellSort;
+  sortBy?: SortBy;
+  groups?: YamlGroup[];
+  rankScope?: RankScope;
+  dimOthers?: boolean;
+  topN?: number;
+  maxModelsPerPage?: number;
+  benchmarks?: YamlBenchmark[];
+  sortBenchmark?: string;
+  referenceLines?: YamlReferenceLine[];
+  errorBars?: ErrorBarMethod;
+  overlapTies?: boolean;
   models: YamlModel[];
   customProviders?: YamlCustomProvider[];
 }
 
+/**
+ * Convert a parsed score input to its YAML form (bare numbers for percent and value)
+ */
+function toYamlScore(parsed: ParsedScore): YamlScore {
+  switch (parsed.mode) {
+    case "fraction":
+      return { passed: parsed.passed, total: parsed.total };
+    case "percent":
+      return parsed.percent;
+    case "value":
+      return parsed.value;
+  }
+}
+
 /**
  * Convert ChartConfig to CLI-compatible YAML string
  */
@@ -82,15 +214,120 @@ export function chartConfigToYaml(config: ChartConfig): string {
   if (config.sponsoredBy?.trim()) {
     yamlConfig.sponsoredBy = config.sponsoredBy.trim();
   }
+  if (config.sponsorLogo) {
+    yamlConfig.sponsorLogo = config.sponsorLogo;
+  }
+  if (config.logo) {
+    yamlConfig.logo = config.logo;
+  }
+  if (config.footerText.trim()) {
+    yamlConfig.footerText = config.footerText.trim();
+  }
+  if (config.source.trim()) {
+    // Plain text unless there's a link to go with it
+    yamlConfig.source = config.sourceUrl.trim()
+      ? { text: config.source.trim(), url: config.sourceUrl.trim() }
+      : config.source.trim();
+  }
   if (config.showRankings) {
     yamlConfig.showRankings = true;
   }
   if (config.percentPrecision !== 1) {
     yamlConfig.percentPrecision = config.percentPrecision;
   }
+  if (config.metric.enabled) {
+    const metric: YamlMetric = {};
+    if (config.metric.unit.trim()) metric.unit = config.metric.unit.trim();
+    if (config.metric.min.trim()) metric.min = parseFloat(config.metric.min);
+    if (config.metric.max.trim()) metric.max = parseFloat(config.metric.max);
+    if (config.metric.format.trim()) metric.format = config.metric.format.trim();
+    yamlConfig.metric = metric;
+  }
+  if (!config.higherIsBetter) {
+    yamlConfig.higherIsBetter = false;
+  }
   if (config.font && config.font !== "sora") {
     yamlConfig.font = config.font;
   }
+  const themeColors = Object.entries(config.theme.colors).filter(([, color]) => color);
+  if (themeColors.length > 0 || config.theme.radius.trim()) {
+    const theme: YamlTheme = config.theme.preset !== "light" ? { preset: config.theme.preset } : {};
+    Object.assign(theme, Object.fromEntries(themeColors));
+    if (config.theme.radius.trim()) theme.radius = parseFloat(config.theme.radius);
+    yamlConfig.theme = theme;
+  } else if (config.theme.preset !== "light") {
+    yamlConfig.theme = config.theme.preset;
+  }
+  if (config.orientation === "vertical") {
+    yamlConfig.orientation = config.orientation;
+  }
+  if (config.aspectRatio !== "4:5") {
+    yamlConfig.aspectRatio = config.aspectRatio;
+  }
+  if (config.chartType === "scatter") {
+    yamlConfig.chartType = config.chartType;
+    if (config.xAxis !== "totalParams") {
+      yamlConfig.xAxis = config.xAxis;
+    }
+  }
+  if (config.chartType === "dumbbell") {
+    yamlConfig.chartType = config.chartType;
+    if (config.dumbbellSort !== "score") {
+      yamlConfig.dumbbellSort = config.dumbbellSort;
+    }
+  }
+  if (config.sortBy !== "score") {
+    yamlConfig.sortBy = config.sortBy;
+  }
+  if (config.groups.length > 0) {
+    yamlConfig.groups = config.groups.map((g) => ({ key: groupKey(g), label: g.label.trim() }));
+    if (config.rankScope !== "global") {
+      yamlConfig.rankScope = config.rankScope;
+    }
+  }
+  if (config.errorBars !== "none") {
+    yamlConfig.errorBars = config.errorBars;
+  }
+  if (config.overlapTies) {
+    yamlConfig.overlapTies = true;
+  }
+  if (config.dimOthers) {
+    yamlConfig.dimOthers = true;
+  }
+  if (config.topN.trim()) {
+    yamlConfig.topN = parseInt(config.topN, 10);
+  }
+  if (config.maxModelsPerPage.trim()) {
+    yamlConfig.maxModelsPerPage = parseInt(config.maxModelsPerPage, 10);
+  }
+  if (config.benchmarks.length > 0) {
+    yamlConfig.benchmarks = config.benchmarks.map((b) => {
+      const yamlBenchmark: YamlBenchmark = {
+        key: benchmarkKey(b),
+        label: b.label.trim(),
+      };
+      if (b.color) {
+        yamlBenchmark.color = b.color;
+      }
+      return yamlBenchmark;
+    });
+    const sortBenchmark = config.benchmarks.find((b) => b.id === config.sortBenchmark);
+    if (sortBenchmark && sortBenchmark !== config.benchmarks[0]) {
+      yamlConfig.sortBenchmark = benchmarkKey(sortBenchmark);
+    }
+  }
+  if (config.referenceLines.length > 0) {
+    yamlConfig.referenceLines = config.referenceLines.map((r) => {
+      const yamlReferenceLine: YamlReferenceLine = {
+        label: r.label.trim(),
+        value: parseFloat(r.value),
+      };
+      if (r.color) {
+        yamlReferenceLine.color = r.color;
+      }
+      return yamlReferenceLine;
+    });
+  }
 
   // Convert models
   yamlConfig.models = config.models.map((m) => {
@@ -103,14 +340,33 @@ export function chartConfigToYaml(config: ChartConfig): string {
       yamlModel.displayName = m.modelName.trim();
     }
 
-    // Parse score and add appropriate fields
-    const parsed = parseScore(m.score);
-    if (parsed) {
-      if (parsed.mode === "fraction") {
-        yamlModel.passed = parsed.passed;
-        yamlModel.total = parsed.total;
-      } else {
-        yamlModel.percent = parsed.percent;
+    // Parse score(s) and add appropriate fields
+    if (config.benchmarks.length > 0) {
+      yamlModel.scores = {};
+      for (const b of config.benchmarks) {
+        const parsed = parseScore(m.scores[b.id] ?? "");
+        if (parsed) {
+          yamlModel.scores[benchmarkKey(b)] = toYamlScore(parsed);
+        }
+      }
+    } else {
+      const parsed = parseScore(m.score, config.metric.enabled);
+      if (parsed) {
+        if (parsed.mode === "fraction") {
+          yamlModel.passed = parsed.passed;
+          yamlModel.total = parsed.total;
+        } else if (parsed.mode === "value") {
+          yamlModel.value = parsed.value;
+        } else {
+          yamlModel.percent = parsed.percent;
+        }
+      }
+    }
+
+    if (config.chartType === "dumbbell") {
+      const parsed = parseScore(m.previousScore, config.metric.enabled);
+      if (parsed) {
+        yamlModel.previous = toYamlScore(parsed);
       }
     }
 
@@ -123,9 +379,28 @@ export function chartConfigToYaml(config: ChartConfig): string {
       const params = parseInt(m.activeParams, 10);
       if (!isNaN(params)) yamlModel.activeParams = params;
     }
+    for (const field of costFields) {
+      if (m[field]) {
+        const value = parseFloat(m[field]);
+        if (!isNaN(value)) yamlModel[field] = value;
+      }
+    }
     if (m.color) {
       yamlModel.color = m.color;
     }
+    if (m.note.trim()) {
+      yamlModel.note = m.note.trim();
+    }
+    const group = config.groups.find((g) => g.id === m.group);
+    if (group) {
+      yamlModel.group = groupKey(group);
+    }
+    if (m.highlight) {
+      yamlModel.highlight = true;
+    }
+    if (m.callout.trim()) {
+      yamlModel.callout = m.callout.trim();
+    }
 
     return yamlModel;
   });
@@ -151,6 +426,49 @@ export function chartConfigToYaml(config: ChartConfig): string {
   });
 }
 
+/**
+ * Convert a YAML score (percent or passed/total) to a score input string
+ * ("75%" or "45/100"), or a metric value to a plain number ("1250").
+ * Throws with `context` prefixed on invalid input.
+ */
+function yamlScoreToInput(score: Record<string, unknown>, context: string, isMetric = false): string {
+  if (isMetric) {
+    const value = Number(score.value);
+    if (score.value === undefined || isNaN(value)) {
+      throw new Error(`${context}: 'value' must be a number when a metric is set`);
+    }
+    return String(value);
+  }
+
+  const hasPercent = score.percent !== undefined;
+  const hasFraction = score.passed !== undefined || score.total !== undefined;
+
+  if (!hasPercent && !hasFraction) {
+    throw new Error(`${context}: must have either 'percent' or 'passed'/'total'`);
+  }
+
+  if (hasPercent) {
+    const pct = Number(score.percent);
+    if (isNaN(pct) || pct < 0 || pct > 100) {
+      throw new Error(`${context}: 'percent' must be a number between 0 and 100`);
+    }
+    return `${pct}%`;
+  }
+
+  const p = Number(score.passed);
+  const t = Number(score.total);
+  if (isNaN(p) || p < 0) {
+    throw new Error(`${context}: 'passed' must be a non-negative number`);
+  }
+  if (isNaN(t) || t <= 0) {
+    throw new Error(`${context}: 'total' must be a positive number`);
+  }
+  if (p > t) {
+    throw new Error(`${context}: 'passed' cannot exceed 'total'`);
+  }
+  return `${p}/${t}`;
+}
+
 /**
  * Parse YAML string to ChartConfig
  * Throws an error with a descriptive message if parsing fails
@@ -193,6 +511,280 @@ export function yamlToChartConfig(yamlString: string): ChartConfig {
     font = normalizedFont as FontFamily;
   }
 
+  // Parse theme (preset name, or preset plus overrides)
+  let theme: ThemeSettings = defaultThemeSettings;
+  if (data.theme !== undefined) {
+    if (typeof data.theme !== "string" && (typeof data.theme !== "object" || data.theme === null)) {
+      throw new Error("Field 'theme' must be a preset name or an object");
+    }
+    const t = (typeof data.theme === "string" ? { preset: data.theme } : data.theme) as Record<string, unknown>;
+    const preset = t.preset ?? "light";
+    if (!themePresets.includes(preset as ThemePreset)) {
+      throw new Error(`Invalid theme '${preset}'. Valid options: ${themePresets.join(", ")}`);
+    }
+    const colors: ThemeSettings["colors"] = {};
+    for (const key of THEME_COLOR_KEYS) {
+      if (t[key] !== undefined) {
+        if (typeof t[key] !== "string") {
+          throw new Error(`Field 'theme.${key}' must be a hex color`);
+        }
+        colors[key] = t[key];
+      }
+    }
+    if (t.radius !== undefined && isNaN(Number(t.radius))) {
+      throw new Error("Field 'theme.radius' must be a number");
+    }
+    theme = {
+      preset: preset as ThemePreset,
+      colors,
+      radius: t.radius !== undefined ? String(Number(t.radius)) : "",
+    };
+  }
+
+  // Parse logos (the browser can't read CLI file paths, only inline data URLs)
+  for (const field of ["sponsorLogo", "logo"] as const) {
+    const value = data[field];
+    if (value !== undefined && (typeof value !== "string" || !value.startsWith("data:image/"))) {
+      throw new Error(`Field '${field}' must be an image data URL (file paths only work in the CLI)`);
+    }
+  }
+
+  // Parse data source (plain text or text plus link)
+  let source = "";
+  let sourceUrl = "";
+  if (data.source !== undefined) {
+    if (typeof data.source === "string") {
+      source = data.source.trim();
+    } else if (typeof data.source === "object" && data.source !== null && typeof (data.source as YamlSource).text === "string") {
+      const s = data.source as YamlSource;
+      source = s.text.trim();
+      sourceUrl = typeof s.url === "string" ? s.url.trim() : "";
+    } else {
+      throw new Error("Field 'source' must be a string or an object with 'text' and 'url'");
+    }
+  }
+
+  // Parse orientation
+  let orientation: Orientation = "horizontal";
+  if (data.orientation !== undefined) {
+    if (data.orientation !== "horizontal" && data.orientation !== "vertical") {
+      throw new Error("Field 'orientation' must be 'horizontal' or 'vertical'");
+    }
+    orientation = data.orientation;
+  }
+
+  let aspectRatio: AspectRatio = "4:5";
+  if (data.aspectRatio !== undefined) {
+    if (!aspectRatios.includes(data.aspectRatio as AspectRatio)) {
+      throw new Error(`Invalid aspectRatio '${data.aspectRatio}'. Valid options: ${aspectRatios.join(", ")}`);
+    }
+    aspectRatio = data.aspectRatio as AspectRatio;
+  }
+
+  // Parse chart type and scatter x-axis
+  let chartType: ChartType = "bar";
+  if (data.chartType !== undefined) {
+    if (!chartTypes.includes(data.chartType as ChartType)) {
+      throw new Error(`Invalid chartType '${data.chartType}'. Valid options: ${chartTypes.join(", ")}`);
+    }
+    chartType = data.chartType as ChartType;
+  }
+
+  let xAxis: ScatterXAxis = "totalParams";
+  if (data.xAxis !== undefined) {
+    if (!scatterXAxes.includes(data.xAxis as ScatterXAxis)) {
+      throw new Error(`Invalid xAxis '${data.xAxis}'. Valid options: ${scatterXAxes.join(", ")}`);
+    }
+    xAxis = data.xAxis as ScatterXAxis;
+  }
+
+  let dumbbellSort: DumbbellSort = "score";
+  if (data.dumbbellSort !== undefined) {
+    if (!dumbbellSorts.includes(data.dumbbellSort as DumbbellSort)) {
+      throw new Error(`Invalid dumbbellSort '${data.dumbbellSort}'. Valid options: ${dumbbellSorts.join(", ")}`);
+    }
+    dumbbellSort = data.dumbbellSort as DumbbellSort;
+  }
+
+  let sortBy: SortBy = "score";
+  if (data.sortBy !== undefined) {
+    if (!sortBys.includes(data.sortBy as SortBy)) {
+      throw new Error(`Invalid sortBy '${data.sortBy}'. Valid options: ${sortBys.join(", ")}`);
+    }
+    sortBy = data.sortBy as SortBy;
+  }
+
+  let rankScope: RankScope = "global";
+  if (data.rankScope !== undefined) {
+    if (!rankScopes.includes(data.rankScope as RankScope)) {
+      throw new Error(`Invalid rankScope '${data.rankScope}'. Valid options: ${rankScopes.join(", ")}`);
+    }
+    rankScope = data.rankScope as RankScope;
+  }
+
+  let topN = "";
+  if (data.topN !== undefined) {
+    if (typeof data.topN !== "number" || !Number.isInteger(data.topN) || data.topN < 1) {
+      throw new Error("Field 'topN' must be a positive integer");
+    }
+    topN = String(data.topN);
+  }
+
+  let maxModelsPerPage = "";
+  if (data.maxModelsPerPage !== undefined) {
+    if (typeof data.maxModelsPerPage !== "number" || !Number.isInteger(data.maxModelsPerPage) || data.maxModelsPerPage < 1) {
+      throw new Error("Field 'maxModelsPerPage' must be a positive integer");
+    }
+    maxModelsPerPage = String(data.maxModelsPerPage);
+  }
+
+  // Parse error bars
+  let errorBars: ErrorBarMethod = "none";
+  if (data.errorBars !== undefined) {
+    if (!errorBarMethods.includes(data.errorBars as ErrorBarMethod)) {
+      throw new Error(`Invalid errorBars '${data.errorBars}'. Valid options: ${errorBarMethods.join(", ")}`);
+    }
+    errorBars = data.errorBars as ErrorBarMethod;
+  }
+
+  // Parse metric (non-percentage scores)
+  let metric: MetricSettings = defaultMetricSettings;
+  if (data.metric !== undefined) {
+    if (typeof data.metric !== "object" || data.metric === null) {
+      throw new Error("Field 'metric' must be an object");
+    }
+    const m = data.metric as Record<string, unknown>;
+    for (const field of ["min", "max"] as const) {
+      if (m[field] !== undefined && isNaN(Number(m[field]))) {
+        throw new Error(`Field 'metric.${field}' must be a number`);
+      }
+    }
+    metric = {
+      enabled: true,
+      unit: typeof m.unit === "string" ? m.unit : "",
+      min: m.min !== undefined ? String(Number(m.min)) : "",
+      max: m.max !== undefined ? String(Number(m.max)) : "",
+      format: typeof m.format === "string" ? m.format : "",
+    };
+  }
+
+  // The top-level direction wins over the metric's (both default to higher is better)
+  const metricDirection = (data.metric as Record<string, unknown> | undefined)?.higherIsBetter;
+  const higherIsBetter = (data.higherIsBetter ?? metricDirection) !== false;
+
+  // Parse benchmarks (enables grouped bars)
+  const benchmarks: BenchmarkConfig[] = [];
+  const benchmarkIds = new Map<string, string>(); // YAML key -> benchmark id
+  if (Array.isArray(data.benchmarks)) {
+    data.benchmarks.forEach((b: unknown, index: number) => {
+      if (typeof b !== "object" || b === null) {
+        throw new Error(`Benchmark at index ${index} must be an object`);
+      }
+
+      const benchmark = b as Record<string, unknown>;
+
+      if (typeof benchmark.key !== "string" || !benchmark.key.trim()) {
+        throw new Error(`Benchmark at index ${index}: missing required field 'key'`);
+      }
+
+      if (benchmark.color !== undefined && (typeof benchmark.color !== "string" || !/^#[0-9A-Fa-f]{6}$/.test(benchmark.color))) {
+        throw new Error(`Benchmark at index ${index}: 'color' must be a valid hex color`);
+      }
+
+      const key = benchmark.key.trim();
+      const id = generateId();
+      benchmarkIds.set(key, id);
+      benchmarks.push({
+        id,
+        label: typeof benchmark.label === "string" && benchmark.label.trim() ? benchmark.label.trim() : key,
+        color: typeof benchmark.color === "string" ? benchmark.color : "",
+      });
+    });
+  }
+
+  let sortBenchmark = "";
+  if (data.sortBenchmark !== undefined) {
+    const id = typeof data.sortBenchmark === "string" ? benchmarkIds.get(data.sortBenchmark) : undefined;
+    if (!id) {
+      throw new Error(`Field 'sortBenchmark' must match a benchmark key`);
+    }
+    sortBenchmark = id;
+  }
+
+  // Parse groups (leaderboard sections)
+  const groups: GroupConfig[] = [];
+  const groupIds = new Map<string, string>(); // YAML key -> group id
+  if (Array.isArray(data.groups)) {
+    data.groups.forEach((g: unknown, index: number) => {
+      if (typeof g !== "object" || g === null) {
+        throw new Error(`Group at index ${index} must be an object`);
+      }
+
+      const group = g as Record<string, unknown>;
+
+      if (typeof group.key !== "string" || !group.key.trim()) {
+        throw new Error(`Group at index ${index}: missing required field 'key'`);
+      }
+
+      const key = group.key.trim();
+      const id = generateId();
+      groupIds.set(key, id);
+      groups.push({
+        id,
+        label: typeof group.label === "string" && group.label.trim() ? group.label.trim() : key,
+      });
+    });
+  }
+
+  // Parse reference lines
+  const referenceLines: ReferenceLineConfig[] = [];
+  if (Array.isArray(data.referenceLines)) {
+    data.referenceLines.forEach((r: unknown, index: number) => {
+      if (typeof r !== "object" || r === null) {
+        throw new Error(`Reference line at index ${index} must be an object`);
+      }
+
+      const line = r as Record<string, unknown>;
+
+      if (typeof line.label !== "string" || !line.label.trim()) {
+        throw new Error(`Reference line at index ${index}: missing required field 'label'`);
+      }
+
+      const value = Number(line.value);
+      if (line.value === undefined || isNaN(value)) {
+        throw new Error(`Reference line at index ${index}: 'value' must be a number`);
+      }
+      if (!metric.enabled && (value < 0 || value > 100)) {
+        throw new Error(`Reference line at index ${index}: 'value' must be a number between 0 and 100`);
+      }
+
+      if (line.color !== undefined && (typeof line.color !== "string" || !/^#[0-9A-Fa-f]{6}$/.test(line.color))) {
+        throw new Error(`Reference line at index ${index}: 'color' must be a valid hex color`);
+      }
+
+      referenceLines.push({
+        id: generateId(),
+        label: line.label.trim(),
+        value: String(value),
+        color: typeof line.color === "string" ? line.color : "",
+      });
+    });
+  }
+
+  // Parse footnotes (key -> text), referenced by each model's 'footnote'
+  const footnotes: Record<string, string> = {};
+  if (data.footnotes !== undefined) {
+    if (typeof data.footnotes !== "object" || data.footnotes === null || Array.isArray(data.footnotes)) {
+      throw new Error(`Field 'footnotes' must be a map of key to footnote text`);
+    }
+    for (const [key, text] of Object.entries(data.footnotes as Record<string, unknown>)) {
+      if (typeof text !== "string") {
+        throw new Error(`Footnote '${key}' must be a string`);
+      }
+      footnotes[key] = text.trim();
+    }
+  }
+
   // Parse models
   const models: ModelConfig[] = data.models.map((m: unknown, index: number) => {
     if (typeof m !== "object" || m === null) {
@@ -206,35 +798,37 @@ export function yamlToChartConfig(yamlString: string): ChartConfig {
       throw new Error(`Model at index ${index}: missing required field 'model'`);
     }
 
-    // Determine score and validate
-    const hasPercent = model.percent !== undefined;
-    const hasFraction = model.passed !== undefined || model.total !== undefined;
-
-    if (!hasPercent && !hasFraction) {
-      throw new Error(`Model at index ${index}: must have either 'percent' or 'passed'/'total'`);
-    }
-
+    // Determine score(s) and validate
     let score = "";
+    const scores: Record<string, string> = {};
 
-    if (hasPercent) {
-      const pct = Number(model.percent);
-      if (isNaN(pct) || pct < 0 || pct > 100) {
-        throw new Error(`Model at index ${index}: 'percent' must be a number between 0 and 100`);
+    if (benchmarks.length > 0) {
+      if (typeof model.scores !== "object" || model.scores === null) {
+        throw new Error(`Model at index ${index}: missing required field 'scores'`);
       }
-      score = `${pct}%`;
-    } else {
-      const p = Number(model.passed);
-      const t = Number(model.total);
-      if (isNaN(p) || p < 0) {
-        throw new Error(`Model at index ${index}: 'passed' must be a non-negative number`);
-      }
-      if (isNaN(t) || t <= 0) {
-        throw new Error(`Model at index ${index}: 'total' must be a positive number`);
-      }
-      if (p > t) {
-        throw new Error(`Model at index ${index}: 'passed' cannot exceed 'total'`);
+      const yamlScores = model.scores as Record<string, unknown>;
+      for (const [key, id] of benchmarkIds) {
+        const value = yamlScores[key];
+        if (value === undefined) {
+          throw new Error(`Model at index ${index}: missing score for benchmark '${key}'`);
+        }
+        scores[id] = yamlScoreToInput(
+          typeof value === "number" ? { percent: value } : (value as Record<string, unknown>),
+          `Model at index ${index}, benchmark '${key}'`
+        );
       }
-      score = `${p}/${t}`;
+    } else {
+      score = yamlScoreToInput(model, `Model at index ${index}`, metric.enabled);
+    }
+
+    let previousScore = "";
+    if (model.previous !== undefined) {
+      const shorthandKey = metric.enabled ? "value" : "percent";
+      previousScore = yamlScoreToInput(
+        typeof model.previous === "number" ? { [shorthandKey]: model.previous } : (model.previous as Record<string, unknown>),
+        `Model at index ${index}, previous`,
+        metric.enabled
+      );
     }
 
     // Parse optional fields
@@ -256,6 +850,18 @@ export function yamlToChartConfig(yamlString: string): ChartConfig {
       activeParams = String(params);
     }
 
+    const costs = {} as Record<CostField, string>;
+    for (const field of costFields) {
+      costs[field] = "";
+      if (model[field] !== undefined) {
+        const value = Number(model[field]);
+        if (isNaN(value) || value <= 0) {
+          throw new Error(`Model at index ${index}: '${field}' must be a positive number`);
+        }
+        costs[field] = String(value);
+      }
+    }
+
     let color = "";
     if (model.color !== undefined) {
       if (typeof model.color !== "string" || !/^#[0-9A-Fa-f]{6}$/.test(model.color)) {
@@ -264,6 +870,30 @@ export function yamlToChartConfig(yamlString: string): ChartConfig {
       color = model.color;
     }
 
+    // Shared footnotes are inlined; models with the same text still share a marker
+    let note = "";
+    if (model.note !== undefined) {
+      if (typeof model.note !== "string") {
+        throw new Error(`Model at index ${index}: 'note' must be a string`);
+      }
+      note = model.note.trim();
+    } else if (model.footnote !== undefined) {
+      const text = footnotes[String(model.footnote)];
+      if (text === undefined) {
+        throw new Error(`Model at index ${index}: footnote '${model.footnote}' does not match any footnotes key`);
+      }
+      note = text;
+    }
+
+    let group = "";
+    if (groups.length > 0) {
+      const id = typeof model.group === "string" ? groupIds.get(model.group) : undefined;
+      if (!id) {
+        throw new Error(`Model at index ${index}: 'group' must match a group key`);
+      }
+      group = id;
+    }
+
     // Extract provider from model field (handle "provider/model-name" format)
     const modelStr = String(model.model).trim();
     const provider = modelStr.includes("/") ? modelStr.split("/")[0] : modelStr;
@@ -281,9 +911,16 @@ export function yamlToChartConfig(yamlString: string): ChartConfig {
       provider,
       modelName,
       score,
+      previousScore,
+      scores,
       totalParams,
       activeParams,
+      ...costs,
       color,
+      note,
+      group,
+      highlight: model.highlight === true,
+      callout: typeof model.callout === "string" ? model.callout.trim() : "",
       showAdvanced: false,
     };
   });
@@ -319,11 +956,35 @@ export function yamlToChartConfig(yamlString: string): ChartConfig {
     title: data.title.trim(),
     description: typeof data.description === "string" ? data.description.trim() : "",
     sponsoredBy: typeof data.sponsoredBy === "string" ? data.sponsoredBy.trim() : "",
+    sponsorLogo: (data.sponsorLogo as string | undefined) ?? "",
+    logo: (data.logo as string | undefined) ?? "",
+    footerText: typeof data.footerText === "string" ? data.footerText.trim() : "",
+    source,
+    sourceUrl,
     showRankings: data.showRankings === true,
     percentPrecision: typeof data.percentPrecision === "number" ? Math.min(3, Math.max(0, Math.floor(data.percentPrecision))) : 1,
     font,
+    orientation,
+    aspectRatio,
+    chartType,
+    xAxis,
+    dumbbellSort,
+    sortBy,
+    errorBars,
+    overlapTies: data.overlapTies === true,
+    higherIsBetter,
+    metric,
+    theme,
     models,
     customProviders,
+    benchmarks,
+    sortBenchmark,
+    referenceLines,
+    groups,
+    rankScope,
+    dimOthers: data.dimOthers === true,
+    topN,
+    maxModelsPerPage,
   };
 }
 
@@ -379,9 +1040,19 @@ export function loadConfigFromStorage(): ChartConfig | null {
         provider: m.provider || "",
         modelName: m.modelName || "",
         score,
+        previousScore: m.previousScore ?? "",
+        scores: m.scores ?? {},
         totalParams: m.totalParams ?? "",
         activeParams: m.activeParams ?? "",
+        costPerRun: m.costPerRun ?? "",
+        costPerMillionInput: m.costPerMillionInput ?? "",
+        costPerMillionOutput: m.costPerMillionOutput ?? "",
+        latencyMs: m.latencyMs ?? "",
         color: m.color ?? "",
+        note: m.note ?? "",
+        group: m.group ?? "",
+        highlight: m.highlight === true,
+        callout: m.callout ?? "",
         showAdvanced: m.showAdvanced ?? false,
       };
     });
@@ -389,6 +1060,32 @@ export function loadConfigFromStorage(): ChartConfig | null {
     // Ensure customProviders array exists
     parsed.customProviders = parsed.customProviders || [];
 
+    // Default fields added after the initial release
+    parsed.orientation = parsed.orientation === "vertical" ? "vertical" : "horizontal";
+    parsed.sponsorLogo = parsed.sponsorLogo ?? "";
+    parsed.logo = parsed.logo ?? "";
+    parsed.footerText = parsed.footerText ?? "";
+    parsed.source = parsed.source ?? "";
+    parsed.sourceUrl = parsed.sourceUrl ?? "";
+    parsed.aspectRatio = aspectRatios.includes(parsed.aspectRatio) ? parsed.aspectRatio : "4:5";
+    parsed.benchmarks = parsed.benchmarks || [];
+    parsed.sortBenchmark = parsed.sortBenchmark ?? "";
+    parsed.referenceLines = parsed.referenceLines || [];
+    parsed.groups = parsed.groups || [];
+    parsed.rankScope = rankScopes.includes(parsed.rankScope) ? parsed.rankScope : "global";
+    parsed.sortBy = sortBys.includes(parsed.sortBy) ? parsed.sortBy : "score";
+    parsed.chartType = chartTypes.includes(parsed.chartType) ? parsed.chartType : "bar";
+    parsed.xAxis = scatterXAxes.includes(parsed.xAxis) ? parsed.xAxis : "totalParams";
+    parsed.dumbbellSort = dumbbellSorts.includes(parsed.dumbbellSort) ? parsed.dumbbellSort : "score";
+    parsed.errorBars = errorBarMethods.includes(parsed.errorBars) ? parsed.errorBars : "none";
+    parsed.overlapTies = parsed.overlapTies === true;
+    parsed.dimOthers = parsed.dimOthers === true;
+    parsed.topN = parsed.topN ?? "";
+    parsed.maxModelsPerPage = parsed.maxModelsPerPage ?? "";
+    parsed.higherIsBetter = parsed.higherIsBetter !== false;
+    parsed.metric = { ...defaultMetricSettings, ...parsed.metric };
+    parsed.theme = { ...defaultThemeSettings, ...parsed.theme };
+
     return parsed;
   } catch {
     // Silently fail and return null